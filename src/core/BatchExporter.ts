@@ -0,0 +1,261 @@
+/**
+ * Shared delivery for exporters that batch events and POST them over HTTP
+ * Owns batching, the flush timer, retries and the circuit breaker, payload splitting,
+ * the offline queue and unload delivery; exporters describe their requests
+ */
+
+import { OfflineQueue, PartialDeliveryError } from './OfflineQueue'
+import { RetryPolicy, ExportHttpError } from './RetryPolicy'
+import { sendOnUnload } from './UnloadTransport'
+import { PayloadEncoder } from './PayloadEncoder'
+import type { EncodedPayload } from './PayloadEncoder'
+import { getNativeFetch } from './NativeFetch'
+import type { TelemetryEvent, PlatformConfig, ExporterPlugin } from '../types'
+
+const DEFAULT_BATCH_SIZE = 100
+const DEFAULT_FLUSH_INTERVAL = 5000
+const DEFAULT_MAX_RETAINED_EVENTS = 50
+
+/**
+ * One POST to one endpoint; split into several requests when the payload is too large
+ */
+export interface ExportRequest {
+  url: string
+  headers: Record<string, string>
+  events: TelemetryEvent[]
+  serialize: (events: TelemetryEvent[]) => string
+  // Names the endpoint in error messages, e.g. "Datadog API"
+  api: string
+}
+
+export interface BatchExporterOptions {
+  // Console prefix, e.g. "DatadogExporter"
+  label: string
+  maxPayloadBytes: number
+  // Events kept in memory for the next flush when a request fails without an offline queue
+  maxRetainedEvents?: number
+}
+
+export abstract class BatchExporter implements ExporterPlugin {
+  abstract name: string
+  protected config: PlatformConfig
+  private batchedEvents: TelemetryEvent[] = []
+  private flushTimer?: NodeJS.Timeout
+  private offlineQueue?: OfflineQueue
+  private retryPolicy: RetryPolicy = new RetryPolicy()
+  private payloadEncoder: PayloadEncoder
+
+  constructor(defaults: PlatformConfig, private options: BatchExporterOptions) {
+    this.config = defaults
+    this.payloadEncoder = new PayloadEncoder({ maxPayloadBytes: options.maxPayloadBytes })
+  }
+
+  configure(config: PlatformConfig): void {
+    this.config = { ...this.config, ...config }
+
+    this.retryPolicy = new RetryPolicy(this.config.retry)
+    this.payloadEncoder = new PayloadEncoder({
+      compression: this.config.compression,
+      maxPayloadBytes: this.config.maxPayloadBytes ?? this.options.maxPayloadBytes
+    })
+    this.setupOfflineQueue()
+
+    this.startFlushTimer()
+  }
+
+  async export(events: TelemetryEvent[]): Promise<void> {
+    this.batchedEvents.push(...events.filter(event => this.accepts(event)))
+
+    if (this.batchedEvents.length >= (this.config.batchSize || DEFAULT_BATCH_SIZE)) {
+      await this.flush()
+    }
+  }
+
+  /**
+   * Manual flush for immediate export
+   */
+  async forceFlush(): Promise<void> {
+    await this.flush()
+  }
+
+  /**
+   * Request count and per-request payload sizes
+   */
+  getStats() {
+    return this.payloadEncoder.getStats()
+  }
+
+  /**
+   * Flush pending events with sendBeacon / fetch keepalive so they outlive the page
+   */
+  flushOnUnload(): void {
+    const eventsToFlush = this.takeBatch()
+    if (eventsToFlush.length === 0) return
+
+    if (!this.isConfigured()) {
+      this.logToConsole(eventsToFlush)
+      return
+    }
+
+    this.getPendingRequests(eventsToFlush).forEach(request => {
+      sendOnUnload({
+        url: request.url,
+        headers: request.headers,
+        events: request.events,
+        serialize: request.serialize,
+        onFailure: events => this.offlineQueue?.persist(events)
+      })
+    })
+  }
+
+  /**
+   * Cleanup resources
+   */
+  destroy(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer)
+      this.flushTimer = undefined
+    }
+
+    this.offlineQueue?.stop()
+
+    // Flush remaining events with requests that survive navigation
+    this.flushOnUnload()
+  }
+
+  // Whether credentials and endpoint are set; events go to the console otherwise
+  protected abstract isConfigured(): boolean
+
+  // One request per endpoint or payload type the events are sent as
+  protected abstract getRequests(events: TelemetryEvent[]): ExportRequest[]
+
+  protected abstract logToConsole(events: TelemetryEvent[]): void
+
+  protected accepts(_event: TelemetryEvent): boolean {
+    return true
+  }
+
+  private async flush(): Promise<void> {
+    const eventsToFlush = this.takeBatch()
+    if (eventsToFlush.length === 0) return
+
+    if (!this.isConfigured()) {
+      this.logToConsole(eventsToFlush)
+      return
+    }
+
+    // Requests are delivered and re-queued on their own, so a failing endpoint
+    // doesn't resend events another endpoint already accepted
+    for (const request of this.getPendingRequests(eventsToFlush)) {
+      await this.deliver(request)
+    }
+  }
+
+  private async deliver(request: ExportRequest): Promise<void> {
+    try {
+      // Don't waste a request while offline - the queue replays once connectivity returns
+      if (this.offlineQueue && !this.offlineQueue.isOnline()) {
+        await this.offlineQueue.enqueue(request.events)
+        return
+      }
+
+      await this.post(request)
+      this.offlineQueue?.replay()
+    } catch (caught) {
+      const error = caught instanceof PartialDeliveryError ? caught.error : caught
+      console.error(`[${this.options.label}] Failed to export events:`, error)
+
+      // Rejected payloads (4xx) will be rejected again - drop them instead of retrying
+      if (!this.retryPolicy.isRetryable(error)) return
+
+      // Payloads the endpoint already accepted are not sent again
+      const undelivered = caught instanceof PartialDeliveryError ? caught.undelivered : request.events
+      if (this.offlineQueue) {
+        await this.offlineQueue.enqueue(undelivered)
+      } else {
+        // Keep a few for the next flush
+        this.batchedEvents.unshift(...undelivered.slice(0, this.options.maxRetainedEvents ?? DEFAULT_MAX_RETAINED_EVENTS))
+      }
+    }
+  }
+
+  // Offline queue replay; a failure leaves only the events of undelivered payloads queued
+  private async send(events: TelemetryEvent[]): Promise<void> {
+    const requests = this.getPendingRequests(events)
+
+    for (const [index, request] of requests.entries()) {
+      try {
+        await this.post(request)
+      } catch (caught) {
+        const later = requests.slice(index + 1).flatMap(pending => pending.events)
+        if (caught instanceof PartialDeliveryError) {
+          throw new PartialDeliveryError(caught.error, [...caught.undelivered, ...later])
+        }
+        throw new PartialDeliveryError(caught, [...request.events, ...later])
+      }
+    }
+  }
+
+  // Fails with a PartialDeliveryError naming the events of the payloads not delivered
+  private async post(request: ExportRequest): Promise<void> {
+    const payloads = await this.payloadEncoder.encode(request.events, request.serialize)
+
+    for (const [index, payload] of payloads.entries()) {
+      try {
+        await this.retryPolicy.execute(() => this.postPayload(request, payload))
+      } catch (error) {
+        throw new PartialDeliveryError(error, payloads.slice(index).flatMap(pending => pending.events))
+      }
+      this.payloadEncoder.recordRequest(payload)
+    }
+  }
+
+  private async postPayload(request: ExportRequest, payload: EncodedPayload): Promise<void> {
+    // Never through an instrumented fetch assigned over window.fetch
+    const response = await getNativeFetch()!(request.url, {
+      method: 'POST',
+      headers: { ...request.headers, ...payload.headers },
+      body: payload.body
+    })
+
+    if (!response.ok) {
+      throw ExportHttpError.fromResponse(response, `${request.api} error: ${response.status} ${response.statusText}`)
+    }
+  }
+
+  private getPendingRequests(events: TelemetryEvent[]): ExportRequest[] {
+    return this.getRequests(events).filter(request => request.events.length > 0)
+  }
+
+  private takeBatch(): TelemetryEvent[] {
+    const events = this.batchedEvents
+    this.batchedEvents = []
+    return events
+  }
+
+  private setupOfflineQueue(): void {
+    this.offlineQueue?.stop()
+    this.offlineQueue = undefined
+
+    if (this.config.offlineQueue?.enabled && this.isConfigured()) {
+      this.offlineQueue = new OfflineQueue(
+        `${this.name}:${this.config.endpoint || 'default'}`,
+        events => this.send(events),
+        this.config.offlineQueue
+      )
+      this.offlineQueue.start()
+    }
+  }
+
+  private startFlushTimer(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer)
+    }
+
+    this.flushTimer = setInterval(() => {
+      if (this.batchedEvents.length > 0) {
+        this.flush()
+      }
+    }, this.config.flushInterval || DEFAULT_FLUSH_INTERVAL)
+  }
+}
\ No newline at end of file
@@ -9,26 +9,77 @@ import type {
   UserContext, 
   BusinessContext, 
   ApiCallContext,
+  JourneyStepOptions,
   InstrumentationResult,
   DomainInstrumentor as IDomainInstrumentor,
   TelemetryEvent
 } from '../types'
+import { getByteLength } from './PayloadEncoder'
+import { TracePropagator, getTraceContext, getJourneyTraceId } from './TracePropagation'
+import type { TraceContext } from './TracePropagation'
+import { JourneyDefinitions } from './JourneyDefinitions'
+import { getNativeFetch } from './NativeFetch'
+import type { JourneyTracker } from './JourneyTracker'
+import type { SloTracker } from './SloTracker'
+
+/**
+ * Raised for non-2xx responses; keeps the status and parsed body for the caller
+ */
+export class ApiResponseError extends Error {
+  constructor(message: string, public status: number, public data?: unknown) {
+    super(message)
+    this.name = 'ApiResponseError'
+  }
+}
+
+export interface DomainInstrumentorOptions {
+  // fetch used for API calls (defaults to the global fetch)
+  fetch?: typeof fetch
+  // Decides which requests get trace headers (defaults to same-origin W3C traceparent)
+  propagator?: TracePropagator
+  // Follows declared journeys across pages to report completion and abandonment
+  journeyTracker?: JourneyTracker
+  // Rolling latency and error-rate SLOs fed by every instrumented request
+  sloTracker?: SloTracker
+}
+
+interface ApiResponse {
+  status: number
+  ok: boolean
+  data: any
+  // Undefined when the body is streamed back to the caller without a Content-Length
+  size?: number
+}
 
 export class DomainInstrumentor implements IDomainInstrumentor {
   private tracer: Tracer
   private meter: Meter
   private domainMetrics: Map<string, any> = new Map()
+  private propagator: TracePropagator
+  private journeys: JourneyDefinitions
+  // Trace context of journey steps whose operation is running, keyed by journey and step
+  private activeJourneySteps: Map<string, TraceContext> = new Map()
 
   constructor(
     private domain: DomainConfig,
-    private userContext: UserContext,
-    private onEvent?: (event: TelemetryEvent) => void
+    private userContextSource: UserContext | (() => UserContext),
+    private onEvent?: (event: TelemetryEvent) => void,
+    private options: DomainInstrumentorOptions = {}
   ) {
+    this.propagator = options.propagator || new TracePropagator()
+    this.journeys = new JourneyDefinitions(domain.name, domain.journeys)
     this.tracer = trace.getTracer(`observ-metrics-${domain.name}`)
     this.meter = metrics.getMeter(`observ-metrics-${domain.name}`)
     this.initializeMetrics()
   }
 
+  /**
+   * Context resolved per call when a provider is given, so session rollovers are picked up
+   */
+  private get userContext(): UserContext {
+    return typeof this.userContextSource === 'function' ? this.userContextSource() : this.userContextSource
+  }
+
   private initializeMetrics() {
     // Create domain-specific counters
     this.domainMetrics.set('api_calls', this.meter.createCounter(`${this.domain.name}_api_calls_total`, {
@@ -59,15 +110,73 @@ export class DomainInstrumentor implements IDomainInstrumentor {
   /**
    * Instrument API calls with business context
    */
-  async instrumentApiCall(
+  async instrumentApiCall<T = any>(
     name: string,
     endpoint: string,
     method: string = 'GET',
     context: ApiCallContext = {}
-  ): Promise<InstrumentationResult> {
+  ): Promise<InstrumentationResult<T>> {
+    return this.instrumentRequest<T>(name, endpoint, method, context, traceHeaders =>
+      this.executeApiCall(endpoint, method, context, traceHeaders)
+    )
+  }
+
+  /**
+   * Instrument a fetch call, resolving with the untouched Response like fetch itself
+   */
+  async instrumentFetch(
+    name: string,
+    input: RequestInfo | URL,
+    init: RequestInit = {},
+    context: ApiCallContext = {}
+  ): Promise<Response> {
+    const fetchImpl = this.resolveFetch()
+    let response: Response | undefined
+
+    const result = await this.instrumentRequest(name, getRequestUrl(input), getRequestMethod(input, init), context, async traceHeaders => {
+      response = await fetchImpl(input, withHeaders(input, init, traceHeaders))
+      // The body belongs to the caller, so only a declared length is recorded
+      const contentLength = response.headers.get('content-length')
+
+      return {
+        status: response.status,
+        ok: response.status >= 200 && response.status < 300,
+        data: undefined,
+        size: contentLength !== null && contentLength !== '' ? Number(contentLength) : undefined
+      }
+    })
+
+    if (!response) {
+      throw result.error
+    }
+    return response
+  }
+
+  private async instrumentRequest<T>(
+    name: string,
+    endpoint: string,
+    method: string,
+    context: ApiCallContext,
+    send: (traceHeaders: Record<string, string>) => Promise<ApiResponse>
+  ): Promise<InstrumentationResult<T>> {
     const spanName = `${this.domain.name}.${name}`
     const span = this.tracer.startSpan(spanName)
     const startTime = Date.now()
+    let responseAttributes: Record<string, any> = {}
+
+    // Calls made inside a journey step continue the step's trace as its children
+    const journeyStep = context.journeyName && context.stepName
+      ? this.activeJourneySteps.get(`${context.journeyName}:${context.stepName}`)
+      : undefined
+    const spanContext = getTraceContext(span)
+    const traceContext = journeyStep ? { ...spanContext, traceId: journeyStep.traceId } : spanContext
+
+    // Links the event to the backend trace the propagated headers start
+    const traceAttributes = {
+      'trace.id': traceContext.traceId,
+      'span.id': traceContext.spanId,
+      ...(journeyStep && { 'parent.span.id': journeyStep.spanId })
+    }
 
     try {
       // Set comprehensive span attributes
@@ -97,13 +206,14 @@ export class DomainInstrumentor implements IDomainInstrumentor {
         
         // Custom attributes
         ...context.customAttributes,
-        ...this.domain.customAttributes
+        ...this.domain.customAttributes,
+
+        ...traceAttributes
       }
 
       span.setAttributes(attributes)
 
-      // Simulate API call (in real implementation, this would be actual HTTP call)
-      const response = await this.executeApiCall(endpoint, method)
+      const response = await send(this.propagator.createHeaders(endpoint, traceContext))
       const duration = Date.now() - startTime
 
       // Record metrics
@@ -122,6 +232,21 @@ export class DomainInstrumentor implements IDomainInstrumentor {
         user_segment: this.userContext.userSegment
       })
 
+      // Set response attributes
+      responseAttributes = {
+        'http.status_code': response.status,
+        'http.response_time_ms': duration,
+        ...(response.size !== undefined && { 'http.response_size_bytes': response.size }),
+        'api.success': response.ok
+      }
+      span.setAttributes(responseAttributes)
+
+      if (!response.ok) {
+        throw new ApiResponseError(`${method} ${endpoint} responded with ${response.status}`, response.status, response.data)
+      }
+
+      this.options.sloTracker?.record(this.domain.name, name, duration, true)
+
       // Check SLA violations
       const slaViolated = duration > this.domain.slaTarget
       if (slaViolated) {
@@ -133,18 +258,14 @@ export class DomainInstrumentor implements IDomainInstrumentor {
         })
       }
 
-      // Set response attributes
-      span.setAttributes({
-        'http.status_code': response.status,
-        'http.response_time_ms': duration,
-        'api.success': response.success
-      })
-
       // Emit telemetry event
       this.emitTelemetryEvent({
         eventType: 'span',
         name: spanName,
-        attributes,
+        attributes: {
+          ...attributes,
+          ...responseAttributes
+        },
         businessContext: this.createBusinessContext(name, context),
         severity: slaViolated ? 'warn' : 'info'
       })
@@ -152,9 +273,12 @@ export class DomainInstrumentor implements IDomainInstrumentor {
       return {
         success: true,
         duration,
+        data: response.data,
+        status: response.status,
         customMetrics: {
           sla_violated: slaViolated ? 1 : 0,
-          response_status: response.status
+          response_status: response.status,
+          ...(response.size !== undefined && { response_size_bytes: response.size })
         }
       }
 
@@ -165,6 +289,8 @@ export class DomainInstrumentor implements IDomainInstrumentor {
       span.recordException(error)
       span.setStatus({ code: 2, message: error.message })
       
+      this.options.sloTracker?.record(this.domain.name, name, duration, false)
+
       // Record error metrics
       this.domainMetrics.get('errors')?.add(1, {
         domain: this.domain.name,
@@ -180,18 +306,27 @@ export class DomainInstrumentor implements IDomainInstrumentor {
         attributes: {
           'error.type': error.name,
           'error.message': error.message,
-          'error.stack': error.stack
+          'error.stack': error.stack,
+          'http.method': method,
+          'http.url': endpoint,
+          ...responseAttributes,
+          ...traceAttributes
         },
         businessContext: this.createBusinessContext(name, context),
         severity: 'error'
       })
 
+      const status = error instanceof ApiResponseError ? error.status : undefined
+
       return {
         success: false,
         duration,
         error,
+        data: error instanceof ApiResponseError ? error.data as T : undefined,
+        status,
         customMetrics: {
-          error_occurred: 1
+          error_occurred: 1,
+          ...(status !== undefined && { response_status: status })
         }
       }
 
@@ -206,25 +341,41 @@ export class DomainInstrumentor implements IDomainInstrumentor {
   async instrumentUserJourney(
     journeyName: string,
     stepName: string,
-    operation: () => Promise<any>
+    operation: () => Promise<any>,
+    options: JourneyStepOptions = {}
   ): Promise<InstrumentationResult> {
     const spanName = `${this.domain.name}.journey.${journeyName}.${stepName}`
     const span = this.tracer.startSpan(spanName)
     const startTime = Date.now()
+    const stepInfo = this.journeys.resolveStep(journeyName, stepName)
+    const tracker = stepInfo.stepNumber > 0 ? this.options.journeyTracker : undefined
+    const previousStep = tracker?.getProgress(this.domain.name, journeyName)?.lastStep
+    const stepKey = `${journeyName}:${stepName}`
+    const stepContext = this.createJourneyStepContext(span, journeyName)
+    const attributes = {
+      'domain.name': this.domain.name,
+      'journey.name': journeyName,
+      'journey.step': stepName,
+      'journey.step_number': stepInfo.stepNumber,
+      ...(stepInfo.totalSteps > 0 && { 'journey.total_steps': stepInfo.totalSteps }),
+      ...(stepInfo.step?.optional && { 'journey.step_optional': true }),
+      ...(previousStep && { 'journey.previous_step': previousStep }),
+      'user.session_id': this.userContext.sessionId,
+      'user.segment': this.userContext.userSegment,
+      'conversion.tracking': true,
+      'trace.id': stepContext.traceId,
+      'span.id': stepContext.spanId
+    }
+    const businessContext: BusinessContext = {
+      domain: this.domain.name,
+      userJourney: journeyName,
+      businessImpact: this.journeys.getBusinessImpact(journeyName)
+    }
 
     try {
-      const attributes = {
-        'domain.name': this.domain.name,
-        'journey.name': journeyName,
-        'journey.step': stepName,
-        'journey.step_number': this.getStepNumber(journeyName, stepName),
-        'user.session_id': this.userContext.sessionId,
-        'user.segment': this.userContext.userSegment,
-        'conversion.tracking': true
-      }
-
       span.setAttributes(attributes)
 
+      this.activeJourneySteps.set(stepKey, stepContext)
       const result = await operation()
       const duration = Date.now() - startTime
 
@@ -244,17 +395,42 @@ export class DomainInstrumentor implements IDomainInstrumentor {
         user_segment: this.userContext.userSegment
       })
 
+      // Flag steps slower than their declared budget
+      const maxDuration = stepInfo.step?.maxDuration
+      const overMax = maxDuration !== undefined && duration > maxDuration
+      if (overMax) {
+        span.setAttributes({
+          'journey.step_max_duration_ms': maxDuration,
+          'journey.step_over_max': true
+        })
+      }
+
       // Emit journey event
       this.emitTelemetryEvent({
         eventType: 'span',
         name: spanName,
-        attributes,
-        businessContext: {
-          domain: this.domain.name,
-          userJourney: journeyName,
-          businessImpact: this.getJourneyBusinessImpact(journeyName)
+        attributes: {
+          ...attributes,
+          'journey.step_duration_ms': duration,
+          ...(overMax && {
+            'journey.step_max_duration_ms': maxDuration,
+            'journey.step_over_max': true
+          })
         },
-        severity: 'info'
+        businessContext,
+        severity: overMax ? 'warn' : 'info'
+      })
+
+      tracker?.recordStep({
+        domain: this.domain.name,
+        journey: journeyName,
+        step: stepName,
+        stepNumber: stepInfo.stepNumber,
+        totalSteps: stepInfo.totalSteps,
+        lastRequiredStep: stepInfo.lastRequiredStep,
+        nextStep: this.journeys.getSteps(journeyName)[stepInfo.stepNumber]?.name,
+        businessImpact: businessContext.businessImpact,
+        maxDuration: stepInfo.journey?.maxDuration
       })
 
       return {
@@ -282,6 +458,25 @@ export class DomainInstrumentor implements IDomainInstrumentor {
         user_segment: this.userContext.userSegment
       })
 
+      // Emit error event so failed steps reach the exporters like failed API calls
+      this.emitTelemetryEvent({
+        eventType: 'error',
+        name: `${spanName}_error`,
+        attributes: {
+          ...attributes,
+          'journey.step_duration_ms': duration,
+          'error.type': error.name,
+          'error.message': error.message,
+          'error.stack': error.stack
+        },
+        businessContext,
+        severity: 'error'
+      })
+
+      if (options.rethrow) {
+        throw error
+      }
+
       return {
         success: false,
         duration,
@@ -292,6 +487,9 @@ export class DomainInstrumentor implements IDomainInstrumentor {
       }
 
     } finally {
+      if (this.activeJourneySteps.get(stepKey) === stepContext) {
+        this.activeJourneySteps.delete(stepKey)
+      }
       span.end()
     }
   }
@@ -376,23 +574,55 @@ export class DomainInstrumentor implements IDomainInstrumentor {
   }
 
   // Helper methods
-  private async executeApiCall(endpoint: string, method: string) {
-    // Simulate realistic API behavior based on domain priority
-    const baseLatency = this.domain.priority === 'critical' ? 100 : 200
-    const jitter = Math.random() * 300
-    const duration = baseLatency + jitter
+  private resolveFetch(): typeof fetch {
+    // Resolved per call so a fetch polyfilled after setup is still used
+    const fetchImpl = this.options.fetch ?? getNativeFetch()
+    if (typeof fetchImpl !== 'function') {
+      throw new Error('No fetch implementation available, pass one via the fetch option')
+    }
+    return fetchImpl
+  }
 
-    await new Promise(resolve => setTimeout(resolve, duration))
+  // Steps of one journey in one session share a trace, so Jaeger shows the journey end to end
+  private createJourneyStepContext(span: Span, journeyName: string): TraceContext {
+    const spanContext = getTraceContext(span)
+    const sessionId = this.userContext.sessionId
+    return sessionId ? { ...spanContext, traceId: getJourneyTraceId(sessionId, this.domain.name, journeyName) } : spanContext
+  }
 
-    // Simulate errors based on domain error threshold
-    if (Math.random() < this.domain.errorThreshold) {
-      throw new Error(`API call failed: ${endpoint}`)
+  private async executeApiCall(
+    endpoint: string,
+    method: string,
+    context: ApiCallContext,
+    traceHeaders: Record<string, string>
+  ): Promise<ApiResponse> {
+    const fetchImpl = this.resolveFetch()
+
+    const headers: Record<string, string> = { ...traceHeaders, ...context.headers }
+    let body = context.body
+    if (body !== undefined && body !== null && !isRawBody(body)) {
+      body = JSON.stringify(body)
+      if (!Object.keys(headers).some(key => key.toLowerCase() === 'content-type')) {
+        headers['Content-Type'] = 'application/json'
+      }
     }
 
+    const response = await fetchImpl(endpoint, {
+      ...context.requestInit,
+      method,
+      headers,
+      body: body as BodyInit | null | undefined
+    })
+
+    const text = await response.text()
+    const contentType = response.headers.get('content-type') || ''
+    const asJson = context.responseType ? context.responseType === 'json' : contentType.includes('json')
+
     return {
-      status: 200,
-      success: true,
-      data: { message: 'Success' }
+      status: response.status,
+      ok: response.status >= 200 && response.status < 300,
+      data: asJson ? parseJson(text) : text,
+      size: getByteLength(text)
     }
   }
 
@@ -419,16 +649,6 @@ export class DomainInstrumentor implements IDomainInstrumentor {
     return impactMap[apiName] || 'performance'
   }
 
-  private getJourneyBusinessImpact(journeyName: string): BusinessContext['businessImpact'] {
-    const impactMap: Record<string, BusinessContext['businessImpact']> = {
-      'user_login_flow': 'engagement',
-      'purchase_flow': 'revenue',
-      'product_discovery': 'engagement'
-    }
-
-    return impactMap[journeyName] || 'engagement'
-  }
-
   private getMetricBusinessImpact(metricName: string): BusinessContext['businessImpact'] {
     if (metricName.includes('revenue') || metricName.includes('purchase')) return 'revenue'
     if (metricName.includes('login') || metricName.includes('engagement')) return 'engagement'
@@ -444,18 +664,6 @@ export class DomainInstrumentor implements IDomainInstrumentor {
     return 'low'
   }
 
-  private getStepNumber(journeyName: string, stepName: string): number {
-    // This would be configurable in a real implementation
-    const journeySteps: Record<string, string[]> = {
-      'user_login_flow': ['load_login_page', 'enter_credentials', 'submit_login', 'redirect_dashboard'],
-      'purchase_flow': ['add_to_cart', 'view_cart', 'enter_shipping', 'select_payment', 'complete_purchase'],
-      'product_discovery': ['search_query', 'view_results', 'filter_results', 'select_product']
-    }
-
-    const steps = journeySteps[journeyName] || []
-    return steps.indexOf(stepName) + 1
-  }
-
   private emitTelemetryEvent(eventData: Partial<TelemetryEvent>): void {
     if (this.onEvent) {
       const event: TelemetryEvent = {
@@ -464,12 +672,16 @@ export class DomainInstrumentor implements IDomainInstrumentor {
         domain: this.domain.name,
         eventType: 'span',
         name: '',
-        attributes: {},
         businessContext: {
           domain: this.domain.name,
           businessImpact: 'performance'
         },
-        ...eventData
+        ...eventData,
+        // Exporters label and tag every domain event by priority, not just API spans
+        attributes: {
+          'domain.priority': this.domain.priority,
+          ...eventData.attributes
+        }
       }
       
       this.onEvent(event)
@@ -486,6 +698,7 @@ export class DomainInstrumentor implements IDomainInstrumentor {
       slaTarget: this.domain.slaTarget,
       errorThreshold: this.domain.errorThreshold,
       features: this.domain.features,
+      journeys: (this.domain.journeys || []).map(journey => journey.name),
       userContext: {
         segment: this.userContext.userSegment,
         authenticated: this.userContext.isAuthenticated,
@@ -493,4 +706,65 @@ export class DomainInstrumentor implements IDomainInstrumentor {
       }
     }
   }
+}
+
+export function getRequestUrl(input: RequestInfo | URL): string {
+  if (typeof input === 'string') return input
+  if (input instanceof URL) return input.href
+  return input.url
+}
+
+export function getRequestMethod(input: RequestInfo | URL, init: RequestInit = {}): string {
+  const method = init.method ?? (typeof input === 'object' && 'method' in input ? input.method : undefined)
+  return (method || 'GET').toUpperCase()
+}
+
+// Adds headers the caller has not set, keeping the request's own headers when init has none
+function withHeaders(input: RequestInfo | URL, init: RequestInit, extra: Record<string, string>): RequestInit {
+  if (Object.keys(extra).length === 0) return init
+
+  const source = init.headers ?? (typeof input === 'object' && !(input instanceof URL) ? input.headers : undefined)
+  const headers = toHeaderRecord(source)
+  const existing = Object.keys(headers).map(key => key.toLowerCase())
+
+  Object.entries(extra).forEach(([key, value]) => {
+    if (!existing.includes(key.toLowerCase())) headers[key] = value
+  })
+
+  return { ...init, headers }
+}
+
+function toHeaderRecord(headers?: HeadersInit): Record<string, string> {
+  const record: Record<string, string> = {}
+  if (!headers) return record
+
+  if (Array.isArray(headers)) {
+    headers.forEach(([key, value]) => { record[key] = value })
+  } else if (typeof (headers as Headers).forEach === 'function') {
+    (headers as Headers).forEach((value, key) => { record[key] = value })
+  } else {
+    Object.assign(record, headers)
+  }
+
+  return record
+}
+
+function isRawBody(body: unknown): body is BodyInit {
+  return typeof body === 'string' ||
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body) ||
+    (typeof Blob !== 'undefined' && body instanceof Blob) ||
+    (typeof FormData !== 'undefined' && body instanceof FormData) ||
+    (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams) ||
+    (typeof ReadableStream !== 'undefined' && body instanceof ReadableStream)
+}
+
+function parseJson(text: string): any {
+  if (!text) return undefined
+  try {
+    return JSON.parse(text)
+  } catch {
+    // Mislabelled responses are returned as-is
+    return text
+  }
 }
\ No newline at end of file
@@ -0,0 +1,226 @@
+/**
+ * Resolves request URLs to business domains using configurable URL rules
+ *
+ * Precedence:
+ * 1. `urlRules` from the config, in the order given
+ * 2. `urlMatchers` declared on domains, most specific first
+ * 3. Built-in rules, only when neither of the above is configured
+ */
+
+import type { DomainConfig, UrlRule } from '../types'
+
+export type UrlRuleSource = 'urlRules' | 'domain' | 'default'
+
+export interface DomainMatch {
+  domain: DomainConfig
+  feature?: string
+  rule: UrlRule
+  source: UrlRuleSource
+}
+
+export interface UrlRuleEvaluation {
+  source: UrlRuleSource
+  rule: UrlRule
+  matched: boolean
+  // Why the rule was skipped
+  reason?: string
+}
+
+export interface DomainExplanation {
+  url: string
+  method?: string
+  match: DomainMatch | null
+  // Every rule in precedence order
+  rules: UrlRuleEvaluation[]
+}
+
+// Used when no rules or matchers are configured; matches the paths of the default domain configs
+export const DEFAULT_URL_RULES: UrlRule[] = [
+  { match: '/auth/', domain: 'authentication' },
+  { match: '/login', domain: 'authentication' },
+  { match: '/register', domain: 'authentication' },
+  { match: '/cart', domain: 'ecommerce' },
+  { match: '/checkout', domain: 'ecommerce' },
+  { match: '/payment', domain: 'ecommerce' },
+  { match: '/search', domain: 'content' },
+  { match: '/products', domain: 'content' },
+  { match: '/content', domain: 'content' }
+]
+
+interface CompiledRule {
+  source: UrlRuleSource
+  rule: UrlRule
+  pathPattern?: RegExp
+  specificity: number
+}
+
+interface ParsedUrl {
+  href: string
+  host: string
+  path: string
+}
+
+export class DomainResolver {
+  private rules: CompiledRule[]
+
+  constructor(private domains: DomainConfig[], urlRules?: UrlRule[]) {
+    const domainRules = domains
+      .flatMap(domain => (domain.urlMatchers || []).map(matcher => compileRule({ ...matcher, domain: domain.name }, 'domain')))
+      // Stable sort keeps declaration order for equally specific matchers
+      .sort((a, b) => b.specificity - a.specificity)
+
+    const configuredRules = (urlRules || []).map(rule => compileRule(rule, 'urlRules'))
+
+    this.rules = configuredRules.length === 0 && domainRules.length === 0
+      ? DEFAULT_URL_RULES.map(rule => compileRule(rule, 'default'))
+      : [...configuredRules, ...domainRules]
+  }
+
+  /**
+   * First rule by precedence that matches the URL and names a configured domain
+   */
+  resolve(url: string, method?: string): DomainMatch | null {
+    const parsed = parseUrl(url)
+
+    for (const compiled of this.rules) {
+      const match = this.evaluate(compiled, parsed, method)
+      if (typeof match !== 'string') return match
+    }
+
+    return null
+  }
+
+  /**
+   * Debug helper: which rule attributed the URL to a domain, and why the others did not
+   */
+  explain(url: string, method?: string): DomainExplanation {
+    const parsed = parseUrl(url)
+    let match: DomainMatch | null = null
+
+    const rules = this.rules.map(compiled => {
+      const result = this.evaluate(compiled, parsed, method)
+      const evaluation: UrlRuleEvaluation = { source: compiled.source, rule: compiled.rule, matched: false }
+
+      if (typeof result === 'string') {
+        evaluation.reason = result
+      } else if (match) {
+        evaluation.reason = 'an earlier rule matched'
+      } else {
+        evaluation.matched = true
+        match = result
+      }
+
+      return evaluation
+    })
+
+    return { url, method, match, rules }
+  }
+
+  // Returns the match, or the reason the rule does not apply
+  private evaluate(compiled: CompiledRule, url: ParsedUrl, method?: string): DomainMatch | string {
+    const { rule } = compiled
+
+    if (rule.match !== undefined && !testPattern(rule.match, url.href)) {
+      return typeof rule.match === 'string' ? `URL does not contain ${rule.match}` : `URL does not match ${rule.match}`
+    }
+    if (rule.pattern && !testPattern(rule.pattern, url.href)) {
+      return `URL does not match ${rule.pattern}`
+    }
+    if (rule.host && !matchesHost(rule.host, url.host)) {
+      return `host ${url.host} does not match ${rule.host}`
+    }
+    if (compiled.pathPattern && !compiled.pathPattern.test(url.path)) {
+      return `path ${url.path} does not match ${rule.path}`
+    }
+    if (rule.methods) {
+      if (!method) return 'request method unknown'
+      if (!rule.methods.some(allowed => allowed.toUpperCase() === method.toUpperCase())) {
+        return `method ${method.toUpperCase()} not in ${rule.methods.join(', ')}`
+      }
+    }
+
+    const domain = this.domains.find(d => d.name === rule.domain)
+    if (!domain) {
+      return `domain ${rule.domain} is not configured`
+    }
+
+    return {
+      domain,
+      feature: rule.feature ?? inferFeature(domain, url.path),
+      rule,
+      source: compiled.source
+    }
+  }
+}
+
+function compileRule(rule: UrlRule, source: UrlRuleSource): CompiledRule {
+  return {
+    source,
+    rule,
+    pathPattern: rule.path ? globToRegExp(rule.path) : undefined,
+    specificity: getSpecificity(rule)
+  }
+}
+
+// More criteria beat fewer; between path globs, more literal characters win
+function getSpecificity(matcher: UrlRule): number {
+  const criteria = [matcher.match, matcher.pattern, matcher.host, matcher.path, matcher.methods]
+    .filter(criterion => criterion !== undefined).length
+  const literalPath = matcher.path ? matcher.path.replace(/\*/g, '').length : 0
+  return criteria * 1000 + literalPath
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = ''
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === '*' && glob[i + 1] === '*') {
+      // '/**' also matches the parent path itself
+      if (source.endsWith('/') && (i + 2 === glob.length || glob[i + 2] === '/')) {
+        source = source.slice(0, -1) + '(?:/.*)?'
+      } else {
+        source += '.*'
+      }
+      i++
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
+
+function testPattern(pattern: string | RegExp, url: string): boolean {
+  if (typeof pattern === 'string') {
+    return url.includes(pattern)
+  }
+
+  pattern.lastIndex = 0
+  return pattern.test(url)
+}
+
+function matchesHost(pattern: string, host: string): boolean {
+  if (pattern.startsWith('*.')) {
+    return host.endsWith(pattern.slice(1).toLowerCase())
+  }
+  return host === pattern.toLowerCase()
+}
+
+function parseUrl(url: string): ParsedUrl {
+  try {
+    // Relative URLs are resolved against the current page
+    const base = typeof location !== 'undefined' && location.href ? location.href : 'http://localhost'
+    const parsed = new URL(url, base)
+    return { href: url, host: parsed.hostname, path: parsed.pathname }
+  } catch {
+    return { href: url, host: '', path: url.split(/[?#]/)[0] }
+  }
+}
+
+function inferFeature(domain: DomainConfig, path: string): string | undefined {
+  const segments = path.split('/')
+  return domain.features.find(feature => segments.includes(feature))
+}
\ No newline at end of file
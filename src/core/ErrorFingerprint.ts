@@ -0,0 +1,162 @@
+/**
+ * Error fingerprinting and deduplication
+ * A fingerprint identifies "the same error" across occurrences: the error type, the message
+ * without IDs and numbers, and the top stack frames without line/column numbers or build hashes
+ */
+
+import type { ErrorDeduplicationConfig, TelemetryEvent } from '../types'
+
+const DEFAULT_WINDOW = 10 * 1000
+
+// Deeper frames depend on the caller (event loop, framework internals) more than on the error
+const MAX_FRAMES = 5
+
+// Chrome "    at fn (url:1:2)" and Firefox/Safari "fn@url:1:2"
+const STACK_FRAME = /^\s*at\s|^[^\s(]*@\S/
+
+interface DuplicateGroup {
+  fingerprint: string
+  timer: ReturnType<typeof setTimeout>
+  // The first occurrence, already sent, and the latest repeat
+  first: TelemetryEvent
+  latest: TelemetryEvent
+  // All occurrences in the window, the first one included
+  occurrences: number
+  firstSeen: number
+  lastSeen: number
+}
+
+/**
+ * Strip the parts of a message that differ between occurrences of the same error
+ */
+export function normalizeMessage(message: string): string {
+  return message
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>')
+    .replace(/\b0x[0-9a-f]+\b/gi, '<hex>')
+    .replace(/\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{8,}\b/gi, '<id>')
+    .replace(/\d+(?:\.\d+)?/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Top stack frames without line/column numbers, query strings or content hashes in file names
+ */
+export function normalizeStack(stack?: string): string[] {
+  if (!stack) return []
+
+  return stack.split('\n')
+    .filter(line => STACK_FRAME.test(line))
+    .slice(0, MAX_FRAMES)
+    .map(frame => frame
+      .trim()
+      .replace(/^at\s+/, '')
+      .replace(/\?[^\s):]*/, '')
+      .replace(/:\d+(?::\d+)?(\)?)$/, '$1')
+      .replace(/[.-](?=[A-Za-z0-9_]*\d)[A-Za-z0-9_]{6,}(?=\.(?:m?js|cjs|css)\b)/g, ''))
+}
+
+export function fingerprintError(type: string, message: string, stack?: string): string {
+  return hash([type, normalizeMessage(message), ...normalizeStack(stack)].join('\n'))
+}
+
+/**
+ * Fingerprint of an error event, from its error.type, error.message and error.stack attributes
+ */
+export function getErrorFingerprint(event: TelemetryEvent): string {
+  const { attributes } = event
+  if (attributes['error.fingerprint']) return String(attributes['error.fingerprint'])
+
+  return fingerprintError(
+    String(attributes['error.type'] || 'Error'),
+    String(attributes['error.message'] || ''),
+    attributes['error.stack'] ? String(attributes['error.stack']) : undefined
+  )
+}
+
+export class ErrorDeduplicator {
+  private groups: Map<string, DuplicateGroup> = new Map()
+
+  constructor(
+    private config: ErrorDeduplicationConfig = {},
+    private listener: (event: TelemetryEvent) => void
+  ) {}
+
+  /**
+   * Send the first occurrence right away; repeats within the window go out as one summary
+   * with the window's totals
+   */
+  add(event: TelemetryEvent): void {
+    const now = Date.now()
+    const fingerprint = getErrorFingerprint(event)
+    const key = `${event.domain}|${event.name}|${fingerprint}`
+    const group = this.groups.get(key)
+
+    if (group) {
+      group.occurrences++
+      group.lastSeen = now
+      group.latest = event
+      return
+    }
+
+    this.groups.set(key, {
+      fingerprint,
+      timer: setTimeout(() => this.release(key), this.config.window ?? DEFAULT_WINDOW),
+      first: event,
+      latest: event,
+      occurrences: 1,
+      firstSeen: now,
+      lastSeen: now
+    })
+
+    Object.assign(event.attributes, {
+      'error.fingerprint': fingerprint,
+      'error.occurrences': 1,
+      'error.first_seen': new Date(now).toISOString(),
+      'error.last_seen': new Date(now).toISOString()
+    })
+    this.listener(event)
+  }
+
+  /**
+   * Send pending repeats now, e.g. before the page unloads
+   */
+  flush(): void {
+    Array.from(this.groups.keys()).forEach(key => this.release(key))
+  }
+
+  private release(key: string): void {
+    const group = this.groups.get(key)
+    if (!group) return
+
+    clearTimeout(group.timer)
+    this.groups.delete(key)
+    if (group.occurrences === 1) return
+
+    // The first occurrence carried the stack; the summary points back to it and only adds the totals
+    const { 'error.stack': _stack, ...attributes } = group.latest.attributes
+    this.listener({
+      ...group.latest,
+      timestamp: new Date(group.lastSeen).toISOString(),
+      attributes: {
+        ...attributes,
+        'error.fingerprint': group.fingerprint,
+        'error.summary': true,
+        'error.first_event_id': group.first.id,
+        'error.occurrences': group.occurrences,
+        'error.first_seen': new Date(group.firstSeen).toISOString(),
+        'error.last_seen': new Date(group.lastSeen).toISOString()
+      }
+    })
+  }
+}
+
+// 32-bit FNV-1a, as 8 hex characters
+function hash(value: string): string {
+  let result = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i)
+    result = Math.imul(result, 0x01000193)
+  }
+  return (result >>> 0).toString(16).padStart(8, '0')
+}
\ No newline at end of file
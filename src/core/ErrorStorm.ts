@@ -0,0 +1,170 @@
+/**
+ * Error-storm suppression
+ * Tracks each error's rate in a sliding window per domain and fingerprint. Past the threshold
+ * only the first few occurrences are sent; the rest are counted and reported as periodic
+ * `error.storm` summaries until the rate drops back under the threshold
+ */
+
+import type { ErrorStormConfig, TelemetryEvent } from '../types'
+import { getErrorFingerprint } from './ErrorFingerprint'
+
+const DEFAULT_WINDOW = 60 * 1000
+const DEFAULT_SAMPLE_SIZE = 5
+const DEFAULT_SUMMARY_INTERVAL = 30 * 1000
+
+export interface ErrorStormSummary {
+  domain: string
+  fingerprint: string
+  errorType: string
+  message: string
+  // 'ended' is the last summary, sent once the rate recovered
+  status: 'ongoing' | 'ended'
+  // Occurrences dropped since the previous summary
+  suppressed: number
+  // All occurrences since the storm started, sent or not
+  occurrences: number
+  ratePerMinute: number
+  startedAt: number
+  durationMs: number
+}
+
+interface Storm {
+  startedAt: number
+  occurrences: number
+  sampled: number
+  suppressed: number
+}
+
+interface ErrorSeries {
+  domain: string
+  fingerprint: string
+  errorType: string
+  message: string
+  timestamps: number[]
+  storm?: Storm
+}
+
+export class ErrorStormGuard {
+  private series: Map<string, ErrorSeries> = new Map()
+  private summaryTimer?: ReturnType<typeof setInterval>
+
+  constructor(
+    // Errors per minute per domain and fingerprint; 0 or unset turns suppression off
+    private threshold: number | undefined,
+    private config: ErrorStormConfig = {},
+    private listener?: (summary: ErrorStormSummary) => void
+  ) {}
+
+  /**
+   * Whether an event should be sent; errors past the threshold are counted instead
+   */
+  shouldReport(event: TelemetryEvent): boolean {
+    if (event.eventType !== 'error' || !this.threshold || this.threshold <= 0) return true
+
+    const now = Date.now()
+    this.prune(now)
+
+    const errorType = String(event.attributes['error.type'] || 'Error')
+    const message = String(event.attributes['error.message'] || '')
+    const fingerprint = getErrorFingerprint(event)
+    const key = `${event.domain}|${fingerprint}`
+    const series = this.series.get(key) || { domain: event.domain, fingerprint, errorType, message, timestamps: [] }
+    this.series.set(key, series)
+    series.timestamps.push(now)
+
+    if (!series.storm) {
+      if (series.timestamps.length <= this.getLimit()) return true
+
+      series.storm = { startedAt: now, occurrences: 0, sampled: 0, suppressed: 0 }
+      this.startTimer()
+    }
+
+    const storm = series.storm
+    storm.occurrences++
+
+    if (storm.sampled < (this.config.sampleSize ?? DEFAULT_SAMPLE_SIZE)) {
+      storm.sampled++
+      event.attributes['error.storm.sampled'] = true
+      return true
+    }
+
+    storm.suppressed++
+    return false
+  }
+
+  /**
+   * Report what was suppressed so far, e.g. before the page unloads
+   */
+  flush(): void {
+    this.summarize(Date.now(), false)
+  }
+
+  stop(): void {
+    if (this.summaryTimer) {
+      clearInterval(this.summaryTimer)
+      this.summaryTimer = undefined
+    }
+  }
+
+  getActiveStorms(): { domain: string, fingerprint: string, occurrences: number, startedAt: number }[] {
+    return Array.from(this.series.values())
+      .filter(series => series.storm)
+      .map(({ domain, fingerprint, storm }) => ({ domain, fingerprint, occurrences: storm!.occurrences, startedAt: storm!.startedAt }))
+  }
+
+  private startTimer(): void {
+    if (this.summaryTimer) return
+
+    this.summaryTimer = setInterval(() => this.summarize(Date.now(), true), this.config.summaryInterval ?? DEFAULT_SUMMARY_INTERVAL)
+  }
+
+  private summarize(now: number, checkRecovery: boolean): void {
+    this.series.forEach(series => {
+      const storm = series.storm
+      if (!storm) return
+
+      this.pruneSeries(series, now)
+      const recovered = checkRecovery && series.timestamps.length <= this.getLimit()
+      if (storm.suppressed === 0 && !recovered) return
+
+      this.listener?.({
+        domain: series.domain,
+        fingerprint: series.fingerprint,
+        errorType: series.errorType,
+        message: series.message,
+        status: recovered ? 'ended' : 'ongoing',
+        suppressed: storm.suppressed,
+        occurrences: storm.occurrences,
+        ratePerMinute: Math.round(series.timestamps.length / this.getWindow() * 60000 * 100) / 100,
+        startedAt: storm.startedAt,
+        durationMs: now - storm.startedAt
+      })
+
+      storm.suppressed = 0
+      if (recovered) series.storm = undefined
+    })
+
+    if (this.getActiveStorms().length === 0) this.stop()
+  }
+
+  private prune(now: number): void {
+    this.series.forEach((series, key) => {
+      this.pruneSeries(series, now)
+      if (series.timestamps.length === 0 && !series.storm) this.series.delete(key)
+    })
+  }
+
+  private pruneSeries(series: ErrorSeries, now: number): void {
+    const window = this.getWindow()
+    series.timestamps = series.timestamps.filter(timestamp => now - timestamp < window)
+  }
+
+  private getWindow(): number {
+    return this.config.window ?? DEFAULT_WINDOW
+  }
+
+  // Occurrences allowed within the window before a storm starts
+  private getLimit(): number {
+    return (this.threshold || 0) * this.getWindow() / 60000
+  }
+}
\ No newline at end of file
@@ -0,0 +1,77 @@
+/**
+ * Routes telemetry events to the exporters whose routing rules match them
+ * Lets errors, business metrics and traces go to different backends at the same time
+ */
+
+import type { TelemetryEvent, ExporterPlugin, ExporterRouting } from '../types'
+
+interface ExporterRoute {
+  exporter: ExporterPlugin
+  routing?: ExporterRouting
+}
+
+export class EventRouter {
+  private routes: ExporterRoute[] = []
+
+  /**
+   * Register an exporter with optional routing rules (no rules = receives every event)
+   */
+  addRoute(exporter: ExporterPlugin, routing?: ExporterRouting): void {
+    this.routes.push({ exporter, routing })
+  }
+
+  /**
+   * Get the exporters that should receive an event
+   */
+  route(event: TelemetryEvent): ExporterPlugin[] {
+    return this.routes
+      .filter(route => EventRouter.matches(event, route.routing))
+      .map(route => route.exporter)
+  }
+
+  /**
+   * Check an event against routing rules - every configured rule must match
+   */
+  static matches(event: TelemetryEvent, routing?: ExporterRouting): boolean {
+    if (!routing) return true
+
+    if (routing.eventTypes && !routing.eventTypes.includes(event.eventType)) {
+      return false
+    }
+
+    if (routing.domains && !routing.domains.includes(event.domain)) {
+      return false
+    }
+
+    if (routing.severities && !routing.severities.includes(event.severity || 'info')) {
+      return false
+    }
+
+    if (routing.businessImpacts && !routing.businessImpacts.includes(event.businessContext.businessImpact)) {
+      return false
+    }
+
+    if (routing.filter && !routing.filter(event)) {
+      return false
+    }
+
+    return true
+  }
+
+  /**
+   * Remove all routes for an exporter name, returning the removed exporters
+   */
+  removeRoutes(name: string): ExporterPlugin[] {
+    const removed = this.routes.filter(route => route.exporter.name === name)
+    this.routes = this.routes.filter(route => route.exporter.name !== name)
+    return removed.map(route => route.exporter)
+  }
+
+  getExporters(): ExporterPlugin[] {
+    return this.routes.map(route => route.exporter)
+  }
+
+  clear(): void {
+    this.routes = []
+  }
+}
\ No newline at end of file
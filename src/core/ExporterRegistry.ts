@@ -0,0 +1,53 @@
+/**
+ * Registry of exporter factories keyed by platform name
+ * Lets custom ExporterPlugin implementations plug in exactly like the built-in exporters
+ */
+
+import type { ExporterPlugin, ExporterFactory, PlatformConfig } from '../types'
+
+export class ExporterRegistry {
+  private factories: Map<string, ExporterFactory> = new Map()
+
+  /**
+   * Register a factory for a platform name (replaces any existing factory)
+   */
+  register(platform: string, factory: ExporterFactory): void {
+    this.factories.set(platform, factory)
+  }
+
+  unregister(platform: string): boolean {
+    return this.factories.delete(platform)
+  }
+
+  has(platform: string): boolean {
+    return this.factories.has(platform)
+  }
+
+  /**
+   * Create and configure an exporter for a platform config
+   */
+  create(config: PlatformConfig): ExporterPlugin {
+    const factory = this.factories.get(config.platform)
+    if (!factory) {
+      throw new Error(`No exporter registered for platform: ${config.platform}. Registered platforms: ${this.getPlatforms().join(', ')}`)
+    }
+
+    const exporter = factory(config)
+    exporter.configure(config)
+    return exporter
+  }
+
+  getPlatforms(): string[] {
+    return Array.from(this.factories.keys())
+  }
+}
+
+// Shared registry used by ObservMetrics instances
+export const exporterRegistry = new ExporterRegistry()
+
+/**
+ * Register a custom exporter factory for use in PlatformConfig.platform
+ */
+export function registerExporter(platform: string, factory: ExporterFactory): void {
+  exporterRegistry.register(platform, factory)
+}
\ No newline at end of file
@@ -0,0 +1,132 @@
+/**
+ * Opt-in global error capture: uncaught errors, unhandled promise rejections,
+ * failed resource loads and CSP violations
+ */
+
+import type { ErrorCaptureConfig } from '../types'
+
+export type CapturedErrorSource = 'error' | 'unhandledrejection' | 'resource' | 'csp'
+
+export interface CapturedError {
+  source: CapturedErrorSource
+  error: Error
+  // Script that threw, resource that failed or URI that was blocked
+  filename?: string
+  line?: number
+  column?: number
+  // Tag name of the element whose resource failed to load
+  element?: string
+  // CSP directive that was violated
+  directive?: string
+}
+
+// Matches the URL of a stack frame: "at fn (https://x/app.js:1:2)" or "fn@https://x/app.js:1:2"
+const STACK_FRAME_URL = /((?:https?|file|chrome-extension|moz-extension|safari-(?:web-)?extension):\/\/[^\s)]+?):\d+(?::\d+)?(?=\)|\s|$)/g
+
+export class GlobalErrorHandler {
+  private isListening = false
+
+  private onError = (event: Event) => {
+    const target = event.target as Element | null
+
+    // Resource failures don't bubble, so they only reach the capture-phase listener on window
+    if (target && target !== (window as any) && typeof target.tagName === 'string') {
+      if (this.config.resources !== false) this.captureResource(target)
+      return
+    }
+
+    const errorEvent = event as ErrorEvent
+    this.onCapture({
+      source: 'error',
+      error: toError(errorEvent.error ?? errorEvent.message, errorEvent.message),
+      filename: errorEvent.filename || undefined,
+      line: errorEvent.lineno || undefined,
+      column: errorEvent.colno || undefined
+    })
+  }
+
+  private onRejection = (event: PromiseRejectionEvent) => {
+    this.onCapture({
+      source: 'unhandledrejection',
+      error: toError(event.reason, 'Unhandled promise rejection')
+    })
+  }
+
+  private onSecurityPolicyViolation = (event: SecurityPolicyViolationEvent) => {
+    const directive = event.effectiveDirective || event.violatedDirective
+
+    this.onCapture({
+      source: 'csp',
+      error: {
+        name: 'CSPViolation',
+        message: `Refused to load ${event.blockedURI || 'inline content'} (${directive})`
+      },
+      filename: event.blockedURI || undefined,
+      line: event.lineNumber || undefined,
+      column: event.columnNumber || undefined,
+      directive
+    })
+  }
+
+  constructor(private config: ErrorCaptureConfig = {}, private onCapture: (captured: CapturedError) => void) {}
+
+  start(): void {
+    if (this.isListening || typeof window === 'undefined') return
+
+    window.addEventListener('error', this.onError, true)
+    if (this.config.unhandledRejections !== false) {
+      window.addEventListener('unhandledrejection', this.onRejection)
+    }
+    if (this.config.csp !== false && typeof document !== 'undefined') {
+      document.addEventListener('securitypolicyviolation', this.onSecurityPolicyViolation)
+    }
+    this.isListening = true
+  }
+
+  stop(): void {
+    if (!this.isListening) return
+
+    window.removeEventListener('error', this.onError, true)
+    window.removeEventListener('unhandledrejection', this.onRejection)
+    document.removeEventListener('securitypolicyviolation', this.onSecurityPolicyViolation)
+    this.isListening = false
+  }
+
+  private captureResource(element: Element): void {
+    const url = (element as HTMLImageElement).currentSrc || element.getAttribute('src') || element.getAttribute('href') || ''
+    const tag = element.tagName.toLowerCase()
+
+    this.onCapture({
+      source: 'resource',
+      error: { name: 'ResourceError', message: `Failed to load ${tag} ${url}`.trim() },
+      filename: url || undefined,
+      element: tag
+    })
+  }
+}
+
+/**
+ * URLs of the scripts in a stack trace, innermost frame first
+ */
+export function getStackUrls(stack?: string): string[] {
+  if (!stack) return []
+  return Array.from(stack.matchAll(STACK_FRAME_URL), match => match[1])
+}
+
+function toError(value: unknown, fallbackMessage: string): Error {
+  if (value instanceof Error) return value
+
+  // Thrown strings and objects have no stack; don't invent one from this handler
+  const message = typeof value === 'string' ? value : stringify(value) || fallbackMessage
+  return { name: 'Error', message }
+}
+
+function stringify(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined
+
+  try {
+    return typeof value === 'object' ? JSON.stringify(value) : String(value)
+  } catch {
+    return String(value)
+  }
+}
\ No newline at end of file
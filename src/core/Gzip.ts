@@ -0,0 +1,246 @@
+/**
+ * Gzip compression for exporter request bodies
+ * Uses the native CompressionStream when available, otherwise a small pure-JS deflate
+ * (LZ77 with fixed Huffman codes) - less compact than zlib, but JSON still shrinks several times
+ */
+
+const WINDOW_SIZE = 32768
+const WINDOW_MASK = WINDOW_SIZE - 1
+const HASH_SIZE = 1 << 15
+const MIN_MATCH = 3
+const MAX_MATCH = 258
+const MAX_CHAIN = 32
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258]
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0]
+const DISTANCE_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577]
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13]
+
+let crcTable: Uint32Array | undefined
+
+/**
+ * Gzip a string, preferring the browser's native implementation
+ */
+export async function gzip(value: string): Promise<Uint8Array> {
+  const NativeCompressionStream = (globalThis as any).CompressionStream
+  if (NativeCompressionStream && typeof Response !== 'undefined' && typeof Blob !== 'undefined') {
+    try {
+      const stream = new Blob([value]).stream().pipeThrough(new NativeCompressionStream('gzip'))
+      return new Uint8Array(await new Response(stream).arrayBuffer())
+    } catch {
+      // Fall through to the pure-JS implementation
+    }
+  }
+  return gzipSync(value)
+}
+
+/**
+ * Pure-JS gzip (RFC 1952 wrapper around a single fixed-Huffman deflate block)
+ */
+export function gzipSync(value: string): Uint8Array {
+  const data = encodeUtf8(value)
+  const compressed = deflate(data)
+  const crc = crc32(data)
+
+  const output = new Uint8Array(10 + compressed.length + 8)
+  // Magic, CM=deflate, no flags, no mtime, no extra flags, OS=unknown
+  output.set([0x1f, 0x8b, 8, 0, 0, 0, 0, 0, 0, 0xff])
+  output.set(compressed, 10)
+  writeUint32LE(output, 10 + compressed.length, crc)
+  writeUint32LE(output, 14 + compressed.length, data.length)
+  return output
+}
+
+export function encodeUtf8(value: string): Uint8Array {
+  if (typeof TextEncoder !== 'undefined') {
+    return new TextEncoder().encode(value)
+  }
+
+  const bytes: number[] = []
+  for (let i = 0; i < value.length; i++) {
+    let code = value.charCodeAt(i)
+    if (code >= 0xd800 && code <= 0xdbff && i + 1 < value.length) {
+      code = 0x10000 + ((code - 0xd800) << 10) + (value.charCodeAt(++i) - 0xdc00)
+    }
+
+    if (code < 0x80) {
+      bytes.push(code)
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f))
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f))
+    } else {
+      bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f))
+    }
+  }
+  return new Uint8Array(bytes)
+}
+
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c >>> 0
+    }
+  }
+
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function deflate(data: Uint8Array): Uint8Array {
+  const writer = new BitWriter(data.length)
+  const head = new Int32Array(HASH_SIZE).fill(-1)
+  const prev = new Int32Array(WINDOW_SIZE).fill(-1)
+
+  const insert = (position: number) => {
+    const hash = hashAt(data, position)
+    prev[position & WINDOW_MASK] = head[hash]
+    head[hash] = position
+  }
+
+  // Single final block with fixed Huffman codes (BFINAL=1, BTYPE=01)
+  writer.writeBits(1, 1)
+  writer.writeBits(1, 2)
+
+  let position = 0
+  while (position < data.length) {
+    let bestLength = 0
+    let bestDistance = 0
+
+    if (position + MIN_MATCH <= data.length) {
+      const maxLength = Math.min(MAX_MATCH, data.length - position)
+      let candidate = head[hashAt(data, position)]
+      let chain = MAX_CHAIN
+
+      while (candidate >= 0 && position - candidate <= WINDOW_SIZE && chain-- > 0) {
+        let length = 0
+        while (length < maxLength && data[candidate + length] === data[position + length]) {
+          length++
+        }
+        if (length > bestLength) {
+          bestLength = length
+          bestDistance = position - candidate
+          if (length === maxLength) break
+        }
+        candidate = prev[candidate & WINDOW_MASK]
+      }
+
+      insert(position)
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      writeLength(writer, bestLength)
+      writeDistance(writer, bestDistance)
+      for (let next = position + 1; next < position + bestLength && next + MIN_MATCH <= data.length; next++) {
+        insert(next)
+      }
+      position += bestLength
+    } else {
+      writeSymbol(writer, data[position])
+      position++
+    }
+  }
+
+  writeSymbol(writer, 256) // end of block
+  return writer.finish()
+}
+
+function hashAt(data: Uint8Array, position: number): number {
+  return ((data[position] << 10) ^ (data[position + 1] << 5) ^ data[position + 2]) & (HASH_SIZE - 1)
+}
+
+function writeSymbol(writer: BitWriter, symbol: number): void {
+  if (symbol < 144) {
+    writer.writeCode(0x30 + symbol, 8)
+  } else if (symbol < 256) {
+    writer.writeCode(0x190 + symbol - 144, 9)
+  } else if (symbol < 280) {
+    writer.writeCode(symbol - 256, 7)
+  } else {
+    writer.writeCode(0xc0 + symbol - 280, 8)
+  }
+}
+
+function writeLength(writer: BitWriter, length: number): void {
+  let index = LENGTH_BASE.length - 1
+  while (LENGTH_BASE[index] > length) index--
+
+  writeSymbol(writer, 257 + index)
+  writer.writeBits(length - LENGTH_BASE[index], LENGTH_EXTRA[index])
+}
+
+function writeDistance(writer: BitWriter, distance: number): void {
+  let index = DISTANCE_BASE.length - 1
+  while (DISTANCE_BASE[index] > distance) index--
+
+  writer.writeCode(index, 5)
+  writer.writeBits(distance - DISTANCE_BASE[index], DISTANCE_EXTRA[index])
+}
+
+function writeUint32LE(output: Uint8Array, offset: number, value: number): void {
+  output[offset] = value & 0xff
+  output[offset + 1] = (value >>> 8) & 0xff
+  output[offset + 2] = (value >>> 16) & 0xff
+  output[offset + 3] = (value >>> 24) & 0xff
+}
+
+class BitWriter {
+  private buffer: Uint8Array
+  private length = 0
+  private bitBuffer = 0
+  private bitCount = 0
+
+  constructor(sizeHint: number) {
+    this.buffer = new Uint8Array(Math.max(64, sizeHint))
+  }
+
+  /**
+   * Write a value least significant bit first (header fields and extra bits)
+   */
+  writeBits(value: number, count: number): void {
+    this.bitBuffer |= value << this.bitCount
+    this.bitCount += count
+    while (this.bitCount >= 8) {
+      this.pushByte(this.bitBuffer & 0xff)
+      this.bitBuffer >>>= 8
+      this.bitCount -= 8
+    }
+  }
+
+  /**
+   * Write a Huffman code most significant bit first
+   */
+  writeCode(code: number, count: number): void {
+    let reversed = 0
+    for (let i = 0; i < count; i++) {
+      reversed = (reversed << 1) | ((code >> i) & 1)
+    }
+    this.writeBits(reversed, count)
+  }
+
+  finish(): Uint8Array {
+    if (this.bitCount > 0) {
+      this.pushByte(this.bitBuffer & 0xff)
+      this.bitBuffer = 0
+      this.bitCount = 0
+    }
+    return this.buffer.slice(0, this.length)
+  }
+
+  private pushByte(byte: number): void {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2)
+      grown.set(this.buffer)
+      this.buffer = grown
+    }
+    this.buffer[this.length++] = byte
+  }
+}
\ No newline at end of file
@@ -0,0 +1,39 @@
+/**
+ * Drop-in fetch that routes each request through the instrumentor of its business domain
+ */
+
+import type { DomainInstrumentor } from '../types'
+import { getRequestUrl, getRequestMethod } from './DomainInstrumentor'
+import { getNativeFetch, registerWrappedFetch } from './NativeFetch'
+
+export interface ResolvedInstrumentor {
+  instrumentor: DomainInstrumentor
+  feature?: string
+}
+
+// Returns null for URLs that should not be instrumented
+export type InstrumentorResolver = (url: string, method: string) => ResolvedInstrumentor | null
+
+/**
+ * Wrap fetch so matching requests get spans, SLA checks and error events.
+ * Unmatched requests go straight to fetchImpl, which should be the fetch the instrumentors use.
+ * The fetch is captured here, so the wrapper can replace window.fetch without calling itself.
+ */
+export function wrapFetch(resolve: InstrumentorResolver, fetchImpl: typeof fetch | undefined = getNativeFetch()): typeof fetch {
+  const wrapped = (input: RequestInfo | URL, init?: RequestInit) => {
+    const target = resolve(getRequestUrl(input), getRequestMethod(input, init))
+    if (!target) {
+      // Looked up late only when no fetch existed at setup, e.g. a polyfill loaded afterwards
+      const nativeFetch = fetchImpl ?? getNativeFetch()
+      if (!nativeFetch) {
+        return Promise.reject(new Error('No fetch implementation available, pass one via the fetch option'))
+      }
+      return nativeFetch(input, init)
+    }
+
+    return target.instrumentor.instrumentFetch(target.feature || 'fetch', input, init)
+  }
+
+  registerWrappedFetch(wrapped, fetchImpl)
+  return wrapped
+}
\ No newline at end of file
@@ -0,0 +1,241 @@
+/**
+ * Behavioral bot detection
+ * Scores how human the interaction on the page looks: pointer movement entropy, scroll and key
+ * timing variation, clicks without any pointer movement and the time before the first interaction
+ */
+
+import type { BehavioralDetectionConfig } from '../types'
+
+const DEFAULT_OBSERVATION_WINDOW = 3000
+const DEFAULT_MIN_SCORE = 0.5
+
+// Pointer moves shorter than this carry no direction worth counting
+const MIN_MOVE_DISTANCE = 2
+const DIRECTION_BINS = 8
+// Enough samples for a variation measure to mean something
+const MIN_POINTER_MOVES = 10
+const MIN_SAMPLES = 3
+// Pauses between bursts of typing are not key timing
+const MAX_KEY_INTERVAL = 2000
+
+export type HumanityDecision = 'pending' | 'human' | 'bot'
+
+export interface InteractionSignals {
+  pointerMoves: number
+  // Spread of movement directions, 0 (straight lines) to 1 (every direction equally often)
+  pointerEntropy?: number
+  clicks: number
+  // Mouse clicks without any pointer movement before them
+  unmovedClicks: number
+  scrolls: number
+  // Coefficient of variation of scroll distances and of key intervals
+  scrollVariation?: number
+  keystrokes: number
+  keyIntervalVariation?: number
+  meanKeyInterval?: number
+  // ms since navigation start
+  timeToFirstInteraction?: number
+}
+
+export class InteractionTracker {
+  private directions: number[] = new Array(DIRECTION_BINS).fill(0)
+  private lastPointer?: { x: number, y: number }
+  private pointerMoves = 0
+  private clicks = 0
+  private unmovedClicks = 0
+  private scrollDistances: number[] = []
+  private lastScrollY?: number
+  private keyIntervals: number[] = []
+  private lastKeyAt?: number
+  private keystrokes = 0
+  private firstInteractionAt?: number
+  private decision: HumanityDecision = 'pending'
+  private decisionTimer?: ReturnType<typeof setTimeout>
+  private isListening = false
+
+  private onPointerMove = (event: Event) => {
+    const { clientX: x, clientY: y } = event as MouseEvent
+    this.recordInteraction()
+    this.pointerMoves++
+
+    if (this.lastPointer) {
+      const dx = x - this.lastPointer.x
+      const dy = y - this.lastPointer.y
+      if (Math.hypot(dx, dy) < MIN_MOVE_DISTANCE) return
+
+      const angle = Math.atan2(dy, dx) + Math.PI
+      this.directions[Math.min(DIRECTION_BINS - 1, Math.floor(angle / (2 * Math.PI) * DIRECTION_BINS))]++
+    }
+    this.lastPointer = { x, y }
+  }
+
+  private onPointerDown = (event: Event) => {
+    this.recordInteraction()
+    this.clicks++
+
+    // Touches and pens don't move a pointer before tapping
+    const pointerType = (event as PointerEvent).pointerType
+    if (this.pointerMoves === 0 && (!pointerType || pointerType === 'mouse')) this.unmovedClicks++
+  }
+
+  private onScroll = () => {
+    this.recordInteraction()
+
+    const scrollY = window.scrollY
+    if (this.lastScrollY !== undefined && scrollY !== this.lastScrollY) {
+      this.scrollDistances.push(Math.abs(scrollY - this.lastScrollY))
+    }
+    this.lastScrollY = scrollY
+  }
+
+  private onKeyDown = () => {
+    const now = Date.now()
+    this.recordInteraction()
+    this.keystrokes++
+
+    if (this.lastKeyAt !== undefined && now - this.lastKeyAt <= MAX_KEY_INTERVAL) {
+      this.keyIntervals.push(now - this.lastKeyAt)
+    }
+    this.lastKeyAt = now
+  }
+
+  constructor(
+    private config: BehavioralDetectionConfig = {},
+    private onDecision?: (decision: HumanityDecision, score: number | undefined) => void
+  ) {}
+
+  /**
+   * Start observing; the decision is made when the observation window ends
+   */
+  start(): void {
+    if (this.isListening || typeof window === 'undefined') return
+
+    window.addEventListener('pointermove', this.onPointerMove, { passive: true })
+    window.addEventListener('pointerdown', this.onPointerDown, { passive: true })
+    window.addEventListener('scroll', this.onScroll, { passive: true })
+    window.addEventListener('keydown', this.onKeyDown, { passive: true })
+    this.lastScrollY = window.scrollY
+    this.isListening = true
+
+    if (this.decision === 'pending') {
+      this.decisionTimer = setTimeout(() => this.decide(), this.config.observationWindow ?? DEFAULT_OBSERVATION_WINDOW)
+    }
+  }
+
+  stop(): void {
+    if (this.decisionTimer) {
+      clearTimeout(this.decisionTimer)
+      this.decisionTimer = undefined
+    }
+    if (!this.isListening) return
+
+    window.removeEventListener('pointermove', this.onPointerMove)
+    window.removeEventListener('pointerdown', this.onPointerDown)
+    window.removeEventListener('scroll', this.onScroll)
+    window.removeEventListener('keydown', this.onKeyDown)
+    this.isListening = false
+  }
+
+  /**
+   * Decide now with what was observed so far, e.g. when the page is hidden before the window ends
+   */
+  decide(): HumanityDecision {
+    if (this.decision !== 'pending') return this.decision
+
+    if (this.decisionTimer) {
+      clearTimeout(this.decisionTimer)
+      this.decisionTimer = undefined
+    }
+
+    // Readers who never touch the page are kept unless interaction is required
+    const score = this.getScore()
+    this.decision = score === undefined
+      ? (this.config.requireInteraction ? 'bot' : 'human')
+      : (score >= (this.config.minScore ?? DEFAULT_MIN_SCORE) ? 'human' : 'bot')
+
+    this.onDecision?.(this.decision, score)
+    return this.decision
+  }
+
+  getDecision(): HumanityDecision {
+    return this.decision
+  }
+
+  /**
+   * Humanity score from 0 (scripted) to 1 (human), undefined until there is anything to judge
+   */
+  getScore(): number | undefined {
+    const signals = this.getSignals()
+    const scores: [score: number, weight: number][] = []
+
+    if (signals.pointerEntropy !== undefined) {
+      scores.push([Math.min(1, signals.pointerEntropy / 0.5), 2])
+    }
+    if (signals.unmovedClicks > 0) {
+      scores.push([0, 2])
+    }
+    if (signals.scrollVariation !== undefined) {
+      scores.push([Math.min(1, signals.scrollVariation / 0.3), 1])
+    }
+    if (signals.keyIntervalVariation !== undefined) {
+      // Injected keystrokes arrive faster than anyone types
+      scores.push([signals.meanKeyInterval! < 30 ? 0 : Math.min(1, signals.keyIntervalVariation / 0.3), 2])
+    }
+    if (signals.timeToFirstInteraction !== undefined) {
+      const delay = signals.timeToFirstInteraction
+      scores.push([delay < 100 ? 0 : delay < 500 ? 0.5 : 1, 1])
+    }
+
+    if (scores.length === 0) return undefined
+
+    const total = scores.reduce((sum, [score, weight]) => sum + score * weight, 0)
+    const weights = scores.reduce((sum, [, weight]) => sum + weight, 0)
+    return Math.round(total / weights * 100) / 100
+  }
+
+  getSignals(): InteractionSignals {
+    const segments = this.directions.reduce((sum, count) => sum + count, 0)
+
+    return {
+      pointerMoves: this.pointerMoves,
+      ...(segments >= MIN_POINTER_MOVES && { pointerEntropy: entropy(this.directions, segments) }),
+      clicks: this.clicks,
+      unmovedClicks: this.unmovedClicks,
+      scrolls: this.scrollDistances.length,
+      ...(this.scrollDistances.length >= MIN_SAMPLES && { scrollVariation: variation(this.scrollDistances) }),
+      keystrokes: this.keystrokes,
+      ...(this.keyIntervals.length >= MIN_SAMPLES && {
+        keyIntervalVariation: variation(this.keyIntervals),
+        meanKeyInterval: mean(this.keyIntervals)
+      }),
+      ...(this.firstInteractionAt !== undefined && { timeToFirstInteraction: this.firstInteractionAt })
+    }
+  }
+
+  private recordInteraction(): void {
+    if (this.firstInteractionAt === undefined) {
+      this.firstInteractionAt = Math.round(performance.now())
+    }
+  }
+}
+
+// Shannon entropy of the direction histogram, normalized to 0..1
+function entropy(counts: number[], total: number): number {
+  const bits = counts
+    .filter(count => count > 0)
+    .reduce((sum, count) => sum - count / total * Math.log2(count / total), 0)
+  return Math.round(bits / Math.log2(counts.length) * 100) / 100
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+// Coefficient of variation: standard deviation relative to the mean
+function variation(values: number[]): number {
+  const average = mean(values)
+  if (average === 0) return 0
+
+  const variance = values.reduce((sum, value) => sum + (value - average) ** 2, 0) / values.length
+  return Math.round(Math.sqrt(variance) / average * 100) / 100
+}
\ No newline at end of file
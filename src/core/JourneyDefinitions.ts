@@ -0,0 +1,104 @@
+/**
+ * Journey definitions declared on a domain: step order, optional and alternative steps,
+ * business impact and expected durations
+ */
+
+import type { BusinessContext, JourneyDefinition, JourneyStepDefinition } from '../types'
+
+export interface JourneyStepInfo {
+  journey?: JourneyDefinition
+  step?: JourneyStepDefinition
+  // 1-based position in the funnel; 0 when the journey or step is not declared
+  stepNumber: number
+  totalSteps: number
+  // Number of the last step that is not optional; the journey is done once it is reached
+  lastRequiredStep: number
+}
+
+export class JourneyDefinitions {
+  private journeys: Map<string, JourneyDefinition> = new Map()
+  private steps: Map<string, JourneyStepDefinition[]> = new Map()
+  private warned: Set<string> = new Set()
+
+  constructor(private domainName: string, journeys: JourneyDefinition[] = []) {
+    journeys.forEach(journey => {
+      if (this.journeys.has(journey.name)) {
+        console.warn(`[DomainInstrumentor] Journey "${journey.name}" is declared twice in domain "${domainName}", keeping the first`)
+        return
+      }
+
+      this.journeys.set(journey.name, journey)
+      this.steps.set(journey.name, this.normalizeSteps(journey))
+    })
+  }
+
+  /**
+   * Validation only applies once a domain declares journeys
+   */
+  get isDeclared(): boolean {
+    return this.journeys.size > 0
+  }
+
+  getJourney(name: string): JourneyDefinition | undefined {
+    return this.journeys.get(name)
+  }
+
+  /**
+   * Steps in funnel order, with plain string steps expanded
+   */
+  getSteps(journeyName: string): JourneyStepDefinition[] {
+    return this.steps.get(journeyName) || []
+  }
+
+  /**
+   * Position of a step in its journey, warning once about undeclared journeys and steps
+   */
+  resolveStep(journeyName: string, stepName: string): JourneyStepInfo {
+    const journey = this.journeys.get(journeyName)
+    if (!journey) {
+      if (this.isDeclared) {
+        this.warnOnce(`journey:${journeyName}`, `Journey "${journeyName}" is not declared in domain "${this.domainName}"`)
+      }
+      return { stepNumber: 0, totalSteps: 0, lastRequiredStep: 0 }
+    }
+
+    const steps = this.getSteps(journeyName)
+    // A journey of only optional steps still ends at its last one
+    const lastRequiredStep = steps.map(step => !step.optional).lastIndexOf(true) + 1 || steps.length
+    const index = steps.findIndex(step => step.name === stepName || step.alternatives?.includes(stepName))
+    if (index === -1) {
+      this.warnOnce(`step:${journeyName}:${stepName}`, `Step "${stepName}" is not declared in journey "${journeyName}"`)
+      return { journey, stepNumber: 0, totalSteps: steps.length, lastRequiredStep }
+    }
+
+    return { journey, step: steps[index], stepNumber: index + 1, totalSteps: steps.length, lastRequiredStep }
+  }
+
+  getBusinessImpact(journeyName: string): BusinessContext['businessImpact'] {
+    return this.journeys.get(journeyName)?.businessImpact || 'engagement'
+  }
+
+  private normalizeSteps(journey: JourneyDefinition): JourneyStepDefinition[] {
+    const seen = new Set<string>()
+
+    return journey.steps.map(step => {
+      const definition = typeof step === 'string' ? { name: step } : step
+      const names = [definition.name, ...(definition.alternatives || [])]
+
+      names.forEach(name => {
+        if (seen.has(name)) {
+          console.warn(`[DomainInstrumentor] Step "${name}" appears more than once in journey "${journey.name}"`)
+        }
+        seen.add(name)
+      })
+
+      return definition
+    })
+  }
+
+  private warnOnce(key: string, message: string): void {
+    if (this.warned.has(key)) return
+    this.warned.add(key)
+    console.warn(`[DomainInstrumentor] ${message}`)
+  }
+}
\ No newline at end of file
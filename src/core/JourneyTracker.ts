@@ -0,0 +1,196 @@
+/**
+ * Follows declared journeys across SPA routes and reloads
+ * Keeps in-progress journeys in sessionStorage and reports completion and abandonment,
+ * including the step users dropped off at
+ */
+
+import type { BusinessContext, JourneyTrackingConfig } from '../types'
+
+const STORAGE_KEY = 'observ-metrics:journeys'
+const DEFAULT_ABANDON_AFTER = 30 * 60 * 1000 // 30 minutes
+const SWEEP_INTERVAL = 60 * 1000
+
+export interface JourneyProgress {
+  domain: string
+  journey: string
+  sessionId: string
+  businessImpact: BusinessContext['businessImpact']
+  maxDuration?: number
+  startedAt: number
+  lastActivityAt: number
+  // Completed steps in the order they happened
+  steps: string[]
+  lastStep: string
+  furthestStep: string
+  furthestStepNumber: number
+  totalSteps: number
+  // Declared step after the furthest one reached
+  nextStep?: string
+}
+
+export interface JourneyStepRecord {
+  domain: string
+  journey: string
+  step: string
+  stepNumber: number
+  totalSteps: number
+  // Only optional steps follow this one; defaults to totalSteps
+  lastRequiredStep?: number
+  nextStep?: string
+  businessImpact: BusinessContext['businessImpact']
+  maxDuration?: number
+}
+
+export type JourneyAbandonReason = 'timeout' | 'session_end'
+
+export interface JourneyListener {
+  (type: 'completed' | 'abandoned', progress: JourneyProgress, reason?: JourneyAbandonReason): void
+}
+
+export class JourneyTracker {
+  private journeys: Map<string, JourneyProgress> = new Map()
+  private sweepTimer?: ReturnType<typeof setInterval>
+  private useStorage = true
+
+  constructor(
+    private config: JourneyTrackingConfig = {},
+    private getSessionId: () => string,
+    private listener?: JourneyListener
+  ) {
+    this.load()
+  }
+
+  /**
+   * Abandon journeys that expired while the page was closed and keep checking periodically
+   */
+  start(): void {
+    this.sweep()
+
+    if (!this.sweepTimer) {
+      this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL)
+    }
+  }
+
+  /**
+   * Stop checking; in-progress journeys stay persisted for the next page
+   */
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer)
+      this.sweepTimer = undefined
+    }
+  }
+
+  getProgress(domain: string, journey: string): JourneyProgress | undefined {
+    return this.journeys.get(this.getKey(domain, journey))
+  }
+
+  getInProgress(): JourneyProgress[] {
+    return Array.from(this.journeys.values())
+  }
+
+  /**
+   * Record a successful step; the journey completes once no required step remains after it
+   */
+  recordStep(record: JourneyStepRecord): void {
+    this.sweep()
+
+    const now = Date.now()
+    const key = this.getKey(record.domain, record.journey)
+    const lastRequiredStep = record.lastRequiredStep ?? record.totalSteps
+
+    // Optional steps after the last required one belong to a journey that already completed
+    if (!this.journeys.has(key) && record.stepNumber > lastRequiredStep) return
+
+    const progress = this.journeys.get(key) || {
+      domain: record.domain,
+      journey: record.journey,
+      sessionId: this.getSessionId(),
+      businessImpact: record.businessImpact,
+      maxDuration: record.maxDuration,
+      startedAt: now,
+      lastActivityAt: now,
+      steps: [],
+      lastStep: record.step,
+      furthestStep: record.step,
+      furthestStepNumber: 0,
+      totalSteps: record.totalSteps
+    }
+
+    progress.steps.push(record.step)
+    progress.lastStep = record.step
+    progress.lastActivityAt = now
+
+    // Going back to an earlier step keeps the furthest point for drop-off analysis
+    if (record.stepNumber >= progress.furthestStepNumber) {
+      progress.furthestStep = record.step
+      progress.furthestStepNumber = record.stepNumber
+      progress.nextStep = record.nextStep
+    }
+
+    if (record.stepNumber >= lastRequiredStep) {
+      this.journeys.delete(key)
+      this.save()
+      this.listener?.('completed', progress)
+      return
+    }
+
+    this.journeys.set(key, progress)
+    this.save()
+  }
+
+  /**
+   * Abandon every journey of a session that ended
+   */
+  endSession(sessionId: string): void {
+    this.getInProgress()
+      .filter(progress => progress.sessionId === sessionId)
+      .forEach(progress => this.abandon(progress, 'session_end'))
+  }
+
+  private sweep(): void {
+    const now = Date.now()
+    const abandonAfter = this.config.abandonAfter ?? DEFAULT_ABANDON_AFTER
+    const sessionId = this.getSessionId()
+
+    this.getInProgress().forEach(progress => {
+      if (progress.sessionId !== sessionId) {
+        this.abandon(progress, 'session_end')
+      } else if (now - progress.lastActivityAt > abandonAfter) {
+        this.abandon(progress, 'timeout')
+      }
+    })
+  }
+
+  private abandon(progress: JourneyProgress, reason: JourneyAbandonReason): void {
+    // Reading the session ID can end the session, which abandons journeys re-entrantly
+    if (!this.journeys.delete(this.getKey(progress.domain, progress.journey))) return
+
+    this.save()
+    this.listener?.('abandoned', progress, reason)
+  }
+
+  private getKey(domain: string, journey: string): string {
+    return `${domain}:${journey}`
+  }
+
+  private load(): void {
+    try {
+      const stored = window.sessionStorage.getItem(STORAGE_KEY)
+      const journeys: JourneyProgress[] = stored ? JSON.parse(stored) : []
+      journeys.forEach(progress => this.journeys.set(this.getKey(progress.domain, progress.journey), progress))
+    } catch {
+      // Storage disabled or corrupt entry - track in memory only
+    }
+  }
+
+  private save(): void {
+    if (!this.useStorage) return
+
+    try {
+      window.sessionStorage.setItem(STORAGE_KEY, JSON.stringify(this.getInProgress()))
+    } catch {
+      this.useStorage = false
+    }
+  }
+}
\ No newline at end of file
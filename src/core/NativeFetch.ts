@@ -0,0 +1,19 @@
+/**
+ * Finds the platform fetch when an instrumented fetch has been assigned over window.fetch,
+ * so instrumentors and exporters never send their requests through the wrapper
+ */
+
+// Instrumented fetches mapped to the fetch they send requests with
+const wrappedFetches = new WeakMap<typeof fetch, typeof fetch | undefined>()
+
+export function registerWrappedFetch(wrapper: typeof fetch, fetchImpl?: typeof fetch): void {
+  wrappedFetches.set(wrapper, fetchImpl)
+}
+
+/**
+ * The global fetch, or the fetch underneath it when it is an instrumented fetch
+ */
+export function getNativeFetch(): typeof fetch | undefined {
+  const current = typeof globalThis.fetch === 'function' ? globalThis.fetch : undefined
+  return current && wrappedFetches.has(current) ? wrappedFetches.get(current) : current
+}
\ No newline at end of file
@@ -0,0 +1,360 @@
+/**
+ * Durable queue for event batches that could not be delivered
+ * Persists to IndexedDB (localStorage, then memory, as fallbacks) and replays
+ * with backoff when the browser comes back online or the next session starts
+ */
+
+import { isRetryableError } from './RetryPolicy'
+import type { TelemetryEvent, OfflineQueueConfig } from '../types'
+
+const DB_NAME = 'observ-metrics'
+const DB_VERSION = 1
+const STORE_NAME = 'offline-queue'
+const STORAGE_KEY_PREFIX = 'observ-metrics:offline-queue:'
+
+const DEFAULT_MAX_AGE = 24 * 60 * 60 * 1000 // 24 hours
+const DEFAULT_MAX_SIZE = 500 // events
+const BASE_REPLAY_DELAY = 1000
+const MAX_REPLAY_DELAY = 5 * 60 * 1000
+
+export interface QueuedBatch {
+  id: string
+  queue: string
+  createdAt: number
+  attempts: number
+  events: TelemetryEvent[]
+}
+
+/**
+ * Thrown by a sender that delivered part of a batch; only the undelivered events stay queued
+ */
+export class PartialDeliveryError extends Error {
+  constructor(public error: unknown, public undelivered: TelemetryEvent[]) {
+    super(error instanceof Error ? error.message : String(error))
+    this.name = 'PartialDeliveryError'
+  }
+}
+
+interface QueueStorage {
+  readonly type: 'indexeddb' | 'localstorage' | 'memory'
+  put(batch: QueuedBatch): Promise<void>
+  getAll(): Promise<QueuedBatch[]>
+  remove(ids: string[]): Promise<void>
+}
+
+class IndexedDBQueueStorage implements QueueStorage {
+  readonly type = 'indexeddb' as const
+  private dbPromise?: Promise<IDBDatabase>
+
+  constructor(private queueName: string) {}
+
+  async put(batch: QueuedBatch): Promise<void> {
+    await this.request('readwrite', store => store.put(batch))
+  }
+
+  async getAll(): Promise<QueuedBatch[]> {
+    const batches = await this.request<QueuedBatch[]>('readonly', store => store.index('queue').getAll(this.queueName))
+    return batches || []
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      await this.request('readwrite', store => store.delete(id))
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+          store.createIndex('queue', 'queue')
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+    }
+    return this.dbPromise
+  }
+
+  private async request<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open()
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+      request.onsuccess = () => resolve(request.result as T)
+      request.onerror = () => reject(request.error)
+    })
+  }
+}
+
+class LocalStorageQueueStorage implements QueueStorage {
+  readonly type = 'localstorage' as const
+  private key: string
+
+  constructor(queueName: string) {
+    this.key = `${STORAGE_KEY_PREFIX}${queueName}`
+  }
+
+  async put(batch: QueuedBatch): Promise<void> {
+    this.putSync(batch)
+  }
+
+  async getAll(): Promise<QueuedBatch[]> {
+    return this.getAllSync()
+  }
+
+  // Synchronous variants for pages that are unloading
+  putSync(batch: QueuedBatch): void {
+    const batches = this.getAllSync().filter(b => b.id !== batch.id)
+    batches.push(batch)
+    window.localStorage.setItem(this.key, JSON.stringify(batches))
+  }
+
+  getAllSync(): QueuedBatch[] {
+    const stored = window.localStorage.getItem(this.key)
+    return stored ? JSON.parse(stored) : []
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    const batches = (await this.getAll()).filter(b => !ids.includes(b.id))
+    if (batches.length > 0) {
+      window.localStorage.setItem(this.key, JSON.stringify(batches))
+    } else {
+      window.localStorage.removeItem(this.key)
+    }
+  }
+}
+
+class MemoryQueueStorage implements QueueStorage {
+  readonly type = 'memory' as const
+  private batches: QueuedBatch[] = []
+
+  async put(batch: QueuedBatch): Promise<void> {
+    this.batches = [...this.batches.filter(b => b.id !== batch.id), batch]
+  }
+
+  async getAll(): Promise<QueuedBatch[]> {
+    return [...this.batches]
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    this.batches = this.batches.filter(b => !ids.includes(b.id))
+  }
+}
+
+export class OfflineQueue {
+  private storages: QueueStorage[]
+  private replayTimer?: NodeJS.Timeout
+  private isReplaying = false
+  private onlineListener = () => { this.replay() }
+
+  constructor(
+    private name: string,
+    private sender: (events: TelemetryEvent[]) => Promise<void>,
+    private config: OfflineQueueConfig = { enabled: true }
+  ) {
+    this.storages = this.createStorages()
+  }
+
+  private createStorages(): QueueStorage[] {
+    const storages: QueueStorage[] = []
+
+    if (typeof indexedDB !== 'undefined') {
+      storages.push(new IndexedDBQueueStorage(this.name))
+    }
+
+    try {
+      if (typeof window !== 'undefined' && window.localStorage) {
+        storages.push(new LocalStorageQueueStorage(this.name))
+      }
+    } catch {
+      // Accessing localStorage throws when storage is disabled
+    }
+
+    storages.push(new MemoryQueueStorage())
+    return storages
+  }
+
+  /**
+   * Start listening for connectivity changes and replay batches left by previous sessions
+   */
+  start(): void {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.onlineListener)
+    }
+    this.scheduleReplay(0)
+  }
+
+  stop(): void {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.onlineListener)
+    }
+    if (this.replayTimer) {
+      clearTimeout(this.replayTimer)
+      this.replayTimer = undefined
+    }
+  }
+
+  isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false
+  }
+
+  /**
+   * Persist a batch for later delivery, evicting expired and oldest batches beyond maxSize
+   */
+  async enqueue(events: TelemetryEvent[]): Promise<void> {
+    if (events.length === 0) return
+
+    await this.withStorage(storage => storage.put(this.createBatch(events)))
+    await this.enforceLimits()
+  }
+
+  /**
+   * Store a batch synchronously while the page unloads, when IndexedDB writes never finish
+   * The batch waits in localStorage until the next session replays it
+   */
+  persist(events: TelemetryEvent[]): void {
+    if (events.length === 0) return
+
+    try {
+      new LocalStorageQueueStorage(this.name).putSync(this.createBatch(events))
+    } catch (error) {
+      console.warn('[OfflineQueue] Could not persist events during unload:', error)
+    }
+  }
+
+  /**
+   * Try to deliver queued batches oldest first, backing off after a failure
+   */
+  async replay(): Promise<void> {
+    if (this.isReplaying || !this.isOnline()) return
+    this.isReplaying = true
+
+    try {
+      const batches = await this.getPendingBatches()
+
+      for (const batch of batches) {
+        try {
+          await this.sender(batch.events)
+          await this.withStorage(storage => storage.remove([batch.id]))
+        } catch (caught) {
+          const error = caught instanceof PartialDeliveryError ? caught.error : caught
+          if (!isRetryableError(error)) {
+            // A rejected batch would block everything queued behind it
+            console.warn('[OfflineQueue] Dropping batch rejected by the endpoint:', error)
+            await this.withStorage(storage => storage.remove([batch.id]))
+            continue
+          }
+
+          const failedBatch = {
+            ...batch,
+            events: caught instanceof PartialDeliveryError ? caught.undelivered : batch.events,
+            attempts: batch.attempts + 1
+          }
+          await this.withStorage(storage => storage.put(failedBatch))
+          this.scheduleReplay(this.getReplayDelay(failedBatch.attempts))
+          return
+        }
+      }
+    } finally {
+      this.isReplaying = false
+    }
+  }
+
+  async getSize(): Promise<number> {
+    const batches = await this.getPendingBatches()
+    return batches.reduce((total, batch) => total + batch.events.length, 0)
+  }
+
+  getStorageType(): QueueStorage['type'] {
+    return this.storages[0].type
+  }
+
+  private createBatch(events: TelemetryEvent[]): QueuedBatch {
+    return {
+      id: `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      queue: this.name,
+      createdAt: Date.now(),
+      attempts: 0,
+      events
+    }
+  }
+
+  private async getPendingBatches(): Promise<QueuedBatch[]> {
+    await this.adoptPersistedBatches()
+    await this.enforceLimits()
+    const batches = await this.withStorage(storage => storage.getAll())
+    return batches.sort((a, b) => a.createdAt - b.createdAt)
+  }
+
+  // Move batches persisted during unload into IndexedDB when that is the primary storage
+  private async adoptPersistedBatches(): Promise<void> {
+    const persisted = this.storages.find(
+      (storage): storage is LocalStorageQueueStorage => storage instanceof LocalStorageQueueStorage
+    )
+    if (!persisted || this.storages[0] === persisted) return
+
+    const batches = persisted.getAllSync()
+    if (batches.length === 0) return
+
+    for (const batch of batches) {
+      await this.withStorage(storage => storage.put(batch))
+    }
+    // Fell back to localStorage while copying - the batches are already where they belong
+    if (this.storages[0] !== persisted) {
+      await persisted.remove(batches.map(batch => batch.id))
+    }
+  }
+
+  private async enforceLimits(): Promise<void> {
+    const maxAge = this.config.maxAge ?? DEFAULT_MAX_AGE
+    const maxSize = this.config.maxSize ?? DEFAULT_MAX_SIZE
+    const batches = (await this.withStorage(storage => storage.getAll()))
+      .sort((a, b) => b.createdAt - a.createdAt) // newest first
+
+    const expiredIds: string[] = []
+    let retainedEvents = 0
+
+    batches.forEach(batch => {
+      const expired = Date.now() - batch.createdAt > maxAge
+      if (expired || retainedEvents + batch.events.length > maxSize) {
+        expiredIds.push(batch.id)
+      } else {
+        retainedEvents += batch.events.length
+      }
+    })
+
+    if (expiredIds.length > 0) {
+      await this.withStorage(storage => storage.remove(expiredIds))
+    }
+  }
+
+  private async withStorage<T>(operation: (storage: QueueStorage) => Promise<T>): Promise<T> {
+    // Fall back to the next storage when one fails (private mode, quota exceeded, ...)
+    while (this.storages.length > 1) {
+      try {
+        return await operation(this.storages[0])
+      } catch (error) {
+        console.warn(`[OfflineQueue] ${this.storages[0].type} storage unavailable, falling back:`, error)
+        this.storages.shift()
+      }
+    }
+    return operation(this.storages[0])
+  }
+
+  private getReplayDelay(attempts: number): number {
+    const delay = Math.min(MAX_REPLAY_DELAY, BASE_REPLAY_DELAY * Math.pow(2, attempts - 1))
+    return delay / 2 + Math.random() * (delay / 2)
+  }
+
+  private scheduleReplay(delay: number): void {
+    if (this.replayTimer) {
+      clearTimeout(this.replayTimer)
+    }
+    this.replayTimer = setTimeout(() => {
+      this.replayTimer = undefined
+      this.replay()
+    }, delay)
+  }
+}
\ No newline at end of file
@@ -0,0 +1,39 @@
+/**
+ * Page lifecycle hooks for flushing telemetry before the page goes away
+ * visibilitychange (hidden) is the last event mobile browsers reliably fire,
+ * pagehide and freeze cover navigation and the back/forward cache
+ */
+
+export class PageLifecycle {
+  private isListening = false
+
+  private onVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') {
+      this.onHidden()
+    }
+  }
+
+  private onPageLeave = () => {
+    this.onHidden()
+  }
+
+  constructor(private onHidden: () => void) {}
+
+  start(): void {
+    if (this.isListening || typeof window === 'undefined' || typeof document === 'undefined') return
+
+    document.addEventListener('visibilitychange', this.onVisibilityChange)
+    document.addEventListener('freeze', this.onPageLeave)
+    window.addEventListener('pagehide', this.onPageLeave)
+    this.isListening = true
+  }
+
+  stop(): void {
+    if (!this.isListening) return
+
+    document.removeEventListener('visibilitychange', this.onVisibilityChange)
+    document.removeEventListener('freeze', this.onPageLeave)
+    window.removeEventListener('pagehide', this.onPageLeave)
+    this.isListening = false
+  }
+}
\ No newline at end of file
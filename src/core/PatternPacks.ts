@@ -0,0 +1,85 @@
+/**
+ * Versioned default pattern packs for bot user agents, browser extension URLs and noise URLs
+ * Packs are never changed once released; fixes ship as a new version so upgrades are opt-out
+ */
+
+import type { PatternSetConfig } from '../types'
+
+export type PatternSetName = 'bot' | 'extension' | 'noise'
+
+export type PatternPack = Record<PatternSetName, RegExp[]>
+
+const PACK_1_0: PatternPack = {
+  bot: [
+    /bot/i, /crawler/i, /spider/i, /scraper/i,
+    /phantom/i, /headless/i, /selenium/i,
+    /puppeteer/i, /playwright/i,
+    /googlebot/i, /bingbot/i, /slurp/i,
+    /facebookexternalhit/i, /twitterbot/i,
+    /linkedinbot/i, /whatsapp/i, /telegrambot/i
+  ],
+  extension: [
+    /chrome-extension:/i, /moz-extension:/i, /safari-extension:/i,
+    /extension\//i, /addon/i, /greasemonkey/i,
+    /tampermonkey/i, /adblock/i, /ublock/i,
+    /ghostery/i, /privacy/i, /disconnect/i
+  ],
+  noise: [
+    /\.css(\?|$)/, /\.js(\?|$)/, /\.png(\?|$)/,
+    /\.jpg(\?|$)/, /\.gif(\?|$)/, /\.svg(\?|$)/,
+    /\.woff(\?|$)/, /\.ttf(\?|$)/, /\.ico(\?|$)/,
+    /favicon/, /manifest\.json/, /robots\.txt/,
+    /sw\.js/, /service-worker/, /workbox/
+  ]
+}
+
+// 2.0: extension URLs are matched by scheme and known script names only - words like
+// "privacy", "addon" and "disconnect" dropped app URLs such as /privacy-policy
+const PACK_2_0: PatternPack = {
+  bot: [
+    ...PACK_1_0.bot,
+    /lighthouse/i, /pingdom/i, /uptimerobot/i, /gtmetrix/i,
+    /python-requests/i, /curl\//i, /wget\//i
+  ],
+  extension: [
+    /chrome-extension:/i, /moz-extension:/i, /safari(-web)?-extension:/i, /ms-browser-extension:/i,
+    /greasemonkey/i, /tampermonkey/i, /violentmonkey/i,
+    /adblock/i, /ublock/i, /ghostery/i
+  ],
+  noise: [
+    ...PACK_1_0.noise,
+    /\.woff2(\?|$)/, /\.webp(\?|$)/, /\.avif(\?|$)/, /\.map(\?|$)/
+  ]
+}
+
+export const PATTERN_PACKS: Record<string, PatternPack> = {
+  '1.0': PACK_1_0,
+  '2.0': PACK_2_0
+}
+
+export const LATEST_PATTERN_PACK = '2.0'
+
+/**
+ * Apply replace, then remove, then add to a pack's pattern set
+ */
+export function buildPatternSet(defaults: RegExp[], config: PatternSetConfig = {}): RegExp[] {
+  const removed = (config.remove || []).map(pattern => toRegExp(pattern).source)
+  const base = config.replace ? config.replace.map(toRegExp) : defaults
+
+  return [
+    ...base.filter(pattern => !removed.includes(pattern.source)),
+    ...(config.add || []).map(toRegExp)
+  ].map(withoutState)
+}
+
+// Strings match literally and case-insensitively
+function toRegExp(pattern: string | RegExp): RegExp {
+  return typeof pattern === 'string'
+    ? new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i')
+    : pattern
+}
+
+// test() on a global or sticky RegExp resumes from lastIndex and misses every other match
+function withoutState(pattern: RegExp): RegExp {
+  return pattern.global || pattern.sticky ? new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, '')) : pattern
+}
\ No newline at end of file
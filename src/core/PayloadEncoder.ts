@@ -0,0 +1,156 @@
+/**
+ * Prepares exporter request bodies
+ * Splits batches that exceed a vendor's payload limit, optionally gzips each request
+ * and keeps per-request size stats
+ */
+
+import { gzip } from './Gzip'
+import type { TelemetryEvent } from '../types'
+
+const RECENT_REQUESTS = 20
+
+export interface PayloadChunk {
+  events: TelemetryEvent[]
+  body: string
+}
+
+export interface EncodedPayload {
+  events: TelemetryEvent[]
+  body: BodyInit
+  headers: Record<string, string>
+  rawBytes: number
+  encodedBytes: number
+}
+
+export interface PayloadEncoderOptions {
+  compression?: 'gzip' | 'none'
+  maxPayloadBytes: number
+}
+
+export interface RequestSize {
+  events: number
+  rawBytes: number
+  encodedBytes: number
+}
+
+export class PayloadEncoder {
+  private stats = {
+    requests: 0,
+    splitBatches: 0,
+    droppedEvents: 0,
+    rawBytes: 0,
+    encodedBytes: 0,
+    largestRequestBytes: 0
+  }
+  private recentRequests: RequestSize[] = []
+
+  constructor(private options: PayloadEncoderOptions) {}
+
+  /**
+   * Serialize events into request bodies that each fit the payload limit
+   */
+  async encode(events: TelemetryEvent[], serialize: (events: TelemetryEvent[]) => string): Promise<EncodedPayload[]> {
+    const chunks = chunkPayload(events, serialize, this.options.maxPayloadBytes)
+
+    if (chunks.length > 1) {
+      this.stats.splitBatches++
+    }
+    this.stats.droppedEvents += events.length - chunks.reduce((total, chunk) => total + chunk.events.length, 0)
+
+    return Promise.all(chunks.map(chunk => this.compress(chunk)))
+  }
+
+  /**
+   * Record a request that was delivered
+   */
+  recordRequest(payload: EncodedPayload): void {
+    this.stats.requests++
+    this.stats.rawBytes += payload.rawBytes
+    this.stats.encodedBytes += payload.encodedBytes
+    this.stats.largestRequestBytes = Math.max(this.stats.largestRequestBytes, payload.encodedBytes)
+
+    this.recentRequests.push({
+      events: payload.events.length,
+      rawBytes: payload.rawBytes,
+      encodedBytes: payload.encodedBytes
+    })
+    if (this.recentRequests.length > RECENT_REQUESTS) {
+      this.recentRequests.shift()
+    }
+  }
+
+  getStats() {
+    return {
+      ...this.stats,
+      compression: this.options.compression || 'none',
+      maxPayloadBytes: this.options.maxPayloadBytes,
+      recentRequests: [...this.recentRequests]
+    }
+  }
+
+  private async compress(chunk: PayloadChunk): Promise<EncodedPayload> {
+    const rawBytes = getByteLength(chunk.body)
+
+    if (this.options.compression !== 'gzip') {
+      return { events: chunk.events, body: chunk.body, headers: {}, rawBytes, encodedBytes: rawBytes }
+    }
+
+    const compressed = await gzip(chunk.body)
+    return {
+      events: chunk.events,
+      body: compressed as BodyInit,
+      headers: { 'Content-Encoding': 'gzip' },
+      rawBytes,
+      encodedBytes: compressed.length
+    }
+  }
+}
+
+/**
+ * Split events into serialized chunks of at most maxBytes, halving batches that are too large
+ */
+export function chunkPayload(
+  events: TelemetryEvent[],
+  serialize: (events: TelemetryEvent[]) => string,
+  maxBytes: number
+): PayloadChunk[] {
+  if (events.length === 0) return []
+
+  const body = serialize(events)
+  if (getByteLength(body) <= maxBytes) {
+    return [{ events, body }]
+  }
+
+  if (events.length === 1) {
+    console.warn(`[PayloadEncoder] Dropping event larger than ${maxBytes} bytes: ${events[0].name}`)
+    return []
+  }
+
+  const middle = Math.ceil(events.length / 2)
+  return [
+    ...chunkPayload(events.slice(0, middle), serialize, maxBytes),
+    ...chunkPayload(events.slice(middle), serialize, maxBytes)
+  ]
+}
+
+/**
+ * UTF-8 byte length of a string (TextEncoder is not available in every runtime)
+ */
+export function getByteLength(value: string): number {
+  let bytes = 0
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i)
+    if (code < 0x80) {
+      bytes += 1
+    } else if (code < 0x800) {
+      bytes += 2
+    } else if (code >= 0xd800 && code <= 0xdbff) {
+      // Surrogate pair - one 4 byte character
+      bytes += 4
+      i++
+    } else {
+      bytes += 3
+    }
+  }
+  return bytes
+}
\ No newline at end of file
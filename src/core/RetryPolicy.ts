@@ -0,0 +1,191 @@
+/**
+ * Shared retry policy for exporter requests
+ * Exponential backoff with full jitter, Retry-After support, a retry budget
+ * and a circuit breaker that stops hammering a failing endpoint
+ */
+
+import type { RetryConfig } from '../types'
+
+const DEFAULT_MAX_ATTEMPTS = 3
+const DEFAULT_BASE_DELAY = 500
+const DEFAULT_MAX_DELAY = 30000
+const DEFAULT_RETRY_BUDGET = 20 // retries per minute
+const DEFAULT_FAILURE_THRESHOLD = 5
+const DEFAULT_RESET_TIMEOUT = 30000
+const BUDGET_WINDOW = 60000
+
+/**
+ * Error for non-2xx export responses, carrying the status and any Retry-After delay
+ */
+export class ExportHttpError extends Error {
+  constructor(message: string, public status: number, public retryAfterMs?: number) {
+    super(message)
+    this.name = 'ExportHttpError'
+  }
+
+  static fromResponse(response: Response, message: string): ExportHttpError {
+    const retryAfter = response.headers?.get?.('Retry-After')
+    return new ExportHttpError(message, response.status, parseRetryAfter(retryAfter))
+  }
+}
+
+/**
+ * Thrown without calling the endpoint while the circuit breaker is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(public retryAt: number) {
+    super(`Circuit open: export endpoint is failing, next attempt after ${new Date(retryAt).toISOString()}`)
+    this.name = 'CircuitOpenError'
+  }
+}
+
+function parseRetryAfter(value?: string | null): number | undefined {
+  if (!value) return undefined
+
+  // Either delay-seconds or an HTTP date
+  const seconds = Number(value)
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000)
+
+  const date = Date.parse(value)
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * Client errors are permanent, except timeouts and rate limiting
+ */
+export function isRetryableError(error: any): boolean {
+  if (error instanceof ExportHttpError) {
+    return error.status >= 500 || error.status === 408 || error.status === 429
+  }
+  // Network failures, aborted requests and open circuits
+  return true
+}
+
+export class RetryPolicy {
+  private config: Required<Omit<RetryConfig, 'circuitBreaker'>> & { circuitBreaker: Required<NonNullable<RetryConfig['circuitBreaker']>> }
+  private retryTimestamps: number[] = []
+  private consecutiveFailures = 0
+  private circuitOpenedAt?: number
+  private halfOpenTrialInFlight = false
+  private stats = {
+    requests: 0,
+    retries: 0,
+    failures: 0,
+    circuitOpens: 0
+  }
+
+  constructor(config: RetryConfig = {}) {
+    this.config = {
+      maxAttempts: config.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      baseDelay: config.baseDelay ?? DEFAULT_BASE_DELAY,
+      maxDelay: config.maxDelay ?? DEFAULT_MAX_DELAY,
+      retryBudget: config.retryBudget ?? DEFAULT_RETRY_BUDGET,
+      circuitBreaker: {
+        failureThreshold: config.circuitBreaker?.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD,
+        resetTimeout: config.circuitBreaker?.resetTimeout ?? DEFAULT_RESET_TIMEOUT
+      }
+    }
+  }
+
+  /**
+   * Run an operation, retrying retryable failures until attempts or budget run out
+   */
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    this.checkCircuit()
+    this.stats.requests++
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await operation()
+        this.recordSuccess()
+        return result
+      } catch (error) {
+        const delay = this.getRetryDelay(error, attempt)
+        if (delay === null) {
+          this.recordFailure(error)
+          throw error
+        }
+
+        this.stats.retries++
+        this.retryTimestamps.push(Date.now())
+        await new Promise(resolve => setTimeout(resolve, delay))
+      }
+    }
+  }
+
+  isRetryable(error: any): boolean {
+    return isRetryableError(error)
+  }
+
+  getCircuitState(): 'closed' | 'open' | 'half-open' {
+    if (this.circuitOpenedAt === undefined) return 'closed'
+    return Date.now() - this.circuitOpenedAt >= this.config.circuitBreaker.resetTimeout ? 'half-open' : 'open'
+  }
+
+  getStats() {
+    return {
+      ...this.stats,
+      circuitState: this.getCircuitState(),
+      consecutiveFailures: this.consecutiveFailures
+    }
+  }
+
+  private getRetryDelay(error: any, attempt: number): number | null {
+    if (!this.isRetryable(error) || error instanceof CircuitOpenError) return null
+    if (attempt >= this.config.maxAttempts) return null
+    if (!this.hasRetryBudget()) return null
+
+    if (error instanceof ExportHttpError && error.retryAfterMs !== undefined) {
+      // Waiting longer than maxDelay is left to the caller's queue
+      return error.retryAfterMs <= this.config.maxDelay ? error.retryAfterMs : null
+    }
+
+    // Full jitter: random delay between 0 and the exponential cap
+    const cap = Math.min(this.config.maxDelay, this.config.baseDelay * Math.pow(2, attempt - 1))
+    return Math.random() * cap
+  }
+
+  private hasRetryBudget(): boolean {
+    const windowStart = Date.now() - BUDGET_WINDOW
+    this.retryTimestamps = this.retryTimestamps.filter(timestamp => timestamp > windowStart)
+    return this.retryTimestamps.length < this.config.retryBudget
+  }
+
+  private checkCircuit(): void {
+    const state = this.getCircuitState()
+
+    if (state === 'open' || (state === 'half-open' && this.halfOpenTrialInFlight)) {
+      throw new CircuitOpenError(this.circuitOpenedAt! + this.config.circuitBreaker.resetTimeout)
+    }
+
+    if (state === 'half-open') {
+      // Let a single trial request through
+      this.halfOpenTrialInFlight = true
+    }
+  }
+
+  private recordSuccess(): void {
+    this.consecutiveFailures = 0
+    this.circuitOpenedAt = undefined
+    this.halfOpenTrialInFlight = false
+  }
+
+  private recordFailure(error: any): void {
+    this.stats.failures++
+    this.halfOpenTrialInFlight = false
+
+    // A rejected payload means the endpoint is up - only outages trip the breaker,
+    // and a rejected half-open trial closes it like a successful one
+    if (!this.isRetryable(error)) {
+      this.consecutiveFailures = 0
+      this.circuitOpenedAt = undefined
+      return
+    }
+
+    this.consecutiveFailures++
+    if (this.circuitOpenedAt !== undefined || this.consecutiveFailures >= this.config.circuitBreaker.failureThreshold) {
+      this.circuitOpenedAt = Date.now()
+      this.stats.circuitOpens++
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,253 @@
+/**
+ * Stable session IDs for per-session analysis
+ * Persists a random session ID in sessionStorage (or a cookie) and rolls it over
+ * after inactivity or a maximum duration, reporting session start and end
+ */
+
+import type { SessionConfig } from '../types'
+
+const STORAGE_KEY = 'observ-metrics:session'
+const COOKIE_NAME = 'observ_metrics_session'
+const DEFAULT_INACTIVITY_TIMEOUT = 30 * 60 * 1000 // 30 minutes
+const DEFAULT_MAX_DURATION = 4 * 60 * 60 * 1000 // 4 hours
+
+export interface SessionState {
+  id: string
+  startedAt: number
+  lastActivityAt: number
+  eventCount: number
+}
+
+export type SessionEndReason = 'inactivity' | 'max_duration' | 'manual'
+
+export interface SessionListener {
+  (type: 'start' | 'end', session: SessionState, reason?: SessionEndReason): void
+}
+
+interface SessionStore {
+  read(): SessionState | undefined
+  write(session: SessionState): void
+}
+
+class SessionStorageStore implements SessionStore {
+  read(): SessionState | undefined {
+    const stored = window.sessionStorage.getItem(STORAGE_KEY)
+    return stored ? JSON.parse(stored) : undefined
+  }
+
+  write(session: SessionState): void {
+    window.sessionStorage.setItem(STORAGE_KEY, JSON.stringify(session))
+  }
+}
+
+class CookieStore implements SessionStore {
+  constructor(private domain?: string) {}
+
+  read(): SessionState | undefined {
+    const cookie = document.cookie.split('; ').find(entry => entry.startsWith(`${COOKIE_NAME}=`))
+    return cookie ? JSON.parse(decodeURIComponent(cookie.slice(COOKIE_NAME.length + 1))) : undefined
+  }
+
+  write(session: SessionState): void {
+    // Session cookie (no expiry) - the ID itself rolls over through lastActivityAt
+    const domain = this.domain ? `; domain=${this.domain}` : ''
+    document.cookie = `${COOKIE_NAME}=${encodeURIComponent(JSON.stringify(session))}; path=/; SameSite=Lax${domain}`
+  }
+}
+
+class MemoryStore implements SessionStore {
+  private session?: SessionState
+
+  read(): SessionState | undefined {
+    return this.session
+  }
+
+  write(session: SessionState): void {
+    this.session = session
+  }
+}
+
+export class SessionManager {
+  private stores: SessionStore[]
+  private session?: SessionState
+  private isStarted = false
+  private pendingNotifications: Parameters<SessionListener>[] = []
+
+  constructor(private config: SessionConfig = {}, private listener?: SessionListener) {
+    this.stores = this.createStores()
+  }
+
+  private createStores(): SessionStore[] {
+    const stores: SessionStore[] = []
+
+    try {
+      if (this.config.storage !== 'cookie' && typeof window !== 'undefined' && window.sessionStorage) {
+        stores.push(new SessionStorageStore())
+      }
+    } catch {
+      // Accessing sessionStorage throws when storage is disabled
+    }
+
+    if (typeof document !== 'undefined') {
+      stores.push(new CookieStore(this.config.cookieDomain))
+    }
+
+    stores.push(new MemoryStore())
+    return stores
+  }
+
+  /**
+   * Start reporting session events (events raised before this are delivered now)
+   */
+  start(): void {
+    this.isStarted = true
+    this.getSession()
+
+    const pending = this.pendingNotifications
+    this.pendingNotifications = []
+    pending.forEach(args => this.listener?.(...args))
+  }
+
+  stop(): void {
+    this.isStarted = false
+  }
+
+  /**
+   * Current session, rolled over if it expired through inactivity or max duration
+   * The store is read on every access: with a cookie, other tabs extend, count and roll over the same session
+   */
+  getSession(): SessionState {
+    const session = this.read() || this.session
+    if (!session) {
+      return this.rollOver()
+    }
+
+    const reason = this.getExpiryReason(session, Date.now())
+    if (reason) {
+      return this.rollOver(session, reason)
+    }
+
+    this.session = session
+    return session
+  }
+
+  getSessionId(): string {
+    return this.getSession().id
+  }
+
+  /**
+   * Count an event towards the session and extend it
+   */
+  recordActivity(): void {
+    const session = this.getSession()
+    this.write({ ...session, eventCount: session.eventCount + 1, lastActivityAt: Date.now() })
+  }
+
+  /**
+   * End the current session now (e.g. on logout) - the next access starts a new one
+   */
+  endSession(): void {
+    const session = this.read() || this.session
+    if (!session) return
+
+    this.rollOver(session, 'manual')
+  }
+
+  /**
+   * Session ID persisted by a previous page or instance, without starting a new session
+   */
+  static getStoredSessionId(): string | undefined {
+    return new SessionManager().read()?.id
+  }
+
+  private getExpiryReason(session: SessionState, now: number): SessionEndReason | undefined {
+    if (now - session.lastActivityAt > (this.config.inactivityTimeout ?? DEFAULT_INACTIVITY_TIMEOUT)) {
+      return 'inactivity'
+    }
+    if (now - session.startedAt > (this.config.maxDuration ?? DEFAULT_MAX_DURATION)) {
+      return 'max_duration'
+    }
+    return undefined
+  }
+
+  private rollOver(previous?: SessionState, reason?: SessionEndReason): SessionState {
+    const now = Date.now()
+    const session: SessionState = {
+      id: generateSessionId(),
+      startedAt: now,
+      lastActivityAt: now,
+      eventCount: 0
+    }
+
+    // Switch before notifying so listeners reading the session see the new one
+    this.write(session)
+
+    if (previous) {
+      this.notify('end', previous, reason)
+    }
+    this.notify('start', session)
+    return session
+  }
+
+  private notify(...args: Parameters<SessionListener>): void {
+    if (this.isStarted) {
+      this.listener?.(...args)
+    } else {
+      this.pendingNotifications.push(args)
+    }
+  }
+
+  private read(): SessionState | undefined {
+    for (const store of this.stores) {
+      try {
+        const session = store.read()
+        if (session) return session
+      } catch {
+        // Unreadable or corrupt entry - try the next store
+      }
+    }
+    return undefined
+  }
+
+  private write(session: SessionState): void {
+    // Another tab may have counted events on the same session since it was read
+    const stored = this.read()
+    if (stored?.id === session.id) {
+      session = {
+        ...session,
+        eventCount: Math.max(session.eventCount, stored.eventCount),
+        lastActivityAt: Math.max(session.lastActivityAt, stored.lastActivityAt)
+      }
+    }
+    this.session = session
+
+    // Fall back to the next store when one fails (private mode, quota exceeded, ...)
+    while (this.stores.length > 1) {
+      try {
+        this.stores[0].write(session)
+        return
+      } catch {
+        this.stores.shift()
+      }
+    }
+    this.stores[0].write(session)
+  }
+}
+
+function generateSessionId(): string {
+  const cryptoApi = typeof globalThis !== 'undefined' ? (globalThis as any).crypto : undefined
+
+  if (cryptoApi?.randomUUID) {
+    return cryptoApi.randomUUID()
+  }
+
+  const bytes = new Uint8Array(16)
+  if (cryptoApi?.getRandomValues) {
+    cryptoApi.getRandomValues(bytes)
+  } else {
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = Math.floor(Math.random() * 256)
+    }
+  }
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+}
\ No newline at end of file
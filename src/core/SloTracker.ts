@@ -0,0 +1,185 @@
+/**
+ * Client-side SLOs per domain and feature
+ * Keeps rolling windows of request outcomes and reports when the latency or error budget
+ * burns faster than allowed in every window, and when it recovers
+ */
+
+import type { DomainConfig, SloConfig } from '../types'
+
+const DEFAULT_WINDOWS = [5 * 60 * 1000, 60 * 60 * 1000]
+const DEFAULT_LATENCY_OBJECTIVE = 0.95
+const DEFAULT_BURN_RATE_THRESHOLD = 2
+const DEFAULT_MIN_REQUESTS = 10
+// Keeps burn rates finite for a 100% objective
+const MIN_ALLOWED_BAD = 0.0001
+
+export type SloType = 'latency' | 'error_rate'
+
+export interface SloObjectiveState {
+  type: SloType
+  // Target share of good requests
+  objective: number
+  // Share of good requests over the budget period (the longest window)
+  compliance: number
+  // Share of the error budget left in the budget period, 0 when spent
+  budgetRemaining: number
+  // Burn rate per window ('5m', '60m', ...); 1 spends exactly the budget over the window
+  burnRates: Record<string, number>
+  breached: boolean
+}
+
+export interface SloState {
+  domain: string
+  // Undefined for the domain-wide SLO
+  feature?: string
+  // Requests in the budget period
+  requests: number
+  latency: SloObjectiveState & { targetMs: number }
+  errors: SloObjectiveState
+}
+
+export interface SloListener {
+  (type: 'breach' | 'recovered', state: SloState, objective: SloObjectiveState): void
+}
+
+interface Sample {
+  timestamp: number
+  failed: boolean
+  slow: boolean
+}
+
+interface SloSeries {
+  domain: DomainConfig
+  feature?: string
+  samples: Sample[]
+  breached: Set<SloType>
+}
+
+export class SloTracker {
+  private domains: Map<string, DomainConfig>
+  private series: Map<string, SloSeries> = new Map()
+  private windows: number[]
+
+  constructor(domains: DomainConfig[], private config: SloConfig = {}, private listener?: SloListener) {
+    this.domains = new Map(domains.map(domain => [domain.name, domain]))
+    this.windows = [...(config.windows || DEFAULT_WINDOWS)].sort((a, b) => a - b)
+  }
+
+  /**
+   * Record a request outcome for the domain-wide SLO and the feature's SLO
+   */
+  record(domainName: string, feature: string | undefined, duration: number, success: boolean): void {
+    const domain = this.domains.get(domainName)
+    if (!domain) return
+
+    const sample = {
+      timestamp: Date.now(),
+      failed: !success,
+      // Latency is only judged on successful requests
+      slow: success && duration > domain.slaTarget
+    }
+
+    const features = feature ? [undefined, feature] : [undefined]
+    features.forEach(name => {
+      const key = this.getKey(domainName, name)
+      const series = this.series.get(key) || { domain, feature: name, samples: [], breached: new Set<SloType>() }
+      this.series.set(key, series)
+
+      series.samples.push(sample)
+      this.evaluate(series)
+    })
+  }
+
+  getState(domainName: string, feature?: string): SloState | undefined {
+    const series = this.series.get(this.getKey(domainName, feature))
+    return series && this.computeState(series, Date.now())
+  }
+
+  getStates(): SloState[] {
+    const now = Date.now()
+    return Array.from(this.series.values()).map(series => this.computeState(series, now))
+  }
+
+  private evaluate(series: SloSeries): void {
+    const now = Date.now()
+    const budgetPeriod = this.windows[this.windows.length - 1]
+    series.samples = series.samples.filter(sample => now - sample.timestamp <= budgetPeriod)
+
+    const state = this.computeState(series, now)
+    const objectives = [state.latency, state.errors]
+
+    objectives.forEach(objective => {
+      const wasBreached = series.breached.has(objective.type)
+      if (objective.breached === wasBreached) return
+
+      if (objective.breached) {
+        series.breached.add(objective.type)
+      } else {
+        series.breached.delete(objective.type)
+      }
+      this.listener?.(objective.breached ? 'breach' : 'recovered', state, objective)
+    })
+  }
+
+  private computeState(series: SloSeries, now: number): SloState {
+    const { domain, samples } = series
+    const budgetPeriod = this.windows[this.windows.length - 1]
+    const latencyObjective = this.config.latencyObjective ?? DEFAULT_LATENCY_OBJECTIVE
+
+    return {
+      domain: domain.name,
+      feature: series.feature,
+      requests: samples.filter(sample => now - sample.timestamp <= budgetPeriod).length,
+      latency: {
+        ...this.computeObjective(series, now, 'latency', latencyObjective),
+        targetMs: domain.slaTarget
+      },
+      // errorThreshold is a percentage
+      errors: this.computeObjective(series, now, 'error_rate', 1 - domain.errorThreshold / 100)
+    }
+  }
+
+  private computeObjective(series: SloSeries, now: number, type: SloType, objective: number): SloObjectiveState {
+    const allowedBad = Math.max(1 - objective, MIN_ALLOWED_BAD)
+    const threshold = this.config.burnRateThreshold ?? DEFAULT_BURN_RATE_THRESHOLD
+    const minRequests = this.config.minRequests ?? DEFAULT_MIN_REQUESTS
+    const relevant = type === 'latency' ? series.samples.filter(sample => !sample.failed) : series.samples
+
+    const windows = this.windows.map(window => {
+      const inWindow = relevant.filter(sample => now - sample.timestamp <= window)
+      const bad = inWindow.filter(sample => type === 'latency' ? sample.slow : sample.failed).length
+      const badRatio = inWindow.length > 0 ? bad / inWindow.length : 0
+      return { window, total: inWindow.length, badRatio, burnRate: badRatio / allowedBad }
+    })
+
+    const shortest = windows[0]
+    const budget = windows[windows.length - 1]
+    const burning = windows.every(w => w.total >= minRequests && w.burnRate >= threshold)
+    // Once breached, only a calm short window with enough traffic counts as recovery
+    const breached = series.breached.has(type)
+      ? !(shortest.total >= minRequests && shortest.burnRate < threshold)
+      : burning
+
+    return {
+      type,
+      objective,
+      compliance: round(1 - budget.badRatio, 4),
+      budgetRemaining: round(Math.max(0, 1 - budget.burnRate), 4),
+      burnRates: Object.fromEntries(windows.map(w => [formatWindow(w.window), round(w.burnRate, 2)])),
+      breached
+    }
+  }
+
+  private getKey(domain: string, feature?: string): string {
+    return feature ? `${domain}:${feature}` : domain
+  }
+}
+
+function formatWindow(ms: number): string {
+  return ms % 60000 === 0 ? `${ms / 60000}m` : `${Math.round(ms / 1000)}s`
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
\ No newline at end of file
@@ -3,62 +3,90 @@
  * Solves the "signal vs noise" problem in frontend monitoring
  */
 
+import { SessionManager } from './SessionManager'
+import { getStackUrls } from './GlobalErrorHandler'
+import type { InteractionTracker } from './InteractionTracker'
+import { PATTERN_PACKS, LATEST_PATTERN_PACK, buildPatternSet, type PatternSetName } from './PatternPacks'
 import type { TelemetryEvent, UserContext, FilterConfig, FilterFunction } from '../types'
 
+// Browsers hide the details of errors from cross-origin scripts loaded without CORS
+const SCRIPT_ERROR = /^Script error\.?$/
+
+export interface PatternMatch {
+  set: PatternSetName
+  pattern: RegExp
+}
+
 export class Filter {
   private config: FilterConfig
   private botPatterns: RegExp[]
   private extensionPatterns: RegExp[]
   private noisePatterns: RegExp[]
+  private patternVersion = LATEST_PATTERN_PACK
 
-  constructor(config: FilterConfig) {
+  constructor(config: FilterConfig, private interactions?: InteractionTracker) {
     this.config = config
     this.initializePatterns()
   }
 
   private initializePatterns() {
+    const patterns = this.config.patterns || {}
+    this.patternVersion = patterns.version || LATEST_PATTERN_PACK
+
+    if (!PATTERN_PACKS[this.patternVersion]) {
+      console.warn(`[Filter] Unknown pattern pack "${this.patternVersion}", using ${LATEST_PATTERN_PACK}`)
+      this.patternVersion = LATEST_PATTERN_PACK
+    }
+    const pack = PATTERN_PACKS[this.patternVersion]
+
     // Bot detection patterns
-    this.botPatterns = [
-      /bot/i, /crawler/i, /spider/i, /scraper/i,
-      /phantom/i, /headless/i, /selenium/i,
-      /puppeteer/i, /playwright/i,
-      /googlebot/i, /bingbot/i, /slurp/i,
-      /facebookexternalhit/i, /twitterbot/i,
-      /linkedinbot/i, /whatsapp/i, /telegrambot/i
-    ]
+    this.botPatterns = buildPatternSet(pack.bot, patterns.bot)
 
     // Browser extension patterns
-    this.extensionPatterns = [
-      /chrome-extension:/i, /moz-extension:/i, /safari-extension:/i,
-      /extension\//i, /addon/i, /greasemonkey/i,
-      /tampermonkey/i, /adblock/i, /ublock/i,
-      /ghostery/i, /privacy/i, /disconnect/i
-    ]
+    this.extensionPatterns = buildPatternSet(pack.extension, patterns.extension)
 
-    // Noise URL patterns  
-    this.noisePatterns = [
-      /\.css(\?|$)/, /\.js(\?|$)/, /\.png(\?|$)/, 
-      /\.jpg(\?|$)/, /\.gif(\?|$)/, /\.svg(\?|$)/,
-      /\.woff(\?|$)/, /\.ttf(\?|$)/, /\.ico(\?|$)/,
-      /favicon/, /manifest\.json/, /robots\.txt/,
-      /sw\.js/, /service-worker/, /workbox/
+    // Noise URL patterns
+    this.noisePatterns = buildPatternSet(pack.noise, patterns.noise)
+  }
+
+  /**
+   * Which bot, extension and noise patterns match a URL or user agent - handy to debug why events are dropped
+   */
+  test(value: string): PatternMatch[] {
+    const sets: [PatternSetName, RegExp[]][] = [
+      ['bot', this.botPatterns],
+      ['extension', this.extensionPatterns],
+      ['noise', this.noisePatterns]
     ]
+
+    return sets.flatMap(([set, patterns]) => patterns
+      .filter(pattern => pattern.test(value))
+      .map(pattern => ({ set, pattern })))
   }
 
   /**
    * Main filtering method - determines if event should be processed
    */
   shouldProcess(event: TelemetryEvent, context: UserContext): boolean {
-    // Always process errors and critical events
-    if (event.severity === 'error' || event.severity === 'critical') {
-      return true
+    // Errors thrown by extension scripts are noise even though errors are otherwise always kept
+    if (this.config.excludeExtensions && event.eventType === 'error' && this.isExtensionError(event)) {
+      return false
+    }
+
+    if (this.config.excludeThirdPartyErrors && event.eventType === 'error' && this.isThirdPartyError(event)) {
+      return false
     }
 
-    // Apply bot detection
+    // Bots produce nothing worth keeping, errors included
     if (this.config.enableBotDetection && this.isBotSession(context)) {
       return false
     }
 
+    // Always process errors and critical events
+    if (event.severity === 'error' || event.severity === 'critical') {
+      return true
+    }
+
     // Apply domain whitelist
     if (!this.isDomainAllowed(event)) {
       return false
@@ -146,11 +174,8 @@ export class Filter {
   }
 
   private hasUnusualSessionCharacteristics(context: UserContext): boolean {
-    // Very fast interactions (< 100ms between events)
-    // This would be implemented with session tracking
-    
-    // No mouse movements or scrolling
-    // This would require additional event tracking
+    // Scripted pointer movement, clicks or typing seen during the observation window
+    if (this.interactions?.getDecision() === 'bot') return true
     
     // Suspicious device characteristics
     if (screen.width === 0 || screen.height === 0) return true
@@ -188,6 +213,43 @@ export class Filter {
     )
   }
 
+  /**
+   * Check if an error was thrown by an extension script - only the URL of the throwing script
+   * is checked, extensions that wrap fetch or timers also appear further down app stacks
+   */
+  private isExtensionError(event: TelemetryEvent): boolean {
+    const source = event.attributes['error.filename'] || getStackUrls(event.attributes['error.stack'])[0]
+    return typeof source === 'string' && this.extensionPatterns.some(pattern => pattern.test(source))
+  }
+
+  /**
+   * Check if an error only involves third-party scripts (ad tags, chat widgets, ...)
+   * Errors without any URL to judge by are kept, except opaque cross-origin "Script error."
+   */
+  private isThirdPartyError(event: TelemetryEvent): boolean {
+    const attributes = event.attributes
+    if (typeof attributes['error.message'] === 'string' && SCRIPT_ERROR.test(attributes['error.message'])) {
+      return true
+    }
+
+    const urls = [attributes['error.filename'], attributes['http.url'], ...getStackUrls(attributes['error.stack'])]
+      .map(url => parseUrl(url))
+      .filter((url): url is URL => url !== undefined)
+
+    return urls.length > 0 && !urls.some(url => this.isFirstPartyUrl(url))
+  }
+
+  private isFirstPartyUrl(url: URL): boolean {
+    const pageOrigin = parseUrl(getPageUrl())?.origin
+    if (url.origin === pageOrigin) return true
+
+    const origins = this.config.firstPartyOrigins || []
+    const scripts = this.config.firstPartyScripts || []
+
+    return origins.some(origin => typeof origin === 'string' ? parseUrl(origin)?.origin === url.origin : origin.test(url.href)) ||
+      scripts.some(script => typeof script === 'string' ? url.href.startsWith(script) : script.test(url.href))
+  }
+
   /**
    * Determine if current session represents a real user
    */
@@ -202,25 +264,20 @@ export class Filter {
   }
 
   private hasRealUserIndicators(): boolean {
+    // Observed interaction decides once the observation window is over
+    const decision = this.interactions?.getDecision()
+    if (decision && decision !== 'pending') return decision === 'human'
+
     // Has touch capability (mobile users)
     if ('ontouchstart' in window) return true
 
-    // Has made mouse movements (this would require tracking)
-    // For now, assume real user if not detected as bot
-
     // Has proper viewport
-    if (typeof window !== 'undefined' && window.innerWidth > 0 && window.innerHeight > 0) return true
-
-    // Has normal timezone
-    const timezoneOffset = new Date().getTimezoneOffset()
-    if (timezoneOffset >= -720 && timezoneOffset <= 720) return true
-
-    return true
+    return window.innerWidth > 0 && window.innerHeight > 0
   }
 
   private createDefaultContext(): UserContext {
     return {
-      sessionId: `session_${Date.now()}`,
+      sessionId: SessionManager.getStoredSessionId() || 'unknown',
       userSegment: 'anonymous',
       isAuthenticated: false,
       deviceType: /Mobi|Android/i.test(navigator.userAgent) ? 'mobile' : 'desktop'
@@ -235,11 +292,13 @@ export class Filter {
       botPatternsCount: this.botPatterns.length,
       extensionPatternsCount: this.extensionPatterns.length,
       noisePatternsCount: this.noisePatterns.length,
+      patternVersion: this.patternVersion,
       samplingRate: this.config.samplingRate,
       config: {
         enableBotDetection: this.config.enableBotDetection,
         domainWhitelist: this.config.domainWhitelist,
-        excludeExtensions: this.config.excludeExtensions
+        excludeExtensions: this.config.excludeExtensions,
+        excludeThirdPartyErrors: this.config.excludeThirdPartyErrors
       }
     }
   }
@@ -261,8 +320,23 @@ export class Filter {
     this.config = { ...this.config, ...newConfig }
     if (newConfig.samplingRate !== undefined || 
         newConfig.enableBotDetection !== undefined ||
-        newConfig.excludeExtensions !== undefined) {
+        newConfig.excludeExtensions !== undefined ||
+        newConfig.patterns !== undefined) {
       this.initializePatterns()
     }
   }
+}
+
+function getPageUrl(): string {
+  return typeof window !== 'undefined' && window.location ? window.location.href : 'http://localhost/'
+}
+
+function parseUrl(url: unknown): URL | undefined {
+  if (typeof url !== 'string' || url === '') return undefined
+
+  try {
+    return new URL(url, getPageUrl())
+  } catch {
+    return undefined
+  }
 }
\ No newline at end of file
@@ -0,0 +1,199 @@
+/**
+ * Trace context propagation (W3C Trace Context and B3) for outgoing requests
+ * Headers are only sent to the page's own origin and explicitly allowed origins
+ */
+
+import { trace, type Context, type Span, type TextMapPropagator, type TextMapSetter } from '@opentelemetry/api'
+import type { TracePropagationConfig } from '../types'
+
+export interface TraceContext {
+  traceId: string
+  spanId: string
+  sampled: boolean
+  traceState?: string
+}
+
+const ALL_ZEROS = /^0+$/
+
+export class TracePropagator {
+  private allowedOrigins: (string | RegExp)[]
+
+  constructor(private config: TracePropagationConfig = {}) {
+    this.allowedOrigins = (config.allowedOrigins || []).map(origin =>
+      typeof origin === 'string' ? normalizeOrigin(origin) : origin
+    )
+  }
+
+  get formats(): NonNullable<TracePropagationConfig['formats']> {
+    return this.config.enabled === false ? [] : this.config.formats || ['w3c']
+  }
+
+  /**
+   * Same-origin requests always qualify; cross-origin ones must be allowlisted
+   */
+  shouldPropagate(url: string): boolean {
+    if (this.formats.length === 0) return false
+
+    const origin = getOrigin(url)
+    if (!origin) return false
+    if (origin === getPageOrigin()) return true
+
+    return this.allowedOrigins.some(allowed => {
+      if (typeof allowed === 'string') return allowed === origin
+      allowed.lastIndex = 0
+      return allowed.test(url)
+    })
+  }
+
+  /**
+   * Headers to add to a request to the given URL (empty when it may not receive them)
+   */
+  createHeaders(url: string, context: TraceContext): Record<string, string> {
+    if (!this.shouldPropagate(url)) return {}
+
+    const headers: Record<string, string> = {}
+    const flags = context.sampled ? '01' : '00'
+
+    if (this.formats.includes('w3c')) {
+      headers.traceparent = `00-${context.traceId}-${context.spanId}-${flags}`
+      if (context.traceState) headers.tracestate = context.traceState
+    }
+
+    if (this.formats.includes('b3')) {
+      headers.b3 = `${context.traceId}-${context.spanId}-${context.sampled ? '1' : '0'}`
+    }
+
+    return headers
+  }
+
+  /**
+   * URL patterns for the fetch/XHR auto-instrumentations (propagateTraceHeaderCorsUrls)
+   */
+  getCorsUrls(): RegExp[] {
+    if (this.formats.length === 0) return []
+
+    return this.allowedOrigins.map(allowed =>
+      typeof allowed === 'string' ? new RegExp(`^${escapeRegExp(allowed)}(?:[/?#]|$)`) : allowed
+    )
+  }
+}
+
+/**
+ * Single-header B3 propagator for the OpenTelemetry fetch/XHR instrumentations
+ */
+export class B3Propagator implements TextMapPropagator {
+  inject(context: Context, carrier: unknown, setter: TextMapSetter): void {
+    const spanContext = trace.getSpanContext(context)
+    if (!spanContext || !isValidTraceContext(spanContext)) return
+
+    const sampled = (spanContext.traceFlags & 1) === 1 ? '1' : '0'
+    setter.set(carrier, 'b3', `${spanContext.traceId}-${spanContext.spanId}-${sampled}`)
+  }
+
+  // Browsers only send context, they never receive it
+  extract(context: Context): Context {
+    return context
+  }
+
+  fields(): string[] {
+    return ['b3']
+  }
+}
+
+/**
+ * IDs of an OpenTelemetry span, or fresh ones when no tracer provider is registered
+ */
+export function getTraceContext(span: Span): TraceContext {
+  const spanContext = typeof span.spanContext === 'function' ? span.spanContext() : undefined
+
+  if (spanContext && isValidTraceContext(spanContext)) {
+    return {
+      traceId: spanContext.traceId,
+      spanId: spanContext.spanId,
+      sampled: (spanContext.traceFlags & 1) === 1,
+      traceState: spanContext.traceState?.serialize() || undefined
+    }
+  }
+
+  return {
+    traceId: generateHexId(32),
+    spanId: generateHexId(16),
+    sampled: true
+  }
+}
+
+/**
+ * Stable trace ID shared by the steps of one journey in one session
+ */
+export function getJourneyTraceId(sessionId: string, domain: string, journeyName: string): string {
+  const seed = `${sessionId}:${domain}:${journeyName}`
+  return hashToHex(seed, 1) + hashToHex(seed, 2)
+}
+
+export function generateHexId(length: number): string {
+  const bytes = new Uint8Array(length / 2)
+  const cryptoApi = typeof globalThis !== 'undefined' ? globalThis.crypto : undefined
+
+  if (cryptoApi?.getRandomValues) {
+    cryptoApi.getRandomValues(bytes)
+  } else {
+    for (let i = 0; i < bytes.length; i++) bytes[i] = Math.floor(Math.random() * 256)
+  }
+
+  const id = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+  // All-zero IDs are invalid in both W3C and B3
+  return ALL_ZEROS.test(id) ? generateHexId(length) : id
+}
+
+/**
+ * Lowercase hex ID of the given length, or undefined when the value is not a valid one
+ */
+export function normalizeId(id: unknown, length: number): string | undefined {
+  if (typeof id !== 'string' || id.length !== length || !/^[0-9a-f]+$/i.test(id) || ALL_ZEROS.test(id)) {
+    return undefined
+  }
+  return id.toLowerCase()
+}
+
+function hashToHex(value: string, seed: number): string {
+  // Two 32-bit FNV-1a rounds give a stable 16 hex character id
+  let h1 = 0x811c9dc5 ^ seed
+  let h2 = 0x01000193 ^ (seed * 31)
+  for (let i = 0; i < value.length; i++) {
+    h1 = Math.imul(h1 ^ value.charCodeAt(i), 0x01000193)
+    h2 = Math.imul(h2 ^ value.charCodeAt(i), 0x811c9dc5)
+  }
+  return (h1 >>> 0).toString(16).padStart(8, '0') + (h2 >>> 0).toString(16).padStart(8, '0')
+}
+
+function isValidTraceContext(context: { traceId: string; spanId: string }): boolean {
+  return /^[0-9a-f]{32}$/.test(context.traceId) && !ALL_ZEROS.test(context.traceId) &&
+    /^[0-9a-f]{16}$/.test(context.spanId) && !ALL_ZEROS.test(context.spanId)
+}
+
+function getPageOrigin(): string | undefined {
+  if (typeof location === 'undefined' || !location.href) return undefined
+  return getOrigin(location.href)
+}
+
+function getOrigin(url: string): string | undefined {
+  try {
+    const base = typeof location !== 'undefined' && location.href ? location.href : undefined
+    return new URL(url, base).origin
+  } catch {
+    return undefined
+  }
+}
+
+// Allowlist entries must be absolute, so they are not resolved against the page
+function normalizeOrigin(origin: string): string {
+  try {
+    return new URL(origin).origin
+  } catch {
+    return origin
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
\ No newline at end of file
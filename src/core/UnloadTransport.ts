@@ -0,0 +1,98 @@
+/**
+ * Delivery that survives page unload
+ * Uses navigator.sendBeacon when no auth headers are needed and fetch keepalive otherwise,
+ * keeping everything in flight under the 64KB limit both share
+ */
+
+import { chunkPayload, getByteLength } from './PayloadEncoder'
+import { getNativeFetch } from './NativeFetch'
+import type { TelemetryEvent } from '../types'
+
+export const MAX_UNLOAD_PAYLOAD_BYTES = 64 * 1024
+
+export interface UnloadRequest {
+  url: string
+  headers: Record<string, string>
+  events: TelemetryEvent[]
+  serialize: (events: TelemetryEvent[]) => string
+  // Receives events that were not sent: chunks beyond the in-flight limit right away and
+  // chunks the browser refused later. The page is unloading, so store them synchronously
+  onFailure?: (events: TelemetryEvent[]) => void
+}
+
+// Beacons are queued by the browser and sent after the page is gone, so their bytes stay
+// counted until the unload sequence is over: the page being shown again
+let beaconBytes = 0
+// Keepalive requests count until they settle
+let keepaliveBytes = 0
+let isWatchingVisibility = false
+
+/**
+ * Send the chunks that fit the in-flight limit, without waiting for responses
+ * Browsers reject beacons and keepalive requests beyond the limit, so the rest go to onFailure
+ */
+export function sendOnUnload(request: UnloadRequest): void {
+  const unsent: TelemetryEvent[] = []
+
+  chunkPayload(request.events, request.serialize, MAX_UNLOAD_PAYLOAD_BYTES).forEach(chunk => {
+    const bytes = getByteLength(chunk.body)
+    if (beaconBytes + keepaliveBytes + bytes > MAX_UNLOAD_PAYLOAD_BYTES) {
+      unsent.push(...chunk.events)
+      return
+    }
+
+    sendChunk(request.url, request.headers, chunk.body, bytes)
+      .catch(() => request.onFailure?.(chunk.events))
+  })
+
+  if (unsent.length > 0) {
+    request.onFailure?.(unsent)
+  }
+}
+
+function sendChunk(url: string, headers: Record<string, string>, body: string, bytes: number): Promise<void> {
+  const { 'Content-Type': contentType = 'application/json', ...otherHeaders } = headers
+
+  // sendBeacon can't set headers, so it only carries requests that need nothing beyond Content-Type
+  const canBeacon = Object.keys(otherHeaders).length === 0 &&
+    typeof navigator !== 'undefined' &&
+    typeof navigator.sendBeacon === 'function'
+
+  if (canBeacon && navigator.sendBeacon(url, new Blob([body], { type: contentType }))) {
+    holdBeaconBytes(bytes)
+    return Promise.resolve()
+  }
+
+  const fetchImpl = getNativeFetch()
+  if (!fetchImpl) {
+    return Promise.reject(new Error('No transport available for unload delivery'))
+  }
+
+  keepaliveBytes += bytes
+  return fetchImpl(url, { method: 'POST', headers, body, keepalive: true })
+    .then(response => {
+      if (!response.ok) {
+        throw new Error(`Unload delivery failed: ${response.status}`)
+      }
+    })
+    .finally(() => { keepaliveBytes -= bytes })
+}
+
+function holdBeaconBytes(bytes: number): void {
+  beaconBytes += bytes
+  if (isWatchingVisibility || typeof window === 'undefined' || typeof document === 'undefined') return
+
+  const release = () => {
+    if (document.visibilityState !== 'visible') return
+
+    beaconBytes = 0
+    document.removeEventListener('visibilitychange', release)
+    window.removeEventListener('pageshow', release)
+    isWatchingVisibility = false
+  }
+
+  // Tab switched back to, or page restored from the back/forward cache
+  document.addEventListener('visibilitychange', release)
+  window.addEventListener('pageshow', release)
+  isWatchingVisibility = true
+}
\ No newline at end of file
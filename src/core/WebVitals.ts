@@ -0,0 +1,288 @@
+/**
+ * Core Web Vitals (LCP, CLS, INP, FCP, TTFB) collected with PerformanceObserver
+ * Page-load metrics belong to the landing page; CLS and INP are kept per route so
+ * SPA pages are scored separately. Both cover the page lifetime: the worst value so far is
+ * reported each time the page is hidden, and again only when it got worse
+ */
+
+export type WebVitalName = 'LCP' | 'CLS' | 'INP' | 'FCP' | 'TTFB'
+export type WebVitalRating = 'good' | 'needs-improvement' | 'poor'
+
+export interface WebVitalMeasurement {
+  name: WebVitalName
+  value: number
+  rating: WebVitalRating
+  // Page URL when the measurement happened, used for domain attribution
+  url: string
+  // CSS selector of the element responsible (LCP element, largest shift, interaction target)
+  element?: string
+  // Event type of the slowest interaction (INP)
+  interactionType?: string
+  // Image or video URL of the LCP element
+  resourceUrl?: string
+}
+
+// [good, poor] upper bounds from web.dev
+export const WEB_VITAL_THRESHOLDS: Record<WebVitalName, [number, number]> = {
+  LCP: [2500, 4000],
+  CLS: [0.1, 0.25],
+  INP: [200, 500],
+  FCP: [1800, 3000],
+  TTFB: [800, 1800]
+}
+
+// Interactions faster than this are not reported by the browser anyway
+const INP_DURATION_THRESHOLD = 40
+// Longest interactions kept per route for the INP estimate
+const MAX_INTERACTIONS = 10
+
+interface LayoutShiftAccumulator {
+  url: string
+  value: number
+  element?: string
+  // Value sent on the last flush
+  reported?: number
+  session: { value: number, firstTime: number, lastTime: number, largestShift: number, element?: string }
+}
+
+interface Observation {
+  observer: PerformanceObserver
+  handle: (entries: PerformanceEntry[]) => void
+}
+
+interface Interaction {
+  id: number
+  duration: number
+  type: string
+  element?: string
+}
+
+interface InteractionAccumulator {
+  url: string
+  count: number
+  longest: Interaction[]
+  reported?: number
+}
+
+export class WebVitalsCollector {
+  private observers: Observation[] = []
+  private lcp?: { value: number, url: string, element?: string, resourceUrl?: string }
+  private lcpReported = false
+  private layoutShifts: Map<string, LayoutShiftAccumulator> = new Map()
+  private interactions: Map<string, InteractionAccumulator> = new Map()
+
+  private onInput = () => this.reportLcp()
+
+  constructor(private listener: (measurement: WebVitalMeasurement) => void) {}
+
+  start(): void {
+    if (this.observers.length > 0 || typeof PerformanceObserver === 'undefined') return
+
+    this.observe('navigation', entries => this.reportTtfb(entries[0] as PerformanceNavigationTiming))
+    this.observe('paint', entries => {
+      const fcp = entries.find(entry => entry.name === 'first-contentful-paint')
+      if (fcp) this.report('FCP', fcp.startTime, getPageUrl())
+    })
+    this.observe('largest-contentful-paint', entries => this.recordLcp(entries[entries.length - 1] as any))
+    this.observe('layout-shift', entries => entries.forEach(entry => this.recordLayoutShift(entry as any)))
+    this.observe('event', entries => entries.forEach(entry => this.recordInteraction(entry as any)), {
+      durationThreshold: INP_DURATION_THRESHOLD
+    })
+
+    // The LCP candidate is final once the user interacts
+    if (typeof window !== 'undefined') {
+      window.addEventListener('keydown', this.onInput, { capture: true, once: true })
+      window.addEventListener('pointerdown', this.onInput, { capture: true, once: true })
+    }
+  }
+
+  stop(): void {
+    this.observers.forEach(({ observer }) => observer.disconnect())
+    this.observers = []
+
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('keydown', this.onInput, { capture: true })
+      window.removeEventListener('pointerdown', this.onInput, { capture: true })
+    }
+  }
+
+  /**
+   * Report LCP and the CLS/INP collected so far; call when the page is hidden
+   * CLS and INP keep accumulating and are reported again if they change
+   */
+  flush(): void {
+    // Deliver entries the browser has queued but not dispatched yet
+    this.observers.forEach(({ observer, handle }) => handle(observer.takeRecords?.() || []))
+
+    this.reportLcp()
+
+    this.layoutShifts.forEach(shifts => {
+      if (shifts.value === shifts.reported) return
+
+      shifts.reported = shifts.value
+      this.report('CLS', shifts.value, shifts.url, { element: shifts.element })
+    })
+
+    this.interactions.forEach(accumulator => {
+      // Like the browser's INP: skip one of the longest interactions for every 50
+      const index = Math.min(Math.floor(accumulator.count / 50), accumulator.longest.length - 1)
+      const interaction = accumulator.longest[index]
+      if (interaction.duration === accumulator.reported) return
+
+      accumulator.reported = interaction.duration
+      this.report('INP', interaction.duration, accumulator.url, {
+        element: interaction.element,
+        interactionType: interaction.type
+      })
+    })
+  }
+
+  private observe(type: string, callback: (entries: PerformanceEntry[]) => void, options: Record<string, any> = {}): void {
+    if (PerformanceObserver.supportedEntryTypes && !PerformanceObserver.supportedEntryTypes.includes(type)) return
+
+    const handle = (entries: PerformanceEntry[]) => {
+      if (entries.length > 0) callback(entries)
+    }
+
+    try {
+      const observer = new PerformanceObserver(list => handle(list.getEntries()))
+      observer.observe({ type, buffered: true, ...options })
+      this.observers.push({ observer, handle })
+    } catch {
+      // Entry type not supported by this browser
+    }
+  }
+
+  private reportTtfb(entry?: PerformanceNavigationTiming): void {
+    if (!entry) return
+
+    // Prerendered pages count from activation
+    const value = Math.max(0, entry.responseStart - ((entry as any).activationStart || 0))
+    this.report('TTFB', value, getPageUrl())
+  }
+
+  private recordLcp(entry: { startTime: number, element?: Element | null, url?: string }): void {
+    if (this.lcpReported) return
+
+    this.lcp = {
+      value: entry.startTime,
+      url: getPageUrl(),
+      element: getSelector(entry.element),
+      resourceUrl: entry.url || undefined
+    }
+  }
+
+  private reportLcp(): void {
+    if (this.lcpReported || !this.lcp) return
+
+    this.lcpReported = true
+    this.report('LCP', this.lcp.value, this.lcp.url, { element: this.lcp.element, resourceUrl: this.lcp.resourceUrl })
+  }
+
+  private recordLayoutShift(entry: { value: number, startTime: number, hadRecentInput: boolean, sources?: { node?: Node | null }[] }): void {
+    if (entry.hadRecentInput) return
+
+    const url = getPageUrl()
+    const route = getRoute(url)
+    const shifts = this.layoutShifts.get(route) || {
+      url,
+      value: 0,
+      session: { value: 0, firstTime: entry.startTime, lastTime: entry.startTime, largestShift: 0 }
+    }
+    this.layoutShifts.set(route, shifts)
+
+    // Shifts less than 1s apart and within 5s form a session window; CLS is the worst window
+    const { session } = shifts
+    if (entry.startTime - session.lastTime >= 1000 || entry.startTime - session.firstTime >= 5000) {
+      shifts.session = { value: 0, firstTime: entry.startTime, lastTime: entry.startTime, largestShift: 0 }
+    }
+
+    const current = shifts.session
+    current.value += entry.value
+    current.lastTime = entry.startTime
+    if (entry.value > current.largestShift) {
+      current.largestShift = entry.value
+      current.element = getSelector(entry.sources?.find(source => source.node)?.node)
+    }
+
+    if (current.value > shifts.value) {
+      shifts.value = current.value
+      shifts.element = current.element
+    }
+  }
+
+  private recordInteraction(entry: { interactionId?: number, duration: number, name: string, target?: Node | null }): void {
+    if (!entry.interactionId) return
+
+    const url = getPageUrl()
+    const route = getRoute(url)
+    const accumulator = this.interactions.get(route) || { url, count: 0, longest: [] }
+    this.interactions.set(route, accumulator)
+
+    // A click fires several events with the same interaction ID; keep the longest
+    const existing = accumulator.longest.find(interaction => interaction.id === entry.interactionId)
+    if (existing) {
+      if (entry.duration > existing.duration) {
+        Object.assign(existing, { duration: entry.duration, type: entry.name, element: getSelector(entry.target) })
+      }
+    } else {
+      accumulator.count++
+      accumulator.longest.push({ id: entry.interactionId, duration: entry.duration, type: entry.name, element: getSelector(entry.target) })
+    }
+
+    accumulator.longest.sort((a, b) => b.duration - a.duration)
+    accumulator.longest.length = Math.min(accumulator.longest.length, MAX_INTERACTIONS)
+  }
+
+  private report(name: WebVitalName, value: number, url: string, attribution: Partial<WebVitalMeasurement> = {}): void {
+    const rounded = name === 'CLS' ? Math.round(value * 10000) / 10000 : Math.round(value)
+
+    this.listener({
+      name,
+      value: rounded,
+      rating: getRating(name, rounded),
+      url,
+      ...Object.fromEntries(Object.entries(attribution).filter(([, v]) => v !== undefined))
+    })
+  }
+}
+
+export function getRating(name: WebVitalName, value: number): WebVitalRating {
+  const [good, poor] = WEB_VITAL_THRESHOLDS[name]
+  if (value <= good) return 'good'
+  return value <= poor ? 'needs-improvement' : 'poor'
+}
+
+/**
+ * Short CSS selector for attribution, e.g. 'main>div.product-grid>img#hero'
+ */
+export function getSelector(node?: Node | null, depth = 3): string | undefined {
+  const parts: string[] = []
+  let element = node && node.nodeType === 1 ? node as Element : undefined
+
+  while (element && parts.length < depth && element.nodeName !== 'BODY' && element.nodeName !== 'HTML') {
+    const id = element.id ? `#${element.id}` : ''
+    const classes = !id && typeof element.className === 'string'
+      ? element.className.trim().split(/\s+/).filter(Boolean).slice(0, 2).map(name => `.${name}`).join('')
+      : ''
+    parts.unshift(`${element.nodeName.toLowerCase()}${id}${classes}`)
+
+    // An ID is unique enough
+    if (id) break
+    element = element.parentElement || undefined
+  }
+
+  return parts.length > 0 ? parts.join('>') : undefined
+}
+
+function getPageUrl(): string {
+  return typeof window !== 'undefined' && window.location ? window.location.href : ''
+}
+
+function getRoute(url: string): string {
+  try {
+    return new URL(url).pathname
+  } catch {
+    return url
+  }
+}
\ No newline at end of file
@@ -9,40 +9,156 @@ import { WebTracerProvider } from '@opentelemetry/sdk-trace-web'
 import { Resource } from '@opentelemetry/resources'
 import { SemanticResourceAttributes } from '@opentelemetry/semantic-conventions'
 import { getWebAutoInstrumentations } from '@opentelemetry/auto-instrumentations-web'
-
-import { Filter } from './core/SmartFilter'
-import { DomainInstrumentor } from './core/DomainInstrumentor'
+import { CompositePropagator, W3CTraceContextPropagator } from '@opentelemetry/core'
+import type { TextMapPropagator } from '@opentelemetry/api'
+
+import { Filter, type PatternMatch } from './core/SmartFilter'
+import { PATTERN_PACKS, LATEST_PATTERN_PACK, type PatternPack, type PatternSetName } from './core/PatternPacks'
+import { DomainInstrumentor, ApiResponseError } from './core/DomainInstrumentor'
+import { EventRouter } from './core/EventRouter'
+import { DomainResolver, DEFAULT_URL_RULES, type DomainMatch, type DomainExplanation } from './core/DomainResolver'
+import { wrapFetch } from './core/InstrumentedFetch'
+import { getNativeFetch } from './core/NativeFetch'
+import { TracePropagator, B3Propagator } from './core/TracePropagation'
 import { DatadogExporter } from './integrations/DatadogExporter'
 import { NewRelicExporter } from './integrations/NewRelicExporter'
+import { OtlpHttpExporter } from './integrations/OtlpHttpExporter'
+import { GrafanaExporter } from './integrations/GrafanaExporter'
+import { JaegerExporter } from './integrations/JaegerExporter'
+import { ConsoleExporter } from './integrations/ConsoleExporter'
+import { ExporterRegistry, exporterRegistry, registerExporter } from './core/ExporterRegistry'
+import { RetryPolicy, ExportHttpError } from './core/RetryPolicy'
+import { BatchExporter } from './core/BatchExporter'
+import type { ExportRequest, BatchExporterOptions } from './core/BatchExporter'
+import { PageLifecycle } from './core/PageLifecycle'
+import { SessionManager, type SessionState, type SessionEndReason } from './core/SessionManager'
+import { JourneyTracker, type JourneyProgress, type JourneyAbandonReason } from './core/JourneyTracker'
+import { SloTracker, type SloState, type SloObjectiveState } from './core/SloTracker'
+import { GlobalErrorHandler, getStackUrls, type CapturedError } from './core/GlobalErrorHandler'
+import { WebVitalsCollector, WEB_VITAL_THRESHOLDS, type WebVitalMeasurement } from './core/WebVitals'
+import { ErrorStormGuard, type ErrorStormSummary } from './core/ErrorStorm'
+import { ErrorDeduplicator, fingerprintError } from './core/ErrorFingerprint'
+import { InteractionTracker, type HumanityDecision, type InteractionSignals } from './core/InteractionTracker'
 
 import type { 
   ObservMetricsConfig, 
-  UserContext, 
-  DomainConfig, 
+  UserContext,
   TelemetryEvent,
   ExporterPlugin,
+  PlatformConfig,
+  ExporterRouting,
   DomainInstrumentor as IDomainInstrumentor
 } from './types'
 
+// Built-in exporters are registered the same way as custom ones
+exporterRegistry.register('datadog', () => new DatadogExporter())
+exporterRegistry.register('newrelic', () => new NewRelicExporter())
+exporterRegistry.register('otlp', () => new OtlpHttpExporter())
+exporterRegistry.register('grafana', () => new GrafanaExporter())
+exporterRegistry.register('jaeger', () => new JaegerExporter())
+exporterRegistry.register('console', () => new ConsoleExporter())
+
+// Events held while behavioral detection decides; the oldest are dropped beyond this
+const MAX_PENDING_EVENTS = 500
+
 export class ObservMetrics {
   private Filter: Filter
   private instrumentors: Map<string, DomainInstrumentor> = new Map()
-  private exporters: ExporterPlugin[] = []
+  private router: EventRouter = new EventRouter()
+  private platforms: PlatformConfig[]
   private events: TelemetryEvent[] = []
   private isInitialized = false
+  private lifecycle = new PageLifecycle(() => this.flushOnUnload())
+  private sessionManager?: SessionManager
+  private domainResolver: DomainResolver
+  private tracePropagator: TracePropagator
+  private journeyTracker?: JourneyTracker
+  private sloTracker?: SloTracker
+  private webVitals?: WebVitalsCollector
+  private routeResolver: DomainResolver
+  private errorHandler?: GlobalErrorHandler
+  private errorStorm: ErrorStormGuard
+  private errorDeduplicator?: ErrorDeduplicator
+  private interactionTracker?: InteractionTracker
+  // Events held until behavioral detection decides, with the step they resume at
+  private pendingEvents: { event: TelemetryEvent, resume: (event: TelemetryEvent) => void }[] = []
+  // Captured before this.fetch can be assigned over window.fetch
+  private nativeFetch?: typeof fetch
+
+  /**
+   * Drop-in fetch; requests matching a URL rule are instrumented by their domain
+   */
+  readonly fetch: typeof fetch
 
   constructor(private config: ObservMetricsConfig) {
-    // Ensure platform config has default values if not provided
     this.config = {
       userContext: {},
-      ...config,
-      platform: {
-        platform: 'console',
-        ...config.platform
-      }
+      ...config
+    }
+
+    // Accept a single platform or a list; fall back to the console exporter
+    const platforms = Array.isArray(config.platform) ? config.platform : [config.platform || {}]
+    this.platforms = (platforms.length > 0 ? platforms : [{}]).map(platform => ({
+      platform: 'console',
+      ...platform
+    }))
+    
+    // A sessionId passed in userContext means the app manages sessions itself
+    if (!this.config.userContext?.sessionId) {
+      this.sessionManager = new SessionManager(
+        this.config.session,
+        (type, session, reason) => this.emitSessionEvent(type, session, reason)
+      )
+    }
+    
+    if (this.config.journeyTracking?.enabled !== false) {
+      this.journeyTracker = new JourneyTracker(
+        this.config.journeyTracking,
+        () => this.getCurrentUserContext().sessionId,
+        (type, progress, reason) => this.emitJourneyEvent(type, progress, reason)
+      )
+    }
+    
+    if (this.config.slo?.enabled !== false) {
+      this.sloTracker = new SloTracker(
+        this.config.domains,
+        this.config.slo,
+        (type, state, objective) => this.emitSloEvent(type, state, objective)
+      )
+    }
+    
+    if (this.config.webVitals?.enabled !== false) {
+      this.webVitals = new WebVitalsCollector(measurement => this.emitWebVital(measurement))
+    }
+    
+    if (this.config.errorDeduplication?.enabled !== false) {
+      this.errorDeduplicator = new ErrorDeduplicator(this.config.errorDeduplication, event => this.exportEvent(event))
+    }
+    
+    if (this.config.errorCapture?.enabled) {
+      this.errorHandler = new GlobalErrorHandler(this.config.errorCapture, captured => this.captureError(captured))
     }
     
-    this.Filter = new Filter(this.config.filtering)
+    if (this.config.filtering.enableBotDetection && this.config.filtering.behavioralDetection?.enabled) {
+      this.interactionTracker = new InteractionTracker(
+        this.config.filtering.behavioralDetection,
+        (decision, score) => this.onHumanityDecision(decision, score)
+      )
+    }
+    
+    this.Filter = new Filter(this.config.filtering, this.interactionTracker)
+    this.errorStorm = new ErrorStormGuard(
+      this.config.filtering.errorThreshold,
+      this.config.filtering.errorStorm,
+      summary => this.emitErrorStorm(summary)
+    )
+    this.domainResolver = new DomainResolver(this.config.domains, this.config.urlRules)
+    this.routeResolver = this.config.webVitals?.routes
+      ? new DomainResolver(this.config.domains, this.config.webVitals.routes)
+      : this.domainResolver
+    this.tracePropagator = new TracePropagator(this.config.tracePropagation)
+    this.nativeFetch = this.config.fetch ?? getNativeFetch()
+    this.fetch = wrapFetch((url, method) => this.resolveInstrumentor(url, method), this.nativeFetch)
     this.setupExporters()
   }
 
@@ -56,7 +172,7 @@ export class ObservMetrics {
     }
 
     // Only initialize if we have real user session
-    if (!this.Filter.isRealUserSession()) {
+    if (!this.Filter.isRealUserSession(this.getCurrentUserContext())) {
       if (this.config.debug) {
         console.log('[ObservMetrics] Bot/automated session detected, skipping initialization')
       }
@@ -69,6 +185,24 @@ export class ObservMetrics {
       
       // Initialize domain instrumentors
       this.initializeDomainInstrumentors()
+
+      // Deliver pending batches before the page is hidden, unloaded or frozen
+      this.lifecycle.start()
+
+      // Hold events until interaction shows whether this is a real user (opt-in)
+      this.interactionTracker?.start()
+
+      // Observe page performance; pending LCP, CLS and INP are reported when the page is hidden
+      this.webVitals?.start()
+
+      // Report uncaught errors, rejections, failed resources and CSP violations (opt-in)
+      this.errorHandler?.start()
+
+      // Report session.start (and session.end for a session that expired since the last page)
+      this.sessionManager?.start()
+
+      // Abandon journeys left unfinished by an earlier session or page
+      this.journeyTracker?.start()
       
       this.isInitialized = true
       
@@ -96,6 +230,7 @@ export class ObservMetrics {
     const instrumentations = getWebAutoInstrumentations({
       // Configure auto-instrumentations with smart filtering
       '@opentelemetry/instrumentation-fetch': {
+        propagateTraceHeaderCorsUrls: this.tracePropagator.getCorsUrls(),
         requestHook: (span, request) => {
           // Apply smart filtering at the instrumentation level
           const event = this.createEventFromSpan(span, 'fetch')
@@ -111,6 +246,7 @@ export class ObservMetrics {
       },
       
       '@opentelemetry/instrumentation-xml-http-request': {
+        propagateTraceHeaderCorsUrls: this.tracePropagator.getCorsUrls(),
         requestHook: (span, request) => {
           const event = this.createEventFromSpan(span, 'xhr')
           if (!this.Filter.shouldProcess(event, this.getCurrentUserContext())) {
@@ -124,7 +260,7 @@ export class ObservMetrics {
     })
 
     // Register the provider and instrumentations
-    provider.register()
+    provider.register({ propagator: this.createPropagator() })
     instrumentations.forEach(instrumentation => {
       if ('enable' in instrumentation) {
         instrumentation.enable()
@@ -132,44 +268,92 @@ export class ObservMetrics {
     })
   }
 
+  // Same header formats for auto-instrumented fetch/XHR as for instrumentor API calls
+  private createPropagator(): TextMapPropagator {
+    const formats = this.tracePropagator.formats
+    return new CompositePropagator({
+      propagators: [
+        ...(formats.includes('w3c') ? [new W3CTraceContextPropagator()] : []),
+        ...(formats.includes('b3') ? [new B3Propagator()] : [])
+      ]
+    })
+  }
+
   private setupExporters(): void {
-    switch (this.config.platform.platform) {
-      case 'datadog':
-        const datadogExporter = new DatadogExporter()
-        datadogExporter.configure(this.config.platform)
-        this.exporters.push(datadogExporter)
-        break
-        
-      case 'newrelic':
-        const newrelicExporter = new NewRelicExporter()
-        newrelicExporter.configure(this.config.platform)
-        this.exporters.push(newrelicExporter)
-        break
-        
-      case 'console':
-      default:
-        // Console exporter for development/demo
-        this.exporters.push({
-          name: 'console',
-          configure: () => {},
-          export: async (events) => {
-            console.group(`[ObservMetrics] ${events.length} business events`)
-            events.forEach(event => {
-              const context = `[${event.domain}:${event.businessContext.businessImpact}]`
-              console.log(`${context} ${event.name}`, event.attributes)
-            })
-            console.groupEnd()
-          }
-        })
+    // Every platform gets its own exporter; routing rules decide which events it receives
+    this.platforms.forEach(platformConfig => {
+      this.router.addRoute(this.createExporter(platformConfig), platformConfig.routing)
+    })
+  }
+
+  private createExporter(platformConfig: PlatformConfig): ExporterPlugin {
+    if (!exporterRegistry.has(platformConfig.platform)) {
+      console.warn(`[ObservMetrics] No exporter registered for platform "${platformConfig.platform}", using console exporter`)
+      return exporterRegistry.create({ ...platformConfig, platform: 'console' })
     }
+
+    return exporterRegistry.create(platformConfig)
+  }
+
+  /**
+   * Add an exporter at runtime, either a plugin instance or a platform config
+   */
+  addExporter(exporter: ExporterPlugin | PlatformConfig, routing?: ExporterRouting): ExporterPlugin {
+    const plugin = 'export' in exporter ? exporter : this.createExporter(exporter)
+    const exporterRouting = routing || ('export' in exporter ? undefined : exporter.routing)
+
+    this.router.addRoute(plugin, exporterRouting)
+    return plugin
+  }
+
+  /**
+   * Remove exporters by name, destroying them so pending events are flushed
+   */
+  removeExporter(name: string): boolean {
+    const removed = this.router.removeRoutes(name)
+    removed.forEach(exporter => exporter.destroy?.())
+    return removed.length > 0
+  }
+
+  /**
+   * Flush all exporters that support it
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.router.getExporters().map(exporter => exporter.forceFlush?.()))
+  }
+
+  /**
+   * Hand pending batches to requests that survive page unload (sendBeacon / fetch keepalive)
+   */
+  private flushOnUnload(): void {
+    // Decide with what was observed so far so held events aren't lost
+    this.interactionTracker?.decide()
+    this.webVitals?.flush()
+    this.errorDeduplicator?.flush()
+    this.errorStorm.flush()
+
+    this.router.getExporters().forEach(exporter => {
+      if (exporter.flushOnUnload) {
+        exporter.flushOnUnload()
+      } else {
+        // Best effort for exporters without unload support
+        exporter.forceFlush?.()
+      }
+    })
   }
 
   private initializeDomainInstrumentors(): void {
     this.config.domains.forEach(domain => {
       const instrumentor = new DomainInstrumentor(
         domain,
-        this.getCurrentUserContext(),
-        (event) => this.handleTelemetryEvent(event)
+        () => this.getCurrentUserContext(),
+        (event) => this.handleTelemetryEvent(event),
+        {
+          fetch: this.nativeFetch,
+          propagator: this.tracePropagator,
+          journeyTracker: this.journeyTracker,
+          sloTracker: this.sloTracker
+        }
       )
       
       this.instrumentors.set(domain.name, instrumentor)
@@ -187,6 +371,27 @@ export class ObservMetrics {
     return instrumentor
   }
 
+  /**
+   * Resolve the domain and feature a request URL is attributed to
+   */
+  resolveDomain(url: string, method?: string): DomainMatch | null {
+    return this.domainResolver.resolve(url, method)
+  }
+
+  /**
+   * Debug helper listing every URL rule in precedence order and why it did or did not match
+   */
+  explainDomain(url: string, method?: string): DomainExplanation {
+    return this.domainResolver.explain(url, method)
+  }
+
+  // Instrumentors only exist once initialized; until then requests pass through
+  private resolveInstrumentor(url: string, method: string) {
+    const match = this.domainResolver.resolve(url, method)
+    const instrumentor = match && this.instrumentors.get(match.domain.name)
+    return instrumentor ? { instrumentor, feature: match.feature } : null
+  }
+
   /**
    * Convenience methods for common domains
    */
@@ -206,21 +411,15 @@ export class ObservMetrics {
    * Update user context (e.g., after login)
    */
   updateUserContext(newContext: Partial<UserContext>): void {
+    // Instrumentors resolve the context per event, so they pick this up immediately
     this.config.userContext = { ...this.config.userContext, ...newContext }
-    
-    // Update all instrumentors with new context
-    this.instrumentors.forEach(instrumentor => {
-      // Recreate instrumentor with new context
-      const domain = this.config.domains.find(d => d.name === instrumentor.getStats().domain)
-      if (domain) {
-        const newInstrumentor = new DomainInstrumentor(
-          domain,
-          this.getCurrentUserContext(),
-          (event) => this.handleTelemetryEvent(event)
-        )
-        this.instrumentors.set(domain.name, newInstrumentor)
-      }
-    })
+  }
+
+  /**
+   * End the current session (e.g. on logout) - the next event starts a new one
+   */
+  endSession(): void {
+    this.sessionManager?.endSession()
   }
 
   /**
@@ -240,11 +439,27 @@ export class ObservMetrics {
       eventsProcessed: this.events.length,
       filterStats: this.Filter.getStats(),
       userContext: this.getCurrentUserContext(),
-      exporters: this.exporters.map(e => e.name)
+      session: this.sessionManager ? { ...this.sessionManager.getSession() } : undefined,
+      slo: this.sloTracker?.getStates() || [],
+      errorStorms: this.errorStorm.getActiveStorms(),
+      humanity: this.interactionTracker ? {
+        decision: this.interactionTracker.getDecision(),
+        score: this.interactionTracker.getScore(),
+        signals: this.interactionTracker.getSignals()
+      } : undefined,
+      journeysInProgress: this.journeyTracker?.getInProgress().map(progress => `${progress.domain}.${progress.journey}`) || [],
+      exporters: this.router.getExporters().map(e => e.name),
+      exporterStats: Object.fromEntries(
+        this.router.getExporters()
+          .filter(exporter => exporter.getStats)
+          .map(exporter => [exporter.name, exporter.getStats!()])
+      )
     }
   }
 
   private handleTelemetryEvent(event: TelemetryEvent): void {
+    if (this.awaitHumanity(event, pending => this.handleTelemetryEvent(pending))) return
+
     const userContext = this.getCurrentUserContext()
     
     // Apply  filtering
@@ -255,11 +470,34 @@ export class ObservMetrics {
       return
     }
 
+    // Errors repeating faster than errorThreshold are counted and summarized instead
+    if (!this.errorStorm.shouldReport(event)) {
+      if (this.config.debug) {
+        console.log(`[ObservMetrics] Error suppressed during storm: ${event.name}`)
+      }
+      return
+    }
+
+    this.sessionManager?.recordActivity()
+
+    // Repeats of an error within the dedupe window go out as one event with occurrence counts
+    if (event.eventType === 'error' && this.errorDeduplicator) {
+      this.errorDeduplicator.add(event)
+      return
+    }
+
+    this.exportEvent(event)
+  }
+
+  private exportEvent(event: TelemetryEvent): void {
+    // Session, journey, SLO and storm events skip filtering, but not the bot decision
+    if (this.awaitHumanity(event, pending => this.exportEvent(pending))) return
+
     // Store event
     this.events.push(event)
     
-    // Export to configured platforms
-    this.exporters.forEach(async (exporter) => {
+    // Export to the platforms whose routing rules match this event
+    this.router.route(event).forEach(async (exporter) => {
       try {
         await exporter.export([event])
       } catch (error) {
@@ -268,9 +506,274 @@ export class ObservMetrics {
     })
   }
 
+  /**
+   * Hold events while behavioral detection is pending and drop them once the session is judged a bot
+   * Returns true when the event was held or dropped
+   */
+  private awaitHumanity(event: TelemetryEvent, resume: (event: TelemetryEvent) => void): boolean {
+    const decision = this.interactionTracker?.getDecision()
+    if (decision === 'pending') {
+      if (this.pendingEvents.length >= MAX_PENDING_EVENTS) this.pendingEvents.shift()
+      this.pendingEvents.push({ event, resume })
+      return true
+    }
+
+    if (decision === 'bot' && this.config.debug) {
+      console.log(`[ObservMetrics] Event dropped for bot session: ${event.name}`)
+    }
+    return decision === 'bot'
+  }
+
+  /**
+   * Resume held events now that the session is known to be a real user, or drop them for a bot
+   */
+  private onHumanityDecision(decision: HumanityDecision, score: number | undefined): void {
+    if (this.config.debug) {
+      console.log(`[ObservMetrics] Behavioral detection: ${decision} (humanity score ${score ?? 'n/a'}, ${this.pendingEvents.length} events held)`)
+    }
+
+    const pending = this.pendingEvents
+    this.pendingEvents = []
+    pending.forEach(({ event, resume }) => resume(event))
+  }
+
+  /**
+   * Report session start/end - bypasses filtering and sampling so session counts stay exact
+   */
+  private emitSessionEvent(type: 'start' | 'end', session: SessionState, reason?: SessionEndReason): void {
+    this.exportEvent({
+      id: `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: new Date(type === 'start' ? session.startedAt : session.lastActivityAt).toISOString(),
+      domain: 'session',
+      eventType: 'log',
+      name: `session.${type}`,
+      attributes: {
+        'session.id': session.id,
+        'session.started_at': new Date(session.startedAt).toISOString(),
+        'session.duration_ms': session.lastActivityAt - session.startedAt,
+        'session.event_count': session.eventCount,
+        ...(reason && { 'session.end_reason': reason }),
+        'user.session_id': session.id,
+        'user.segment': this.config.userContext?.userSegment || 'anonymous'
+      },
+      businessContext: {
+        domain: 'session',
+        businessImpact: 'engagement'
+      },
+      severity: 'info'
+    })
+
+    if (type === 'end') {
+      this.journeyTracker?.endSession(session.id)
+    }
+  }
+
+  /**
+   * Report journey completion/abandonment - bypasses filtering and sampling like session events
+   */
+  private emitJourneyEvent(type: 'completed' | 'abandoned', progress: JourneyProgress, reason?: JourneyAbandonReason): void {
+    const endedAt = type === 'completed' ? progress.lastActivityAt : Date.now()
+    const duration = progress.lastActivityAt - progress.startedAt
+    const overMax = progress.maxDuration !== undefined && duration > progress.maxDuration
+
+    this.exportEvent({
+      id: `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: new Date(endedAt).toISOString(),
+      domain: progress.domain,
+      eventType: 'log',
+      name: `journey.${type}`,
+      attributes: {
+        'domain.name': progress.domain,
+        'journey.name': progress.journey,
+        'journey.duration_ms': duration,
+        'journey.steps_completed': progress.steps.length,
+        'journey.step_sequence': progress.steps.join(' > '),
+        'journey.last_step': progress.lastStep,
+        'journey.furthest_step': progress.furthestStep,
+        'journey.furthest_step_number': progress.furthestStepNumber,
+        'journey.total_steps': progress.totalSteps,
+        // The declared step users never reached
+        ...(type === 'abandoned' && progress.nextStep && { 'journey.drop_off_step': progress.nextStep }),
+        ...(reason && { 'journey.abandon_reason': reason }),
+        ...(overMax && { 'journey.max_duration_ms': progress.maxDuration, 'journey.over_max': true }),
+        'user.session_id': progress.sessionId,
+        'user.segment': this.getCurrentUserContext().userSegment
+      },
+      businessContext: {
+        domain: progress.domain,
+        userJourney: progress.journey,
+        businessImpact: progress.businessImpact
+      },
+      severity: type === 'abandoned' || overMax ? 'warn' : 'info'
+    })
+  }
+
+  /**
+   * Report SLO breaches/recoveries - bypasses filtering and sampling so no transition is lost
+   */
+  private emitSloEvent(type: 'breach' | 'recovered', state: SloState, objective: SloObjectiveState): void {
+    const userContext = this.getCurrentUserContext()
+
+    this.exportEvent({
+      id: `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: new Date().toISOString(),
+      domain: state.domain,
+      eventType: 'log',
+      name: `slo.${type}`,
+      attributes: {
+        'domain.name': state.domain,
+        ...(state.feature && { 'business.feature': state.feature }),
+        'slo.type': objective.type,
+        'slo.objective': objective.objective,
+        ...(objective.type === 'latency' && { 'slo.target_ms': state.latency.targetMs }),
+        'slo.compliance': objective.compliance,
+        'slo.budget_remaining': objective.budgetRemaining,
+        'slo.requests': state.requests,
+        ...Object.fromEntries(Object.entries(objective.burnRates).map(([window, rate]) => [`slo.burn_rate_${window}`, rate])),
+        'user.session_id': userContext.sessionId,
+        'user.segment': userContext.userSegment
+      },
+      businessContext: {
+        domain: state.domain,
+        feature: state.feature,
+        businessImpact: objective.type === 'latency' ? 'performance' : 'reliability'
+      },
+      severity: type === 'breach' ? 'error' : 'info'
+    })
+  }
+
+  /**
+   * Report errors suppressed during a storm - bypasses filtering and sampling so counts stay exact
+   */
+  private emitErrorStorm(summary: ErrorStormSummary): void {
+    const userContext = this.getCurrentUserContext()
+
+    this.exportEvent({
+      id: `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: new Date().toISOString(),
+      domain: summary.domain,
+      eventType: 'log',
+      name: 'error.storm',
+      attributes: {
+        'domain.name': summary.domain,
+        'error.fingerprint': summary.fingerprint,
+        'error.type': summary.errorType,
+        'error.message': summary.message,
+        'error.storm.status': summary.status,
+        'error.storm.suppressed': summary.suppressed,
+        'error.storm.occurrences': summary.occurrences,
+        'error.storm.rate_per_minute': summary.ratePerMinute,
+        'error.storm.started_at': new Date(summary.startedAt).toISOString(),
+        'error.storm.duration_ms': summary.durationMs,
+        'user.session_id': userContext.sessionId,
+        'user.segment': userContext.userSegment
+      },
+      businessContext: {
+        domain: summary.domain,
+        businessImpact: 'reliability'
+      },
+      severity: summary.status === 'ongoing' ? 'error' : 'info'
+    })
+  }
+
+  /**
+   * Attribute a Web Vital to the domain and feature of the page it was measured on
+   */
+  private emitWebVital(measurement: WebVitalMeasurement): void {
+    const match = this.routeResolver.resolve(measurement.url)
+    const domain = match?.domain.name || 'unknown'
+    const userContext = this.getCurrentUserContext()
+
+    const name = `web_vitals.${measurement.name.toLowerCase()}`
+
+    this.handleTelemetryEvent({
+      id: `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: new Date().toISOString(),
+      domain,
+      eventType: 'metric',
+      name,
+      attributes: {
+        'domain.name': domain,
+        // Read by the exporters as the metric name and value
+        'metric.name': name,
+        'metric.value': measurement.value,
+        ...(match?.feature && { 'business.feature': match.feature }),
+        'web_vitals.name': measurement.name,
+        'web_vitals.value': measurement.value,
+        'web_vitals.rating': measurement.rating,
+        ...(measurement.element && { 'web_vitals.element': measurement.element }),
+        ...(measurement.interactionType && { 'web_vitals.interaction_type': measurement.interactionType }),
+        ...(measurement.resourceUrl && { 'web_vitals.resource_url': measurement.resourceUrl }),
+        'page.url': measurement.url,
+        'user.session_id': userContext.sessionId,
+        'user.segment': userContext.userSegment,
+        'user.device_type': userContext.deviceType
+      },
+      businessContext: {
+        domain,
+        feature: match?.feature,
+        businessImpact: 'performance'
+      },
+      severity: measurement.rating === 'poor' ? 'warn' : 'info'
+    })
+  }
+
+  /**
+   * Attribute a globally captured error to a domain by the current route, then by its stack
+   */
+  private captureError(captured: CapturedError): void {
+    const pageUrl = typeof window !== 'undefined' && window.location ? window.location.href : ''
+    const routeMatch = this.routeResolver.resolve(pageUrl)
+    const stackMatch = routeMatch ? null : [captured.filename, ...getStackUrls(captured.error.stack)]
+      .filter((url): url is string => !!url)
+      .map(url => this.domainResolver.resolve(url))
+      .find(match => match !== null)
+    const match = routeMatch || stackMatch
+
+    const context = {
+      'error.source': captured.source,
+      ...(captured.filename && { 'error.filename': captured.filename }),
+      ...(captured.line && { 'error.line': captured.line }),
+      ...(captured.column && { 'error.column': captured.column }),
+      ...(captured.element && { 'error.element': captured.element }),
+      ...(captured.directive && { 'error.csp_directive': captured.directive }),
+      'error.attribution': routeMatch ? 'route' : stackMatch ? 'stack' : 'none',
+      ...(match?.feature && { 'business.feature': match.feature }),
+      'page.url': pageUrl
+    }
+
+    const instrumentor = match && this.instrumentors.get(match.domain.name)
+    if (instrumentor) {
+      instrumentor.trackError(captured.error, context)
+      return
+    }
+
+    const userContext = this.getCurrentUserContext()
+    this.handleTelemetryEvent({
+      id: `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: new Date().toISOString(),
+      domain: 'unknown',
+      eventType: 'error',
+      name: 'unknown.error',
+      attributes: {
+        'error.type': captured.error.name,
+        'error.message': captured.error.message,
+        'error.stack': captured.error.stack,
+        ...context,
+        'user.session_id': userContext.sessionId,
+        'user.segment': userContext.userSegment
+      },
+      businessContext: {
+        domain: 'unknown',
+        businessImpact: 'reliability'
+      },
+      severity: 'error'
+    })
+  }
+
   private getCurrentUserContext(): UserContext {
     return {
-      sessionId: `session_${Date.now()}`,
+      sessionId: this.sessionManager ? this.sessionManager.getSessionId() : 'unknown',
       userSegment: 'anonymous',
       isAuthenticated: false,
       deviceType: /Mobi|Android/i.test(navigator.userAgent) ? 'mobile' : 'desktop',
@@ -294,40 +797,24 @@ export class ObservMetrics {
   }
 
   private enrichSpanWithBusinessContext(span: any, request: any): void {
-    // Add business context based on URL patterns
+    // Add business context based on URL rules
     const url = request.url || request.requestURL || ''
-    const domain = this.inferDomainFromUrl(url)
+    const match = this.domainResolver.resolve(url, request.method)
     
-    if (domain) {
+    if (match) {
       span.setAttributes({
-        'business.domain': domain.name,
-        'business.priority': domain.priority,
-        'business.sla_target': domain.slaTarget
+        'business.domain': match.domain.name,
+        'business.priority': match.domain.priority,
+        'business.sla_target': match.domain.slaTarget,
+        ...(match.feature && { 'business.feature': match.feature })
       })
     }
   }
 
-  private inferDomainFromUrl(url: string): DomainConfig | null {
-    // Simple domain inference based on URL patterns
-    if (url.includes('/auth/') || url.includes('/login') || url.includes('/register')) {
-      return this.config.domains.find(d => d.name === 'authentication') || null
-    }
-    
-    if (url.includes('/cart') || url.includes('/checkout') || url.includes('/payment')) {
-      return this.config.domains.find(d => d.name === 'ecommerce') || null
-    }
-    
-    if (url.includes('/search') || url.includes('/products') || url.includes('/content')) {
-      return this.config.domains.find(d => d.name === 'content') || null
-    }
-    
-    return null
-  }
-
   private logConfiguration(): void {
     console.group('[ObservMetrics] Configuration')
     console.log('Domains:', this.config.domains.map(d => `${d.name} (${d.priority})`))
-    console.log('Platform:', this.config.platform.platform)
+    console.log('Platforms:', this.platforms.map(p => p.platform))
     console.log('Filtering:', {
       botDetection: this.config.filtering.enableBotDetection,
       domainWhitelist: this.config.filtering.domainWhitelist,
@@ -341,21 +828,33 @@ export class ObservMetrics {
    * Cleanup resources
    */
   destroy(): void {
-    this.exporters.forEach(exporter => {
-      if ('destroy' in exporter && typeof exporter.destroy === 'function') {
-        exporter.destroy()
-      }
+    this.lifecycle.stop()
+    this.sessionManager?.stop()
+    this.journeyTracker?.stop()
+    // Report pending LCP/CLS/INP before the observers disconnect
+    this.webVitals?.flush()
+    this.webVitals?.stop()
+    this.errorHandler?.stop()
+    this.interactionTracker?.decide()
+    this.interactionTracker?.stop()
+    this.errorDeduplicator?.flush()
+    this.errorStorm.flush()
+    this.errorStorm.stop()
+
+    this.router.getExporters().forEach(exporter => {
+      exporter.destroy?.()
     })
     
     this.instrumentors.clear()
-    this.exporters = []
+    this.router.clear()
     this.events = []
     this.isInitialized = false
   }
 }
 
 // Re-export types and core classes
-export { Filter, DomainInstrumentor, DatadogExporter, NewRelicExporter }
+export { Filter, DomainInstrumentor, ApiResponseError, DomainResolver, DEFAULT_URL_RULES, TracePropagator, B3Propagator, EventRouter, ExporterRegistry, registerExporter, RetryPolicy, ExportHttpError, BatchExporter, SessionManager, JourneyTracker, SloTracker, WebVitalsCollector, WEB_VITAL_THRESHOLDS, GlobalErrorHandler, ErrorStormGuard, ErrorDeduplicator, fingerprintError, InteractionTracker, PATTERN_PACKS, LATEST_PATTERN_PACK }
+export { DatadogExporter, NewRelicExporter, OtlpHttpExporter, GrafanaExporter, JaegerExporter, ConsoleExporter }
 export type { 
   ObservMetricsConfig, 
   UserContext, 
@@ -363,10 +862,34 @@ export type {
   TelemetryEvent,
   BusinessContext,
   ApiCallContext,
+  JourneyStepOptions,
   InstrumentationResult,
   FilterConfig,
-  PlatformConfig
+  PlatformConfig,
+  ExporterRouting,
+  ExporterPlugin,
+  ExporterFactory,
+  RetryConfig,
+  SessionConfig,
+  UrlRule,
+  UrlMatcher,
+  TracePropagationConfig,
+  JourneyTrackingConfig,
+  SloConfig,
+  WebVitalsConfig,
+  ErrorCaptureConfig,
+  ErrorStormConfig,
+  ErrorDeduplicationConfig,
+  BehavioralDetectionConfig,
+  PatternConfig,
+  PatternSetConfig
 } from './types'
+export type { ExportRequest, BatchExporterOptions, DomainMatch, DomainExplanation, JourneyProgress, JourneyAbandonReason, SloState, SloObjectiveState, WebVitalMeasurement, CapturedError, ErrorStormSummary, HumanityDecision, InteractionSignals, PatternMatch, PatternPack, PatternSetName }
+
+// Standalone instrumented fetch, e.g. for HTTP clients that accept a fetch option
+export function createInstrumentedFetch(monitoring: ObservMetrics): typeof fetch {
+  return monitoring.fetch
+}
 
 // Factory function for easy initialization
 export function createObservMetrics(config: ObservMetricsConfig): ObservMetrics {
@@ -382,21 +905,42 @@ export const defaultConfigs = {
         priority: 'critical' as const,
         slaTarget: 2000,
         errorThreshold: 0.1,
-        features: ['login', 'register', 'profile']
+        features: ['login', 'register', 'profile'],
+        journeys: [
+          {
+            name: 'user_login_flow',
+            steps: ['load_login_page', 'enter_credentials', 'submit_login', 'redirect_dashboard'],
+            businessImpact: 'engagement' as const
+          }
+        ]
       },
       {
         name: 'ecommerce',
         priority: 'critical' as const,
         slaTarget: 3000,
         errorThreshold: 0.05,
-        features: ['cart', 'checkout', 'payment']
+        features: ['cart', 'checkout', 'payment'],
+        journeys: [
+          {
+            name: 'purchase_flow',
+            steps: ['add_to_cart', 'view_cart', 'enter_shipping', 'select_payment', 'complete_purchase'],
+            businessImpact: 'revenue' as const
+          }
+        ]
       },
       {
         name: 'content',
         priority: 'medium' as const,
         slaTarget: 2000,
         errorThreshold: 1.0,
-        features: ['search', 'browse', 'recommendations']
+        features: ['search', 'browse', 'recommendations'],
+        journeys: [
+          {
+            name: 'product_discovery',
+            steps: ['search_query', 'view_results', { name: 'filter_results', optional: true }, 'select_product'],
+            businessImpact: 'engagement' as const
+          }
+        ]
       }
     ],
     filtering: {
@@ -0,0 +1,21 @@
+/**
+ * Console exporter for development and demos
+ * Prints business events grouped per export call
+ */
+
+import type { TelemetryEvent, PlatformConfig, ExporterPlugin } from '../types'
+
+export class ConsoleExporter implements ExporterPlugin {
+  name = 'console'
+
+  configure(_config: PlatformConfig): void {}
+
+  async export(events: TelemetryEvent[]): Promise<void> {
+    console.group(`[ObservMetrics] ${events.length} business events`)
+    events.forEach(event => {
+      const context = `[${event.domain}:${event.businessContext.businessImpact}]`
+      console.log(`${context} ${event.name}`, event.attributes)
+    })
+    console.groupEnd()
+  }
+}
\ No newline at end of file
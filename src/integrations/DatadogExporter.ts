@@ -3,24 +3,25 @@
  * Exports clean, business-contextualized telemetry to Datadog RUM and APM
  */
 
-import type { TelemetryEvent, PlatformConfig, ExporterPlugin } from '../types'
+import { BatchExporter } from '../core/BatchExporter'
+import type { ExportRequest } from '../core/BatchExporter'
+import type { TelemetryEvent, PlatformConfig } from '../types'
 
-export class DatadogExporter implements ExporterPlugin {
+const MAX_PAYLOAD_BYTES = 5 * 1024 * 1024 // Datadog logs intake limit
+
+export class DatadogExporter extends BatchExporter {
   name = 'datadog'
-  private config: PlatformConfig
-  private batchedEvents: TelemetryEvent[] = []
-  private flushTimer?: NodeJS.Timeout
 
   constructor() {
-    this.config = {
+    super({
       platform: 'datadog',
       batchSize: 100,
       flushInterval: 5000
-    }
+    }, { label: 'DatadogExporter', maxPayloadBytes: MAX_PAYLOAD_BYTES })
   }
 
   configure(config: PlatformConfig): void {
-    this.config = { ...this.config, ...config }
+    super.configure(config)
     
     if (!this.config.apiKey) {
       console.warn('[DatadogExporter] No API key provided. Events will be logged to console.')
@@ -30,9 +31,6 @@ export class DatadogExporter implements ExporterPlugin {
     if (typeof window !== 'undefined' && this.config.apiKey) {
       this.initializeDatadogRUM()
     }
-
-    // Start flush timer
-    this.startFlushTimer()
   }
 
   private initializeDatadogRUM(): void {
@@ -61,55 +59,26 @@ export class DatadogExporter implements ExporterPlugin {
     */
   }
 
-  async export(events: TelemetryEvent[]): Promise<void> {
-    // Add events to batch
-    this.batchedEvents.push(...events)
-
-    // Flush if batch size reached
-    if (this.batchedEvents.length >= (this.config.batchSize || 100)) {
-      await this.flush()
-    }
+  protected isConfigured(): boolean {
+    return Boolean(this.config.apiKey && this.config.endpoint)
   }
 
-  private async flush(): Promise<void> {
-    if (this.batchedEvents.length === 0) return
-
-    const eventsToFlush = [...this.batchedEvents]
-    this.batchedEvents = []
-
-    try {
-      if (this.config.apiKey && this.config.endpoint) {
-        await this.sendToDatadog(eventsToFlush)
-      } else {
-        // Fallback to console logging with structured format
-        this.logToConsole(eventsToFlush)
-      }
-    } catch (error) {
-      console.error('[DatadogExporter] Failed to export events:', error)
-      
-      // Re-add events to batch for retry (implement retry logic)
-      this.batchedEvents.unshift(...eventsToFlush.slice(0, 50)) // Keep max 50 for retry
-    }
+  protected getRequests(events: TelemetryEvent[]): ExportRequest[] {
+    return [{
+      url: this.config.endpoint!,
+      headers: this.getRequestHeaders(),
+      events,
+      serialize: batch => JSON.stringify(batch.map(event => this.convertToDatadogFormat(event))),
+      api: 'Datadog API'
+    }]
   }
 
-  private async sendToDatadog(events: TelemetryEvent[]): Promise<void> {
-    const datadogEvents = events.map(event => this.convertToDatadogFormat(event))
-
-    const response = await fetch(this.config.endpoint!, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'DD-API-KEY': this.config.apiKey!,
-        ...this.config.customHeaders
-      },
-      body: JSON.stringify(datadogEvents)
-    })
-
-    if (!response.ok) {
-      throw new Error(`Datadog API error: ${response.status} ${response.statusText}`)
+  private getRequestHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'DD-API-KEY': this.config.apiKey!,
+      ...this.config.customHeaders
     }
-
-    console.log(`[DatadogExporter] Successfully exported ${events.length} events to Datadog`)
   }
 
   private convertToDatadogFormat(event: TelemetryEvent): any {
@@ -247,7 +216,7 @@ export class DatadogExporter implements ExporterPlugin {
     return relevant
   }
 
-  private logToConsole(events: TelemetryEvent[]): void {
+  protected logToConsole(events: TelemetryEvent[]): void {
     console.group(`[DatadogExporter] Exporting ${events.length} events (console fallback)`)
     
     events.forEach(event => {
@@ -277,38 +246,4 @@ export class DatadogExporter implements ExporterPlugin {
     }
     return levelMap[severity || 'info'] || 'log'
   }
-
-  private startFlushTimer(): void {
-    if (this.flushTimer) {
-      clearInterval(this.flushTimer)
-    }
-
-    this.flushTimer = setInterval(() => {
-      if (this.batchedEvents.length > 0) {
-        this.flush()
-      }
-    }, this.config.flushInterval || 5000)
-  }
-
-  /**
-   * Manual flush for immediate export
-   */
-  async forceFlush(): Promise<void> {
-    await this.flush()
-  }
-
-  /**
-   * Cleanup resources
-   */
-  destroy(): void {
-    if (this.flushTimer) {
-      clearInterval(this.flushTimer)
-      this.flushTimer = undefined
-    }
-    
-    // Flush remaining events
-    if (this.batchedEvents.length > 0) {
-      this.flush()
-    }
-  }
 }
\ No newline at end of file
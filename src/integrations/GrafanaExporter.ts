@@ -0,0 +1,266 @@
+/**
+ * Grafana integration for observ-metrics
+ * Pushes business-contextualized logs and errors to Loki using Grafana Faro payload shapes
+ */
+
+import { BatchExporter } from '../core/BatchExporter'
+import type { ExportRequest } from '../core/BatchExporter'
+import type { TelemetryEvent, PlatformConfig } from '../types'
+
+const APP_NAME = 'observ-metrics-app'
+const APP_VERSION = '1.0.0'
+const SDK = { name: 'observ-metrics', version: '1.0.0' }
+const LOKI_PUSH_PATH = '/loki/api/v1/push'
+const MAX_PAYLOAD_BYTES = 4 * 1024 * 1024 // Loki's default gRPC message size limit
+
+interface FaroStackFrame {
+  filename: string
+  function: string
+  lineno?: number
+  colno?: number
+}
+
+interface FaroPayload {
+  meta: Record<string, any>
+  logs: any[]
+  exceptions: any[]
+  measurements: any[]
+  events: any[]
+}
+
+export class GrafanaExporter extends BatchExporter {
+  name = 'grafana'
+
+  constructor() {
+    super({
+      platform: 'grafana',
+      batchSize: 50,
+      flushInterval: 5000
+    }, { label: 'GrafanaExporter', maxPayloadBytes: MAX_PAYLOAD_BYTES })
+  }
+
+  configure(config: PlatformConfig): void {
+    super.configure(config)
+
+    if (!this.config.endpoint) {
+      console.warn('[GrafanaExporter] No Loki or Faro collector endpoint provided. Events will be logged to console.')
+    }
+  }
+
+  // Loki is a log store - only logs and errors are pushed
+  protected accepts(event: TelemetryEvent): boolean {
+    return event.eventType === 'log' || event.eventType === 'error'
+  }
+
+  protected isConfigured(): boolean {
+    return Boolean(this.config.endpoint)
+  }
+
+  protected getRequests(events: TelemetryEvent[]): ExportRequest[] {
+    return [{
+      url: this.getPushUrl(),
+      headers: this.getRequestHeaders(),
+      events,
+      serialize: batch => this.serialize(batch),
+      api: `Grafana ${this.isFaroCollector() ? 'Faro' : 'Loki'} API`
+    }]
+  }
+
+  /**
+   * Faro collector endpoints (".../collect/<app-key>") accept the Faro payload as-is,
+   * anything else is treated as a Loki base URL
+   */
+  private isFaroCollector(): boolean {
+    return /\/collect(\/|$)/.test(this.config.endpoint!)
+  }
+
+  private getPushUrl(): string {
+    return this.isFaroCollector() ? this.config.endpoint! : this.getLokiPushUrl()
+  }
+
+  private serialize(events: TelemetryEvent[]): string {
+    return JSON.stringify(this.isFaroCollector() ? this.convertToFaroPayload(events) : this.convertToLokiPush(events))
+  }
+
+  private getRequestHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.config.apiKey && { 'Authorization': `Bearer ${this.config.apiKey}` }),
+      ...this.config.customHeaders
+    }
+  }
+
+  private getLokiPushUrl(): string {
+    const endpoint = this.config.endpoint!.replace(/\/+$/, '')
+    return endpoint.endsWith(LOKI_PUSH_PATH) ? endpoint : `${endpoint}${LOKI_PUSH_PATH}`
+  }
+
+  /**
+   * Convert events to a Loki push request, one stream per label set
+   */
+  convertToLokiPush(events: TelemetryEvent[]): { streams: Array<{ stream: Record<string, string>, values: [string, string][] }> } {
+    const meta = this.createFaroMeta(events)
+    const streams = new Map<string, { stream: Record<string, string>, values: [string, string][] }>()
+
+    events.forEach(event => {
+      const labels = this.createLokiLabels(event)
+      const key = JSON.stringify(labels)
+      const stream = streams.get(key) || { stream: labels, values: [] }
+
+      // Each log line carries the Faro item so Faro-aware dashboards can parse it with `| json`
+      const item = event.eventType === 'error' ? this.convertToFaroException(event) : this.convertToFaroLog(event)
+      stream.values.push([this.toUnixNano(event.timestamp), JSON.stringify({ ...item, meta })])
+      streams.set(key, stream)
+    })
+
+    return { streams: Array.from(streams.values()) }
+  }
+
+  /**
+   * Convert events to a Grafana Faro collector payload
+   */
+  convertToFaroPayload(events: TelemetryEvent[]): FaroPayload {
+    return {
+      meta: this.createFaroMeta(events),
+      logs: events.filter(e => e.eventType === 'log').map(event => this.convertToFaroLog(event)),
+      exceptions: events.filter(e => e.eventType === 'error').map(event => this.convertToFaroException(event)),
+      measurements: [],
+      events: []
+    }
+  }
+
+  private createLokiLabels(event: TelemetryEvent): Record<string, string> {
+    // Keep labels low-cardinality: everything else goes into the log line
+    return {
+      app: APP_NAME,
+      kind: event.eventType === 'error' ? 'exception' : 'log',
+      domain: event.domain,
+      business_impact: event.businessContext.businessImpact,
+      priority: event.attributes['domain.priority'] || 'medium',
+      level: this.mapSeverityToFaroLevel(event.severity, event.eventType)
+    }
+  }
+
+  private createFaroMeta(events: TelemetryEvent[]): Record<string, any> {
+    const sessionId = events.find(e => e.attributes['user.session_id'])?.attributes['user.session_id']
+    const userId = events.find(e => e.attributes['user.id'])?.attributes['user.id']
+
+    return {
+      sdk: SDK,
+      app: { name: APP_NAME, version: APP_VERSION },
+      ...(sessionId && { session: { id: sessionId } }),
+      ...(userId && { user: { id: userId } }),
+      page: { url: typeof window !== 'undefined' && window.location ? window.location.href : 'unknown' },
+      browser: { userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : 'unknown' }
+    }
+  }
+
+  private convertToFaroLog(event: TelemetryEvent): any {
+    return {
+      message: event.attributes['log.message'] || event.name,
+      level: this.mapSeverityToFaroLevel(event.severity, event.eventType),
+      context: this.createFaroContext(event),
+      timestamp: event.timestamp,
+      ...this.createFaroTrace(event)
+    }
+  }
+
+  private convertToFaroException(event: TelemetryEvent): any {
+    const frames = this.parseStackFrames(event.attributes['error.stack'])
+
+    return {
+      type: event.attributes['error.type'] || 'Error',
+      value: event.attributes['error.message'] || event.name,
+      ...(frames.length > 0 && { stacktrace: { frames } }),
+      context: this.createFaroContext(event),
+      timestamp: event.timestamp,
+      ...this.createFaroTrace(event)
+    }
+  }
+
+  private createFaroContext(event: TelemetryEvent): Record<string, string> {
+    // Faro context values must be strings
+    const context: Record<string, string> = {
+      'event.name': event.name,
+      'business.domain': event.domain,
+      'business.impact': event.businessContext.businessImpact
+    }
+
+    if (event.businessContext.feature) context['business.feature'] = event.businessContext.feature
+    if (event.businessContext.userJourney) context['business.journey'] = event.businessContext.userJourney
+
+    Object.entries(event.attributes).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && key !== 'error.stack') {
+        context[key] = typeof value === 'string' ? value : JSON.stringify(value)
+      }
+    })
+
+    return context
+  }
+
+  private createFaroTrace(event: TelemetryEvent): Record<string, any> {
+    if (!event.attributes['trace.id']) return {}
+    return {
+      trace: {
+        trace_id: event.attributes['trace.id'],
+        span_id: event.attributes['span.id']
+      }
+    }
+  }
+
+  private parseStackFrames(stack?: string): FaroStackFrame[] {
+    if (!stack) return []
+
+    const frames: FaroStackFrame[] = []
+    stack.split('\n').forEach(line => {
+      // Chrome: "    at fn (https://app/main.js:10:5)"  Firefox/Safari: "fn@https://app/main.js:10:5"
+      const match = line.match(/^\s*at (?:(.+?) \()?(.+?):(\d+):(\d+)\)?\s*$/) ||
+                    line.match(/^\s*(.*?)@(.+?):(\d+):(\d+)\s*$/)
+      if (match) {
+        frames.push({
+          function: match[1] || '?',
+          filename: match[2],
+          lineno: parseInt(match[3], 10),
+          colno: parseInt(match[4], 10)
+        })
+      }
+    })
+
+    return frames
+  }
+
+  private mapSeverityToFaroLevel(severity: TelemetryEvent['severity'], eventType: TelemetryEvent['eventType']): string {
+    const levelMap: Record<string, string> = {
+      'critical': 'error',
+      'error': 'error',
+      'warn': 'warn',
+      'info': 'info'
+    }
+    return levelMap[severity || (eventType === 'error' ? 'error' : 'info')] || 'info'
+  }
+
+  private toUnixNano(timestamp: string): string {
+    return `${new Date(timestamp).getTime()}000000`
+  }
+
+  protected logToConsole(events: TelemetryEvent[]): void {
+    console.group(`[GrafanaExporter] Exporting ${events.length} events (console fallback)`)
+
+    events.forEach(event => {
+      const businessContext = `[${event.domain}:${event.businessContext.businessImpact}]`
+      const logData = {
+        eventType: event.eventType,
+        timestamp: event.timestamp,
+        labels: this.createLokiLabels(event)
+      }
+
+      if (event.eventType === 'error') {
+        console.error(`${businessContext} ${event.name}`, logData)
+      } else {
+        console.info(`${businessContext} ${event.name}`, logData)
+      }
+    })
+
+    console.groupEnd()
+  }
+}
\ No newline at end of file
@@ -0,0 +1,159 @@
+/**
+ * Jaeger integration for observ-metrics
+ * Exports business-contextualized spans as Zipkin v2 JSON to Jaeger or any Zipkin-compatible collector
+ */
+
+import { BatchExporter } from '../core/BatchExporter'
+import { generateHexId, getJourneyTraceId, normalizeId } from '../core/TracePropagation'
+import type { ExportRequest } from '../core/BatchExporter'
+import type { TelemetryEvent, PlatformConfig } from '../types'
+
+const SERVICE_NAME = 'observ-metrics-app'
+const ZIPKIN_SPANS_PATH = '/api/v2/spans'
+const MAX_PAYLOAD_BYTES = 4 * 1024 * 1024 // Conservative default for collectors behind proxies
+
+export interface ZipkinSpan {
+  traceId: string
+  id: string
+  parentId?: string
+  name: string
+  kind?: 'CLIENT' | 'SERVER' | 'PRODUCER' | 'CONSUMER'
+  timestamp: number
+  duration: number
+  localEndpoint: { serviceName: string }
+  tags: Record<string, string>
+}
+
+export class JaegerExporter extends BatchExporter {
+  name = 'jaeger'
+
+  constructor() {
+    super({
+      platform: 'jaeger',
+      batchSize: 100,
+      flushInterval: 5000
+    }, { label: 'JaegerExporter', maxPayloadBytes: MAX_PAYLOAD_BYTES })
+  }
+
+  configure(config: PlatformConfig): void {
+    super.configure(config)
+
+    if (!this.config.endpoint) {
+      console.warn('[JaegerExporter] No collector endpoint provided. Spans will be logged to console.')
+    }
+  }
+
+  // Jaeger only understands traces
+  protected accepts(event: TelemetryEvent): boolean {
+    return event.eventType === 'span'
+  }
+
+  protected isConfigured(): boolean {
+    return Boolean(this.config.endpoint)
+  }
+
+  protected getRequests(events: TelemetryEvent[]): ExportRequest[] {
+    return [{
+      url: this.getSpansUrl(),
+      headers: this.getRequestHeaders(),
+      events,
+      serialize: batch => JSON.stringify(this.convertToZipkinSpans(batch)),
+      api: 'Jaeger collector'
+    }]
+  }
+
+  private getSpansUrl(): string {
+    const endpoint = this.config.endpoint!.replace(/\/+$/, '')
+    return endpoint.endsWith(ZIPKIN_SPANS_PATH) ? endpoint : `${endpoint}${ZIPKIN_SPANS_PATH}`
+  }
+
+  private getRequestHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...this.config.customHeaders
+    }
+  }
+
+  /**
+   * Convert span events to Zipkin v2 spans; API calls made in a journey step carry it as parent.span.id
+   */
+  convertToZipkinSpans(events: TelemetryEvent[]): ZipkinSpan[] {
+    return events.map(event => this.convertToZipkinSpan(event))
+  }
+
+  private convertToZipkinSpan(event: TelemetryEvent): ZipkinSpan {
+    const endMicros = new Date(event.timestamp).getTime() * 1000
+    const durationMs = Number(event.attributes['http.response_time_ms'] ?? event.attributes['journey.step_duration_ms']) || 0
+    // Zipkin rejects zero durations
+    const duration = Math.max(1, Math.round(durationMs * 1000))
+
+    const parentId = normalizeId(event.attributes['parent.span.id'], 16)
+
+    return {
+      traceId: this.resolveTraceId(event),
+      id: normalizeId(event.attributes['span.id'], 16) || generateHexId(16),
+      ...(parentId && { parentId }),
+      name: event.name,
+      ...(this.isApiCall(event) && { kind: 'CLIENT' as const }),
+      timestamp: endMicros - duration,
+      duration,
+      localEndpoint: { serviceName: event.domain || SERVICE_NAME },
+      tags: this.createTags(event)
+    }
+  }
+
+  private resolveTraceId(event: TelemetryEvent): string {
+    const traceId = normalizeId(event.attributes['trace.id'], 32)
+    if (traceId) return traceId
+
+    // Steps of the same journey in the same session share a trace
+    const journeyName = event.businessContext.userJourney || event.attributes['journey.name']
+    if (journeyName && event.attributes['user.session_id']) {
+      return getJourneyTraceId(event.attributes['user.session_id'], event.domain, journeyName)
+    }
+
+    return generateHexId(32)
+  }
+
+  private createTags(event: TelemetryEvent): Record<string, string> {
+    const tags: Record<string, string> = {
+      'business.domain': event.domain,
+      'business.impact': event.businessContext.businessImpact
+    }
+
+    if (event.businessContext.feature) tags['business.feature'] = event.businessContext.feature
+    if (event.businessContext.userJourney) tags['business.journey'] = event.businessContext.userJourney
+
+    Object.entries(event.attributes).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && !['trace.id', 'span.id', 'parent.span.id'].includes(key)) {
+        tags[key] = typeof value === 'string' ? value : JSON.stringify(value)
+      }
+    })
+
+    // Jaeger and Zipkin UIs highlight spans carrying an "error" tag
+    if (event.attributes['api.success'] === false || event.severity === 'error' || event.severity === 'critical') {
+      tags['error'] = 'true'
+    }
+
+    return tags
+  }
+
+  private isApiCall(event: TelemetryEvent): boolean {
+    return event.attributes['http.method'] !== undefined
+  }
+
+  protected logToConsole(events: TelemetryEvent[]): void {
+    console.group(`[JaegerExporter] Exporting ${events.length} spans (console fallback)`)
+
+    this.convertToZipkinSpans(events).forEach(span => {
+      console.info(`[${span.localEndpoint.serviceName}] ${span.name}`, {
+        traceId: span.traceId,
+        id: span.id,
+        parentId: span.parentId,
+        durationMs: span.duration / 1000
+      })
+    })
+
+    console.groupEnd()
+  }
+}
\ No newline at end of file
@@ -3,24 +3,25 @@
  * Exports business-contextualized telemetry to New Relic Browser and APM
  */
 
-import type { TelemetryEvent, PlatformConfig, ExporterPlugin } from '../types'
+import { BatchExporter } from '../core/BatchExporter'
+import type { ExportRequest } from '../core/BatchExporter'
+import type { TelemetryEvent, PlatformConfig } from '../types'
 
-export class NewRelicExporter implements ExporterPlugin {
+const MAX_PAYLOAD_BYTES = 1000000 // Trace and Event API limit (10^6 bytes)
+
+export class NewRelicExporter extends BatchExporter {
   name = 'newrelic'
-  private config: PlatformConfig
-  private batchedEvents: TelemetryEvent[] = []
-  private flushTimer?: NodeJS.Timeout
 
   constructor() {
-    this.config = {
+    super({
       platform: 'newrelic',
       batchSize: 50,
       flushInterval: 10000
-    }
+    }, { label: 'NewRelicExporter', maxPayloadBytes: MAX_PAYLOAD_BYTES, maxRetainedEvents: 25 })
   }
 
   configure(config: PlatformConfig): void {
-    this.config = { ...this.config, ...config }
+    super.configure(config)
     
     if (!this.config.apiKey) {
       console.warn('[NewRelicExporter] No API key provided. Events will be logged to console.')
@@ -30,8 +31,6 @@ export class NewRelicExporter implements ExporterPlugin {
     if (typeof window !== 'undefined' && this.config.apiKey) {
       this.initializeNewRelicBrowser()
     }
-
-    this.startFlushTimer()
   }
 
   private initializeNewRelicBrowser(): void {
@@ -47,116 +46,80 @@ export class NewRelicExporter implements ExporterPlugin {
     */
   }
 
-  async export(events: TelemetryEvent[]): Promise<void> {
-    this.batchedEvents.push(...events)
-
-    if (this.batchedEvents.length >= (this.config.batchSize || 50)) {
-      await this.flush()
-    }
+  protected isConfigured(): boolean {
+    return Boolean(this.config.apiKey)
   }
 
-  private async flush(): Promise<void> {
-    if (this.batchedEvents.length === 0) return
-
-    const eventsToFlush = [...this.batchedEvents]
-    this.batchedEvents = []
-
-    try {
-      if (this.config.apiKey) {
-        await this.sendToNewRelic(eventsToFlush)
-      } else {
-        this.logToConsole(eventsToFlush)
+  protected getRequests(events: TelemetryEvent[]): ExportRequest[] {
+    const { spanEvents, customEvents, errorEvents } = this.splitByDataType(events)
+
+    return [
+      // Spans go to New Relic APM
+      {
+        url: `${this.config.endpoint}/trace/v1`,
+        headers: this.getTraceHeaders(),
+        events: spanEvents,
+        serialize: batch => JSON.stringify(this.createTracePayload(batch)),
+        api: 'New Relic Trace API'
+      },
+      // Custom events go to New Relic Insights
+      {
+        url: this.getEventsUrl(),
+        headers: this.getRequestHeaders(),
+        events: customEvents,
+        serialize: batch => JSON.stringify(batch.map(event => this.convertToNewRelicCustomEvent(event))),
+        api: 'New Relic Events API'
+      },
+      // Errors go to New Relic Browser/APM
+      {
+        url: this.getEventsUrl(),
+        headers: this.getRequestHeaders(),
+        events: errorEvents,
+        serialize: batch => JSON.stringify(batch.map(event => this.convertToNewRelicError(event))),
+        api: 'New Relic Error API'
       }
-    } catch (error) {
-      console.error('[NewRelicExporter] Failed to export events:', error)
-      this.batchedEvents.unshift(...eventsToFlush.slice(0, 25)) // Keep 25 for retry
-    }
+    ]
   }
 
-  private async sendToNewRelic(events: TelemetryEvent[]): Promise<void> {
+  private splitByDataType(events: TelemetryEvent[]) {
     // New Relic uses different endpoints for different data types
-    const spanEvents = events.filter(e => e.eventType === 'span')
-    const customEvents = events.filter(e => e.eventType === 'metric' || e.eventType === 'log')
-    const errorEvents = events.filter(e => e.eventType === 'error')
-
-    // Send spans to New Relic APM
-    if (spanEvents.length > 0) {
-      await this.sendSpansToNewRelic(spanEvents)
-    }
-
-    // Send custom events to New Relic Insights
-    if (customEvents.length > 0) {
-      await this.sendCustomEventsToNewRelic(customEvents)
-    }
-
-    // Send errors to New Relic Browser/APM
-    if (errorEvents.length > 0) {
-      await this.sendErrorsToNewRelic(errorEvents)
+    return {
+      spanEvents: events.filter(e => e.eventType === 'span'),
+      customEvents: events.filter(e => e.eventType === 'metric' || e.eventType === 'log'),
+      errorEvents: events.filter(e => e.eventType === 'error')
     }
   }
 
-  private async sendSpansToNewRelic(events: TelemetryEvent[]): Promise<void> {
-    const newRelicSpans = events.map(event => this.convertToNewRelicSpan(event))
-
-    const response = await fetch(`${this.config.endpoint}/trace/v1`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Api-Key': this.config.apiKey!,
-        'Data-Format': 'newrelic',
-        'Data-Format-Version': '1',
-        ...this.config.customHeaders
-      },
-      body: JSON.stringify([{
-        common: {
-          attributes: {
-            'service.name': 'observ-metrics-app',
-            'service.version': '1.0.0'
-          }
-        },
-        spans: newRelicSpans
-      }])
-    })
+  private getEventsUrl(): string {
+    return `${this.config.endpoint}/v1/accounts/${this.config.accountId}/events`
+  }
 
-    if (!response.ok) {
-      throw new Error(`New Relic Trace API error: ${response.status}`)
+  private getRequestHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'Api-Key': this.config.apiKey!,
+      ...this.config.customHeaders
     }
   }
 
-  private async sendCustomEventsToNewRelic(events: TelemetryEvent[]): Promise<void> {
-    const newRelicEvents = events.map(event => this.convertToNewRelicCustomEvent(event))
-
-    const response = await fetch(`${this.config.endpoint}/v1/accounts/${this.config.accountId}/events`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Api-Key': this.config.apiKey!,
-        ...this.config.customHeaders
-      },
-      body: JSON.stringify(newRelicEvents)
-    })
-
-    if (!response.ok) {
-      throw new Error(`New Relic Events API error: ${response.status}`)
+  private getTraceHeaders(): Record<string, string> {
+    return {
+      ...this.getRequestHeaders(),
+      'Data-Format': 'newrelic',
+      'Data-Format-Version': '1'
     }
   }
 
-  private async sendErrorsToNewRelic(events: TelemetryEvent[]): Promise<void> {
-    const newRelicErrors = events.map(event => this.convertToNewRelicError(event))
-
-    const response = await fetch(`${this.config.endpoint}/v1/accounts/${this.config.accountId}/events`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json', 
-        'Api-Key': this.config.apiKey!,
-        ...this.config.customHeaders
+  private createTracePayload(events: TelemetryEvent[]): any {
+    return [{
+      common: {
+        attributes: {
+          'service.name': 'observ-metrics-app',
+          'service.version': '1.0.0'
+        }
       },
-      body: JSON.stringify(newRelicErrors)
-    })
-
-    if (!response.ok) {
-      throw new Error(`New Relic Error API error: ${response.status}`)
-    }
+      spans: events.map(event => this.convertToNewRelicSpan(event))
+    }]
   }
 
   private convertToNewRelicSpan(event: TelemetryEvent): any {
@@ -330,7 +293,7 @@ export class NewRelicExporter implements ExporterPlugin {
     return relevant
   }
 
-  private logToConsole(events: TelemetryEvent[]): void {
+  protected logToConsole(events: TelemetryEvent[]): void {
     console.group(`[NewRelicExporter] Exporting ${events.length} events (console fallback)`)
     
     events.forEach(event => {
@@ -354,31 +317,4 @@ export class NewRelicExporter implements ExporterPlugin {
     
     console.groupEnd()
   }
-
-  private startFlushTimer(): void {
-    if (this.flushTimer) {
-      clearInterval(this.flushTimer)
-    }
-
-    this.flushTimer = setInterval(() => {
-      if (this.batchedEvents.length > 0) {
-        this.flush()
-      }
-    }, this.config.flushInterval || 10000)
-  }
-
-  async forceFlush(): Promise<void> {
-    await this.flush()
-  }
-
-  destroy(): void {
-    if (this.flushTimer) {
-      clearInterval(this.flushTimer)
-      this.flushTimer = undefined
-    }
-    
-    if (this.batchedEvents.length > 0) {
-      this.flush()
-    }
-  }
 }
\ No newline at end of file
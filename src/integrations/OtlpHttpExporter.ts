@@ -0,0 +1,293 @@
+/**
+ * OTLP/HTTP integration for observ-metrics
+ * Exports business-contextualized telemetry as OTLP JSON to any OpenTelemetry Collector
+ */
+
+import { BatchExporter } from '../core/BatchExporter'
+import { generateHexId, normalizeId } from '../core/TracePropagation'
+import type { ExportRequest } from '../core/BatchExporter'
+import type { TelemetryEvent, PlatformConfig } from '../types'
+
+const SERVICE_NAME = 'observ-metrics-app'
+const SERVICE_VERSION = '1.0.0'
+const SCOPE = { name: 'observ-metrics', version: '1.0.0' }
+const MAX_PAYLOAD_BYTES = 4 * 1024 * 1024 // Conservative default - collectors and gateways commonly cap requests at 4MB
+
+// OTLP enum values (opentelemetry-proto)
+const SPAN_KIND_INTERNAL = 1
+const SPAN_KIND_CLIENT = 3
+const STATUS_CODE_OK = 1
+const STATUS_CODE_ERROR = 2
+
+type OtlpAnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { arrayValue: { values: OtlpAnyValue[] } }
+
+interface OtlpKeyValue {
+  key: string
+  value: OtlpAnyValue
+}
+
+export class OtlpHttpExporter extends BatchExporter {
+  name = 'otlp'
+
+  constructor() {
+    super({
+      platform: 'otlp',
+      batchSize: 100,
+      flushInterval: 5000
+    }, { label: 'OtlpHttpExporter', maxPayloadBytes: MAX_PAYLOAD_BYTES })
+  }
+
+  configure(config: PlatformConfig): void {
+    super.configure(config)
+
+    if (!this.config.endpoint) {
+      console.warn('[OtlpHttpExporter] No collector endpoint provided. Events will be logged to console.')
+    }
+  }
+
+  protected isConfigured(): boolean {
+    return Boolean(this.config.endpoint)
+  }
+
+  protected getRequests(events: TelemetryEvent[]): ExportRequest[] {
+    // OTLP splits signals across dedicated endpoints
+    return [
+      this.createRequest('/v1/traces', events.filter(e => e.eventType === 'span'), batch => this.convertToOtlpTraces(batch)),
+      this.createRequest('/v1/metrics', events.filter(e => e.eventType === 'metric'), batch => this.convertToOtlpMetrics(batch)),
+      this.createRequest('/v1/logs', events.filter(e => e.eventType === 'log' || e.eventType === 'error'), batch => this.convertToOtlpLogs(batch))
+    ]
+  }
+
+  private createRequest(path: string, events: TelemetryEvent[], convert: (events: TelemetryEvent[]) => any): ExportRequest {
+    return {
+      url: this.getUrl(path),
+      headers: this.getRequestHeaders(),
+      events,
+      serialize: batch => JSON.stringify(convert(batch)),
+      api: `OTLP collector (${path})`
+    }
+  }
+
+  private getUrl(path: string): string {
+    return `${this.config.endpoint!.replace(/\/+$/, '')}${path}`
+  }
+
+  private getRequestHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.config.apiKey && { 'Authorization': `Bearer ${this.config.apiKey}` }),
+      ...this.config.customHeaders
+    }
+  }
+
+  /**
+   * Convert span events to an OTLP ExportTraceServiceRequest
+   */
+  convertToOtlpTraces(events: TelemetryEvent[]): any {
+    return {
+      resourceSpans: this.groupByDomain(events).map(([domain, domainEvents]) => ({
+        resource: { attributes: this.createResourceAttributes(domain) },
+        scopeSpans: [{
+          scope: SCOPE,
+          spans: domainEvents.map(event => this.convertToOtlpSpan(event))
+        }]
+      }))
+    }
+  }
+
+  /**
+   * Convert metric events to an OTLP ExportMetricsServiceRequest
+   */
+  convertToOtlpMetrics(events: TelemetryEvent[]): any {
+    return {
+      resourceMetrics: this.groupByDomain(events).map(([domain, domainEvents]) => ({
+        resource: { attributes: this.createResourceAttributes(domain) },
+        scopeMetrics: [{
+          scope: SCOPE,
+          metrics: domainEvents.map(event => ({
+            name: event.attributes['metric.name'] || event.name,
+            gauge: {
+              dataPoints: [{
+                timeUnixNano: this.toUnixNano(event.timestamp),
+                asDouble: Number(event.attributes['metric.value']) || 0,
+                attributes: this.createEventAttributes(event, ['metric.name', 'metric.value'])
+              }]
+            }
+          }))
+        }]
+      }))
+    }
+  }
+
+  /**
+   * Convert log and error events to an OTLP ExportLogsServiceRequest
+   */
+  convertToOtlpLogs(events: TelemetryEvent[]): any {
+    return {
+      resourceLogs: this.groupByDomain(events).map(([domain, domainEvents]) => ({
+        resource: { attributes: this.createResourceAttributes(domain) },
+        scopeLogs: [{
+          scope: SCOPE,
+          logRecords: domainEvents.map(event => this.convertToOtlpLogRecord(event))
+        }]
+      }))
+    }
+  }
+
+  private convertToOtlpSpan(event: TelemetryEvent): any {
+    const endTime = new Date(event.timestamp).getTime()
+    const duration = Number(event.attributes['http.response_time_ms']) || 0
+    const failed = event.attributes['api.success'] === false || event.severity === 'error' || event.severity === 'critical'
+    const parentSpanId = normalizeId(event.attributes['parent.span.id'], 16)
+
+    return {
+      // OTLP JSON requires lowercase hex trace (16 byte) and span (8 byte) ids
+      traceId: normalizeId(event.attributes['trace.id'], 32) || generateHexId(32),
+      spanId: normalizeId(event.attributes['span.id'], 16) || generateHexId(16),
+      ...(parentSpanId && { parentSpanId }),
+      name: event.name,
+      kind: event.attributes['http.method'] ? SPAN_KIND_CLIENT : SPAN_KIND_INTERNAL,
+      startTimeUnixNano: this.toUnixNano(endTime - duration),
+      endTimeUnixNano: this.toUnixNano(endTime),
+      attributes: this.createEventAttributes(event, ['trace.id', 'span.id', 'parent.span.id']),
+      status: failed ? { code: STATUS_CODE_ERROR } : { code: STATUS_CODE_OK }
+    }
+  }
+
+  private convertToOtlpLogRecord(event: TelemetryEvent): any {
+    const isError = event.eventType === 'error'
+    const attributes = this.createEventAttributes(event, ['error.type', 'error.message', 'error.stack'])
+
+    // Map error details onto the OpenTelemetry exception semantic conventions
+    if (isError) {
+      attributes.push(...this.toKeyValues({
+        'exception.type': event.attributes['error.type'],
+        'exception.message': event.attributes['error.message'],
+        'exception.stacktrace': event.attributes['error.stack']
+      }))
+    }
+
+    const timeUnixNano = this.toUnixNano(event.timestamp)
+    const traceId = normalizeId(event.attributes['trace.id'], 32)
+    const spanId = normalizeId(event.attributes['span.id'], 16)
+    const severity = event.severity || (isError ? 'error' : 'info')
+
+    return {
+      timeUnixNano,
+      observedTimeUnixNano: timeUnixNano,
+      severityNumber: this.mapSeverityToNumber(severity),
+      severityText: severity.toUpperCase(),
+      body: { stringValue: (isError && event.attributes['error.message']) || event.name },
+      attributes,
+      ...(traceId && { traceId }),
+      ...(spanId && { spanId })
+    }
+  }
+
+  private groupByDomain(events: TelemetryEvent[]): Array<[string, TelemetryEvent[]]> {
+    const groups = new Map<string, TelemetryEvent[]>()
+    events.forEach(event => {
+      const group = groups.get(event.domain) || []
+      group.push(event)
+      groups.set(event.domain, group)
+    })
+    return Array.from(groups.entries())
+  }
+
+  private createResourceAttributes(domain: string): OtlpKeyValue[] {
+    return this.toKeyValues({
+      'service.name': SERVICE_NAME,
+      'service.version': SERVICE_VERSION,
+      'telemetry.sdk.name': 'observ-metrics',
+      'telemetry.sdk.language': 'webjs',
+      'business.domain': domain
+    })
+  }
+
+  private createEventAttributes(event: TelemetryEvent, excludeKeys: string[] = []): OtlpKeyValue[] {
+    const attributes: Record<string, any> = {}
+    Object.entries(event.attributes).forEach(([key, value]) => {
+      if (!excludeKeys.includes(key)) {
+        attributes[key] = value
+      }
+    })
+
+    // Business context travels with every span, data point and log record
+    attributes['business.domain'] = event.businessContext.domain
+    attributes['business.impact'] = event.businessContext.businessImpact
+    attributes['business.feature'] = event.businessContext.feature
+    attributes['business.journey'] = event.businessContext.userJourney
+    Object.entries(event.businessContext.customMetrics || {}).forEach(([key, value]) => {
+      attributes[`business.metric.${key}`] = value
+    })
+
+    attributes['event.id'] = event.id
+    attributes['event.severity'] = event.severity
+
+    return this.toKeyValues(attributes)
+  }
+
+  private toKeyValues(attributes: Record<string, any>): OtlpKeyValue[] {
+    const keyValues: OtlpKeyValue[] = []
+    Object.entries(attributes).forEach(([key, value]) => {
+      const anyValue = this.toAnyValue(value)
+      if (anyValue) {
+        keyValues.push({ key, value: anyValue })
+      }
+    })
+    return keyValues
+  }
+
+  private toAnyValue(value: any): OtlpAnyValue | null {
+    if (value === undefined || value === null) return null
+    if (typeof value === 'string') return { stringValue: value }
+    if (typeof value === 'boolean') return { boolValue: value }
+    if (typeof value === 'number') {
+      // int64 values are encoded as strings in OTLP JSON
+      return Number.isInteger(value) ? { intValue: value.toString() } : { doubleValue: value }
+    }
+    if (Array.isArray(value)) {
+      return {
+        arrayValue: {
+          values: value.map(item => this.toAnyValue(item)).filter((item): item is OtlpAnyValue => item !== null)
+        }
+      }
+    }
+    return { stringValue: JSON.stringify(value) }
+  }
+
+  private toUnixNano(time: string | number): string {
+    const millis = typeof time === 'number' ? time : new Date(time).getTime()
+    return `${Math.max(0, Math.round(millis))}000000`
+  }
+
+  private mapSeverityToNumber(severity: string): number {
+    const severityMap: Record<string, number> = {
+      'info': 9,
+      'warn': 13,
+      'error': 17,
+      'critical': 21
+    }
+    return severityMap[severity] || 9
+  }
+
+  protected logToConsole(events: TelemetryEvent[]): void {
+    console.group(`[OtlpHttpExporter] Exporting ${events.length} events (console fallback)`)
+
+    events.forEach(event => {
+      const businessContext = `[${event.domain}:${event.businessContext.businessImpact}]`
+      console.info(`${businessContext} ${event.name}`, {
+        eventType: event.eventType,
+        timestamp: event.timestamp,
+        businessContext: event.businessContext
+      })
+    })
+
+    console.groupEnd()
+  }
+}
\ No newline at end of file
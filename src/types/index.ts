@@ -17,36 +17,239 @@ export interface DomainConfig {
   slaTarget: number
   errorThreshold: number
   features: string[]
+  // Requests attributed to this domain; the most specific matcher across domains wins
+  urlMatchers?: UrlMatcher[]
+  // Funnels instrumented with instrumentUserJourney; undeclared journeys and steps are warned about
+  journeys?: JourneyDefinition[]
   customAttributes?: Record<string, any>
 }
 
+export interface JourneyDefinition {
+  name: string
+  // In funnel order; a plain string is a required step
+  steps: (string | JourneyStepDefinition)[]
+  businessImpact?: BusinessContext['businessImpact']
+  // Expected upper bound for the whole journey in milliseconds
+  maxDuration?: number
+}
+
+export interface JourneyStepDefinition {
+  name: string
+  // Users may skip this step
+  optional?: boolean
+  // Steps that can be taken instead of this one; they share its step number
+  alternatives?: string[]
+  // Expected upper bound for the step in milliseconds
+  maxDuration?: number
+}
+
 export interface FilterConfig {
   enableBotDetection: boolean
+  behavioralDetection?: BehavioralDetectionConfig
   domainWhitelist: string[]
+  // Occurrences per minute of one error (per domain and fingerprint) before it is summarized; 0 turns it off
   errorThreshold: number
+  errorStorm?: ErrorStormConfig
   samplingRate: number
   excludeExtensions: boolean
+  // Drop errors whose stack frames and URLs all belong to third-party scripts
   excludeThirdPartyErrors: boolean
+  // Origins besides the page's own that serve your code ('https://static.example.com' or a RegExp on the URL)
+  firstPartyOrigins?: (string | RegExp)[]
+  // Your scripts on shared hosts, as URL prefixes ('https://cdn.jsdelivr.net/npm/my-app@') or RegExps
+  firstPartyScripts?: (string | RegExp)[]
+  patterns?: PatternConfig
   customFilters?: FilterFunction[]
 }
 
+export interface PatternConfig {
+  // Default pattern pack to start from (default: the latest)
+  version?: string
+  // Matched against the user agent
+  bot?: PatternSetConfig
+  // Matched against event URLs and error stacks
+  extension?: PatternSetConfig
+  // Matched against event URLs
+  noise?: PatternSetConfig
+}
+
+// Strings match literally and case-insensitively; RegExps as given
+export interface PatternSetConfig {
+  // Used instead of the pack's patterns
+  replace?: (string | RegExp)[]
+  add?: (string | RegExp)[]
+  // Patterns to drop, by a RegExp with the same source or the literal string
+  remove?: (string | RegExp)[]
+}
+
+export interface BehavioralDetectionConfig {
+  // Opt in to judging sessions by how they interact with the page (default false)
+  enabled?: boolean
+  // Events are held this long (ms, default 3000) while interaction is observed
+  observationWindow?: number
+  // Humanity score (0-1) a session needs to count as a real user (default 0.5)
+  minScore?: number
+  // Treat sessions without any interaction during the window as bots (default false)
+  requireInteraction?: boolean
+}
+
+export interface ErrorStormConfig {
+  // Sliding window the error rate is measured over (ms)
+  window?: number
+  // Occurrences still sent in full once a storm starts
+  sampleSize?: number
+  // How often error.storm summaries are sent during a storm (ms)
+  summaryInterval?: number
+}
+
+export type BuiltInPlatform = 'datadog' | 'newrelic' | 'grafana' | 'jaeger' | 'otlp' | 'console'
+
 export interface PlatformConfig {
-  platform: 'datadog' | 'newrelic' | 'grafana' | 'jaeger' | 'console'
+  // Built-in platform or the name a custom exporter was registered under
+  platform: BuiltInPlatform | (string & {})
   endpoint?: string
   apiKey?: string
+  // New Relic account the events are sent to
+  accountId?: string
   customHeaders?: Record<string, string>
   batchSize?: number
   flushInterval?: number
+  routing?: ExporterRouting
+  offlineQueue?: OfflineQueueConfig
+  retry?: RetryConfig
+  // Gzip request bodies (Content-Encoding: gzip)
+  compression?: 'gzip' | 'none'
+  // Split batches whose JSON body exceeds this many bytes (defaults to the vendor's intake limit)
+  maxPayloadBytes?: number
+}
+
+export interface RetryConfig {
+  maxAttempts?: number
+  baseDelay?: number
+  maxDelay?: number
+  retryBudget?: number
+  circuitBreaker?: {
+    failureThreshold?: number
+    resetTimeout?: number
+  }
+}
+
+export interface OfflineQueueConfig {
+  enabled: boolean
+  maxAge?: number
+  maxSize?: number
+}
+
+export interface ExporterRouting {
+  eventTypes?: TelemetryEvent['eventType'][]
+  domains?: string[]
+  severities?: NonNullable<TelemetryEvent['severity']>[]
+  businessImpacts?: BusinessContext['businessImpact'][]
+  filter?: (event: TelemetryEvent) => boolean
 }
 
 export interface ObservMetricsConfig {
   userContext?: Partial<UserContext>
   domains: DomainConfig[]
   filtering: FilterConfig
-  platform?: PlatformConfig
+  platform?: PlatformConfig | PlatformConfig[]
+  session?: SessionConfig
+  journeyTracking?: JourneyTrackingConfig
+  slo?: SloConfig
+  webVitals?: WebVitalsConfig
+  errorCapture?: ErrorCaptureConfig
+  errorDeduplication?: ErrorDeduplicationConfig
+  // fetch used by instrumentApiCall and the instrumented fetch (defaults to the global fetch)
+  fetch?: typeof fetch
+  // Map request URLs to domains; checked in order before any domain urlMatchers
+  urlRules?: UrlRule[]
+  tracePropagation?: TracePropagationConfig
   debug?: boolean
 }
 
+export interface UrlMatcher {
+  // Glob on the URL path: * stays within a segment, ** spans segments ('/api/cart/**')
+  path?: string
+  // Regular expression tested against the full URL
+  pattern?: RegExp
+  // Host name; '*.example.com' matches any subdomain
+  host?: string
+  // HTTP methods; any method when omitted
+  methods?: string[]
+  // Defaults to the first of the domain's features found in the URL path
+  feature?: string
+}
+
+export interface UrlRule extends UrlMatcher {
+  // Name of a configured domain
+  domain: string
+  // Substring of the request URL, or a regular expression tested against it
+  match?: string | RegExp
+}
+
+export interface TracePropagationConfig {
+  // Set to false to stop injecting trace headers
+  enabled?: boolean
+  // Header formats to inject (default ['w3c']: traceparent/tracestate; 'b3' adds the single b3 header)
+  formats?: ('w3c' | 'b3')[]
+  // Cross-origin destinations allowed to receive trace headers: origins ('https://api.example.com') or URL patterns
+  allowedOrigins?: (string | RegExp)[]
+}
+
+export interface JourneyTrackingConfig {
+  // Set to false to stop emitting journey.completed / journey.abandoned events
+  enabled?: boolean
+  // Abandon a journey after this long without a new step (default 30 minutes)
+  abandonAfter?: number
+}
+
+export interface SloConfig {
+  // Set to false to stop tracking SLOs and emitting slo.breach / slo.recovered
+  enabled?: boolean
+  // Share of successful requests that must finish within the domain's slaTarget (default 0.95)
+  latencyObjective?: number
+  // Rolling windows in ms; the longest is the error budget period (default 5 minutes and 1 hour)
+  windows?: number[]
+  // Burn rate every window must reach for a breach (default 2)
+  burnRateThreshold?: number
+  // Requests a window needs before its burn rate counts (default 10)
+  minRequests?: number
+}
+
+export interface WebVitalsConfig {
+  // Set to false to stop collecting LCP, CLS, INP, FCP and TTFB
+  enabled?: boolean
+  // Map page URLs to domains and features; defaults to the request URL rules
+  routes?: UrlRule[]
+}
+
+export interface ErrorCaptureConfig {
+  // Opt in to global error, unhandledrejection, resource and CSP handlers (default false)
+  enabled?: boolean
+  unhandledRejections?: boolean
+  // Failed <img>, <script>, <link> ... loads
+  resources?: boolean
+  // securitypolicyviolation events
+  csp?: boolean
+}
+
+export interface ErrorDeduplicationConfig {
+  // Send repeats of an error within the window as one event with counts (default true)
+  enabled?: boolean
+  // Window started by the first occurrence of an error (ms, default 10000)
+  window?: number
+}
+
+export interface SessionConfig {
+  // Roll the session over after this long without events (default 30 minutes)
+  inactivityTimeout?: number
+  // Roll the session over after this long regardless of activity (default 4 hours)
+  maxDuration?: number
+  // sessionStorage is per tab; use 'cookie' to share one session across tabs
+  storage?: 'sessionStorage' | 'cookie'
+  cookieDomain?: string
+}
+
 export interface TelemetryEvent {
   id: string
   timestamp: string
@@ -67,11 +270,23 @@ export interface BusinessContext {
 }
 
 export interface ApiCallContext {
-  endpoint: string
-  method: string
+  endpoint?: string
+  method?: string
   journeyName?: string
   stepName?: string
   customAttributes?: Record<string, any>
+  headers?: Record<string, string>
+  // Plain objects and arrays are sent as JSON
+  body?: BodyInit | Record<string, any> | any[]
+  // Parse the response body; by default JSON is detected from Content-Type
+  responseType?: 'json' | 'text'
+  // Extra fetch options (credentials, signal, mode, ...)
+  requestInit?: Omit<RequestInit, 'method' | 'headers' | 'body'>
+}
+
+export interface JourneyStepOptions {
+  // Rethrow the operation's error (after reporting it) instead of returning it in the result
+  rethrow?: boolean
 }
 
 export interface UserJourneyStep {
@@ -91,27 +306,48 @@ export interface ExporterPlugin {
   name: string
   export(events: TelemetryEvent[]): Promise<void>
   configure(config: PlatformConfig): void
+  forceFlush?(): Promise<void>
+  // Synchronously hand pending events to requests that survive page unload
+  flushOnUnload?(): void
+  getStats?(): Record<string, any>
+  destroy?(): void
 }
 
-export interface InstrumentationResult {
+export interface ExporterFactory {
+  (config: PlatformConfig): ExporterPlugin
+}
+
+export interface InstrumentationResult<T = any> {
   success: boolean
   duration: number
   error?: Error
+  // Parsed response body (API calls only, also set for non-2xx responses)
+  data?: T
+  // HTTP status code (API calls only)
+  status?: number
   customMetrics?: Record<string, number>
 }
 
 export interface DomainInstrumentor {
-  instrumentApiCall(
+  instrumentApiCall<T = any>(
     name: string,
     endpoint: string,
-    method: string,
+    method?: string,
     context?: ApiCallContext
-  ): Promise<InstrumentationResult>
+  ): Promise<InstrumentationResult<T>>
+
+  instrumentFetch(
+    name: string,
+    input: RequestInfo | URL,
+    init?: RequestInit,
+    context?: ApiCallContext
+  ): Promise<Response>
   
   instrumentUserJourney(
     journeyName: string,
     stepName: string,
-    operation: () => Promise<any>
+    operation: () => Promise<any>,
+    options?: JourneyStepOptions
   ): Promise<InstrumentationResult>
   
   recordBusinessMetric(
@@ -2,8 +2,8 @@
  * Unit tests for main ObservMetrics class
  */
 
-import { ObservMetrics, createObservMetrics, defaultConfigs } from '../src/index'
-import type { ObservMetricsConfig, UserContext } from '../src/types'
+import { ObservMetrics, createObservMetrics, createInstrumentedFetch, defaultConfigs, registerExporter, OtlpHttpExporter } from '../src/index'
+import type { ObservMetricsConfig, UserContext, ExporterPlugin, TelemetryEvent } from '../src/types'
 
 // Mock OpenTelemetry SDK
 jest.mock('@opentelemetry/sdk-trace-web', () => ({
@@ -137,6 +137,265 @@ describe('ObservMetrics', () => {
       expect(authInstrumentor).toBeDefined()
       expect(ecommerceInstrumentor).toBeDefined()
     })
+
+    it('should perform API calls through the configured fetch', async () => {
+      const fetchMock = jest.fn(async () => ({
+        status: 200,
+        headers: { get: () => 'application/json' },
+        text: async () => '{"token":"abc"}'
+      }))
+      const instance = new ObservMetrics({ ...mockConfig, fetch: fetchMock as any })
+      await instance.initialize()
+
+      const result = await instance.auth().instrumentApiCall('login', '/api/auth/login', 'POST')
+
+      expect(fetchMock).toHaveBeenCalledWith('/api/auth/login', expect.objectContaining({ method: 'POST' }))
+      expect(result.data).toEqual({ token: 'abc' })
+      instance.destroy()
+    })
+  })
+
+  describe('instrumented fetch', () => {
+    let fetchMock: jest.Mock
+    let onEvent: jest.Mock
+
+    beforeEach(() => {
+      Object.defineProperty(navigator, 'userAgent', {
+        value: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+        configurable: true
+      })
+      fetchMock = jest.fn(async () => ({
+        status: 200,
+        headers: { get: () => null },
+        text: async () => ''
+      }))
+      onEvent = jest.fn(async () => {})
+    })
+
+    function createInstance(config: Partial<ObservMetricsConfig> = {}) {
+      const instance = new ObservMetrics({ ...mockConfig, fetch: fetchMock as any, ...config })
+      instance.addExporter({ name: 'capture', configure: jest.fn(), export: onEvent })
+      return instance
+    }
+
+    it('should route requests to the domain resolved from URL rules', async () => {
+      const instance = createInstance({
+        urlRules: [{ match: /\/api\/basket/, domain: 'ecommerce', feature: 'cart' }]
+      })
+      await instance.initialize()
+
+      const response = await instance.fetch('/api/basket/items', { method: 'POST' })
+
+      expect(response.status).toBe(200)
+      expect(fetchMock).toHaveBeenCalledWith('/api/basket/items', {
+        method: 'POST',
+        headers: { traceparent: expect.stringMatching(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/) }
+      })
+      const [event] = onEvent.mock.calls[0][0]
+      expect(event.name).toBe('ecommerce.cart')
+      expect(event.attributes['http.status_code']).toBe(200)
+      instance.destroy()
+    })
+
+    it('should pass unmatched requests straight to fetch', async () => {
+      const instance = createInstance()
+      await instance.initialize()
+
+      const instrumentedFetch = createInstrumentedFetch(instance)
+      await instrumentedFetch('/static/app.js')
+
+      expect(fetchMock).toHaveBeenCalledWith('/static/app.js', undefined)
+      expect(onEvent).not.toHaveBeenCalled()
+      instance.destroy()
+    })
+
+    it('should keep working when assigned over the global fetch', async () => {
+      global.fetch = fetchMock as any
+      const instance = new ObservMetrics({ ...mockConfig, urlRules: [{ match: /\/api\/basket/, domain: 'ecommerce', feature: 'cart' }] })
+      instance.addExporter({ name: 'capture', configure: jest.fn(), export: onEvent })
+      await instance.initialize()
+      global.fetch = instance.fetch
+
+      try {
+        await fetch('/api/basket/items')
+        await fetch('/static/app.js')
+        await instance.ecommerce().instrumentApiCall('checkout', '/api/checkout')
+      } finally {
+        delete (global as any).fetch
+        instance.destroy()
+      }
+
+      expect(fetchMock.mock.calls.map(([url]: any) => url)).toEqual(['/api/basket/items', '/static/app.js', '/api/checkout'])
+      expect(onEvent.mock.calls.map(([[event]]: any) => event.name)).toEqual(['ecommerce.cart', 'ecommerce.checkout'])
+    })
+
+    it('should resolve domains with the default URL rules', () => {
+      const match = observMetrics.resolveDomain('/api/checkout/confirm')
+
+      expect(match?.domain.name).toBe('ecommerce')
+      expect(match?.feature).toBe('checkout')
+      expect(observMetrics.resolveDomain('/api/unknown')).toBeNull()
+    })
+
+    it('should explain domain resolution for domain URL matchers', () => {
+      const instance = new ObservMetrics({
+        ...mockConfig,
+        domains: mockConfig.domains.map(domain => domain.name === 'ecommerce'
+          ? { ...domain, urlMatchers: [{ path: '/api/orders/**', methods: ['POST'], feature: 'checkout' }] }
+          : domain)
+      })
+
+      expect(instance.resolveDomain('/api/orders/42', 'POST')?.feature).toBe('checkout')
+
+      const explanation = instance.explainDomain('/api/orders/42', 'GET')
+      expect(explanation.match).toBeNull()
+      expect(explanation.rules[0].reason).toBe('method GET not in POST')
+      instance.destroy()
+    })
+
+    it('should report SLO breaches and expose SLO state in stats', async () => {
+      fetchMock.mockImplementation(async () => ({ status: 503, headers: { get: () => null }, text: async () => '' }))
+      const instance = createInstance({ slo: { minRequests: 2 } })
+      await instance.initialize()
+
+      await instance.ecommerce().instrumentApiCall('checkout', '/api/checkout', 'POST')
+      await instance.ecommerce().instrumentApiCall('checkout', '/api/checkout', 'POST')
+
+      const events: TelemetryEvent[] = onEvent.mock.calls.map(([[event]]) => event)
+      expect(events.find(event => event.name === 'slo.breach' && event.businessContext.feature === 'checkout')).toMatchObject({
+        domain: 'ecommerce',
+        attributes: { 'slo.type': 'error_rate', 'slo.budget_remaining': 0, 'slo.requests': 2 },
+        severity: 'error'
+      })
+      expect(instance.getStats().slo.find(state => state.feature === 'checkout')?.errors.breached).toBe(true)
+      instance.destroy()
+    })
+  })
+
+  describe('web vitals', () => {
+    afterEach(() => {
+      delete (global as any).PerformanceObserver
+      Object.assign(window.location, { href: 'http://localhost:3000' })
+    })
+
+    it('should attribute vitals to the domain and feature of the current route', async () => {
+      const observers: { type: string, callback: (list: any) => void }[] = []
+      Object.assign(global, {
+        PerformanceObserver: class {
+          constructor(private callback: (list: any) => void) {}
+          observe({ type }: { type: string }) { observers.push({ type, callback: this.callback }) }
+          disconnect() {}
+        }
+      })
+      Object.assign(window.location, { href: 'http://localhost:3000/checkout/payment' })
+      const onEvent = jest.fn(async () => {})
+      observMetrics.addExporter({ name: 'capture', configure: jest.fn(), export: onEvent })
+      await observMetrics.initialize()
+
+      const button = document.createElement('button')
+      observers.find(observer => observer.type === 'event')!.callback({
+        getEntries: () => [{ interactionId: 7, name: 'click', duration: 640, target: button }]
+      })
+      window.dispatchEvent(new Event('pagehide'))
+
+      const [[[event]]] = onEvent.mock.calls as any
+      expect(event).toMatchObject({
+        domain: 'ecommerce',
+        eventType: 'metric',
+        name: 'web_vitals.inp',
+        attributes: {
+          'business.feature': 'checkout',
+          'web_vitals.name': 'INP',
+          'web_vitals.value': 640,
+          'web_vitals.rating': 'poor',
+          'web_vitals.element': 'button',
+          'web_vitals.interaction_type': 'click',
+          'user.device_type': 'desktop'
+        },
+        businessContext: { domain: 'ecommerce', feature: 'checkout', businessImpact: 'performance' },
+        severity: 'warn'
+      })
+    })
+
+    it('should export vitals under their metric name and value', async () => {
+      const observers: { type: string, callback: (list: any) => void }[] = []
+      Object.assign(global, {
+        PerformanceObserver: class {
+          constructor(private callback: (list: any) => void) {}
+          observe({ type }: { type: string }) { observers.push({ type, callback: this.callback }) }
+          disconnect() {}
+        }
+      })
+      const onEvent = jest.fn(async () => {})
+      observMetrics.addExporter({ name: 'capture', configure: jest.fn(), export: onEvent })
+      await observMetrics.initialize()
+
+      observers.find(observer => observer.type === 'paint')!.callback({
+        getEntries: () => [{ name: 'first-contentful-paint', startTime: 1234 }]
+      })
+
+      const [[[event]]] = onEvent.mock.calls as any
+      const [metric] = new OtlpHttpExporter().convertToOtlpMetrics([event]).resourceMetrics[0].scopeMetrics[0].metrics
+      expect(metric.name).toBe('web_vitals.fcp')
+      expect(metric.gauge.dataPoints[0].asDouble).toBe(1234)
+    })
+  })
+
+  describe('global error capture', () => {
+    afterEach(() => {
+      Object.assign(window.location, { href: 'http://localhost:3000' })
+    })
+
+    it('should attribute uncaught errors to the domain of the current route', async () => {
+      Object.assign(window.location, { href: 'http://localhost:3000/checkout' })
+      const instance = new ObservMetrics({ ...mockConfig, errorCapture: { enabled: true } })
+      const onEvent = jest.fn(async () => {})
+      instance.addExporter({ name: 'capture', configure: jest.fn(), export: onEvent })
+      await instance.initialize()
+
+      window.dispatchEvent(new ErrorEvent('error', {
+        error: new TypeError('total is NaN'),
+        message: 'total is NaN',
+        filename: 'http://localhost:3000/static/app.js'
+      }))
+      instance.destroy()
+      window.dispatchEvent(new ErrorEvent('error', { message: 'after destroy' }))
+
+      expect(onEvent).toHaveBeenCalledTimes(1)
+      const [[[event]]] = onEvent.mock.calls as any
+      expect(event).toMatchObject({
+        domain: 'ecommerce',
+        eventType: 'error',
+        name: 'ecommerce.error',
+        attributes: {
+          'error.type': 'TypeError',
+          'error.source': 'error',
+          'error.filename': 'http://localhost:3000/static/app.js',
+          'error.attribution': 'route',
+          'business.feature': 'checkout'
+        }
+      })
+    })
+
+    it('should fall back to the stack and drop extension errors', async () => {
+      const instance = new ObservMetrics({ ...mockConfig, errorCapture: { enabled: true } })
+      const onEvent = jest.fn(async () => {})
+      instance.addExporter({ name: 'capture', configure: jest.fn(), export: onEvent })
+      await instance.initialize()
+
+      const appError = new Error('login failed')
+      appError.stack = 'Error: login failed\n    at submit (http://localhost:3000/auth/login.js:5:3)'
+      const extensionError = new Error('boom')
+      extensionError.stack = 'Error: boom\n    at run (chrome-extension://abc/content.js:1:1)'
+      window.dispatchEvent(new ErrorEvent('error', { error: appError, message: appError.message }))
+      window.dispatchEvent(new ErrorEvent('error', { error: extensionError, message: extensionError.message }))
+      instance.destroy()
+
+      expect(onEvent).toHaveBeenCalledTimes(1)
+      const [[[event]]] = onEvent.mock.calls as any
+      expect(event.domain).toBe('authentication')
+      expect(event.attributes['error.attribution']).toBe('stack')
+    })
   })
 
   describe('user context management', () => {
@@ -191,6 +450,122 @@ describe('ObservMetrics', () => {
       const stats = observMetrics.getStats()
       expect(stats).toBeDefined()
     })
+
+    it('should summarize repeated errors past errorThreshold as error.storm events', async () => {
+      const instance = new ObservMetrics({
+        ...mockConfig,
+        filtering: { ...mockConfig.filtering, errorThreshold: 2, errorStorm: { sampleSize: 1 } },
+        errorDeduplication: { enabled: false }
+      })
+      const onEvent = jest.fn(async () => {})
+      instance.addExporter({ name: 'capture', configure: jest.fn(), export: onEvent })
+      await instance.initialize()
+
+      for (let i = 0; i < 6; i++) {
+        instance.ecommerce().trackError(new Error('Payment declined'))
+      }
+      expect(instance.getStats().errorStorms).toEqual([expect.objectContaining({ domain: 'ecommerce', occurrences: 4 })])
+
+      window.dispatchEvent(new Event('pagehide'))
+      instance.destroy()
+
+      const events = onEvent.mock.calls.map(([[event]]: any) => event)
+      expect(events.filter(event => event.name === 'ecommerce.error')).toHaveLength(3)
+      expect(events.find(event => event.name === 'error.storm')).toMatchObject({
+        domain: 'ecommerce',
+        eventType: 'log',
+        severity: 'error',
+        attributes: {
+          'error.fingerprint': expect.stringMatching(/^[0-9a-f]{8}$/),
+          'error.storm.status': 'ongoing',
+          'error.storm.suppressed': 3,
+          'error.storm.occurrences': 4
+        }
+      })
+    })
+
+    it('should hold events until behavioral detection decides', async () => {
+      jest.useFakeTimers({ doNotFake: ['performance'] })
+      const instance = new ObservMetrics({
+        ...mockConfig,
+        filtering: { ...mockConfig.filtering, behavioralDetection: { enabled: true, observationWindow: 2000 } }
+      })
+      const onEvent = jest.fn(async () => {})
+      instance.addExporter({ name: 'capture', configure: jest.fn(), export: onEvent })
+      await instance.initialize()
+
+      instance.ecommerce().recordBusinessMetric('revenue_generated', 100)
+      expect(onEvent).not.toHaveBeenCalled()
+      expect(instance.getStats().humanity?.decision).toBe('pending')
+
+      window.dispatchEvent(new KeyboardEvent('keydown', { key: 'a' }))
+      jest.advanceTimersByTime(2000)
+      instance.destroy()
+      jest.useRealTimers()
+
+      expect(instance.getStats().humanity?.decision).toBe('human')
+      expect(onEvent).toHaveBeenCalledTimes(1)
+    })
+
+    it('should export nothing for a session judged to be a bot', async () => {
+      jest.useFakeTimers({ doNotFake: ['performance'] })
+      window.sessionStorage.clear()
+      const { sessionId: _sessionId, ...userContext } = mockConfig.userContext!
+      const instance = new ObservMetrics({
+        ...mockConfig,
+        userContext,
+        filtering: {
+          ...mockConfig.filtering,
+          errorThreshold: 2,
+          errorStorm: { sampleSize: 1 },
+          behavioralDetection: { enabled: true, observationWindow: 2000, requireInteraction: true }
+        }
+      })
+      const onEvent = jest.fn(async () => {})
+      instance.addExporter({ name: 'capture', configure: jest.fn(), export: onEvent })
+      await instance.initialize()
+
+      // Session start, a metric, errors and the storm they cause
+      instance.ecommerce().recordBusinessMetric('revenue_generated', 100)
+      for (let i = 0; i < 4; i++) {
+        instance.ecommerce().trackError(new Error('Payment declined'))
+      }
+
+      // No interaction at all during the window: a bot
+      jest.advanceTimersByTime(2000)
+      instance.ecommerce().trackError(new Error('Payment declined'))
+      instance.destroy()
+      jest.useRealTimers()
+
+      expect(instance.getStats().humanity?.decision).toBe('bot')
+      expect(onEvent).not.toHaveBeenCalled()
+    })
+
+    it('should send repeated errors once with occurrence counts', async () => {
+      const instance = new ObservMetrics(mockConfig)
+      const onEvent = jest.fn(async () => {})
+      instance.addExporter({ name: 'capture', configure: jest.fn(), export: onEvent })
+      await instance.initialize()
+
+      for (const orderId of [1001, 1002, 1003]) {
+        instance.ecommerce().trackError(new Error(`Order ${orderId} not found`))
+      }
+      expect(onEvent).toHaveBeenCalledTimes(1)
+
+      window.dispatchEvent(new Event('pagehide'))
+      instance.destroy()
+
+      const events = onEvent.mock.calls.map(([[event]]: any) => event)
+      expect(events).toHaveLength(2)
+      expect(events[0].attributes['error.occurrences']).toBe(1)
+      expect(events[1].attributes).toMatchObject({
+        'error.fingerprint': events[0].attributes['error.fingerprint'],
+        'error.message': 'Order 1003 not found',
+        'error.summary': true,
+        'error.first_event_id': events[0].id,
+        'error.occurrences': 3
+      })
+    })
   })
 
   describe('statistics and monitoring', () => {
@@ -246,6 +621,38 @@ describe('ObservMetrics', () => {
       expect(statsAfter.initialized).toBe(false)
       expect(statsAfter.eventsProcessed).toBe(0)
     })
+
+    it('should report suppressed errors and pending web vitals on destroy', async () => {
+      const observers: { type: string, callback: (list: any) => void }[] = []
+      Object.assign(global, {
+        PerformanceObserver: class {
+          constructor(private callback: (list: any) => void) {}
+          observe({ type }: { type: string }) { observers.push({ type, callback: this.callback }) }
+          disconnect() {}
+        }
+      })
+      const instance = new ObservMetrics({
+        ...mockConfig,
+        filtering: { ...mockConfig.filtering, errorThreshold: 2, errorStorm: { sampleSize: 1 } },
+        errorDeduplication: { enabled: false }
+      })
+      const onEvent = jest.fn(async () => {})
+      instance.addExporter({ name: 'capture', configure: jest.fn(), export: onEvent })
+      await instance.initialize()
+
+      observers.find(observer => observer.type === 'layout-shift')!.callback({
+        getEntries: () => [{ value: 0.2, startTime: 100, hadRecentInput: false }]
+      })
+      for (let i = 0; i < 4; i++) {
+        instance.ecommerce().trackError(new Error('Payment declined'))
+      }
+      instance.destroy()
+      delete (global as any).PerformanceObserver
+
+      const events = onEvent.mock.calls.map(([[event]]: any) => event)
+      expect(events.find(event => event.name === 'web_vitals.cls')?.attributes['web_vitals.value']).toBe(0.2)
+      expect(events.find(event => event.name === 'error.storm')?.attributes['error.storm.suppressed']).toBe(1)
+    })
   })
 
   describe('platform configurations', () => {
@@ -286,6 +693,254 @@ describe('ObservMetrics', () => {
       
       newrelicObserv.destroy()
     })
+
+    it('should configure grafana exporter when specified', () => {
+      const grafanaConfig = {
+        ...mockConfig,
+        platform: {
+          platform: 'grafana' as const,
+          endpoint: 'http://localhost:3100'
+        }
+      }
+      
+      const grafanaObserv = new ObservMetrics(grafanaConfig)
+      const stats = grafanaObserv.getStats()
+      expect(stats.exporters).toContain('grafana')
+      
+      grafanaObserv.destroy()
+    })
+  })
+
+  describe('multiple exporters', () => {
+    it('should configure an exporter per platform config', () => {
+      const multiObserv = new ObservMetrics({
+        ...mockConfig,
+        platform: [
+          { platform: 'datadog', apiKey: 'test-key', routing: { eventTypes: ['error'] } },
+          { platform: 'otlp', endpoint: 'http://localhost:4318', routing: { eventTypes: ['metric'] } }
+        ]
+      })
+
+      expect(multiObserv.getStats().exporters).toEqual(['datadog', 'otlp'])
+      multiObserv.destroy()
+    })
+
+    it('should only send events to exporters with matching routing rules', async () => {
+      Object.defineProperty(navigator, 'userAgent', {
+        value: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+        configurable: true
+      })
+
+      const { DatadogExporter, OtlpHttpExporter } = await import('../src/index')
+      const datadogExport = jest.spyOn(DatadogExporter.prototype, 'export').mockResolvedValue()
+      const otlpExport = jest.spyOn(OtlpHttpExporter.prototype, 'export').mockResolvedValue()
+
+      const multiObserv = new ObservMetrics({
+        ...mockConfig,
+        platform: [
+          { platform: 'datadog', apiKey: 'test-key', routing: { eventTypes: ['error'] } },
+          { platform: 'otlp', endpoint: 'http://localhost:4318', routing: { eventTypes: ['metric'], businessImpacts: ['revenue'] } }
+        ]
+      })
+      await multiObserv.initialize()
+
+      multiObserv.ecommerce().recordBusinessMetric('revenue_generated', 100)
+      multiObserv.ecommerce().trackError(new Error('Payment declined'))
+
+      expect(otlpExport).toHaveBeenCalledTimes(1)
+      expect(otlpExport.mock.calls[0][0][0].eventType).toBe('metric')
+      expect(datadogExport).toHaveBeenCalledTimes(1)
+      expect(datadogExport.mock.calls[0][0][0].eventType).toBe('error')
+
+      datadogExport.mockRestore()
+      otlpExport.mockRestore()
+      multiObserv.destroy()
+    })
+  })
+
+  describe('sessions', () => {
+    it('should share one session ID across events and report session start', async () => {
+      Object.defineProperty(navigator, 'userAgent', {
+        value: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+        configurable: true
+      })
+      window.sessionStorage.clear()
+      const exported: any[] = []
+      const sink: ExporterPlugin = {
+        name: 'session-sink',
+        configure: jest.fn(),
+        export: jest.fn(async events => { exported.push(...events) })
+      }
+
+      const { sessionId: _sessionId, ...userContext } = mockConfig.userContext!
+      const sessionObserv = new ObservMetrics({ ...mockConfig, userContext })
+      sessionObserv.addExporter(sink)
+      await sessionObserv.initialize()
+
+      const sessionId = sessionObserv.getStats().userContext.sessionId
+      expect(sessionId).not.toBe('unknown')
+      expect(exported[0]).toMatchObject({ name: 'session.start', attributes: { 'session.id': sessionId } })
+
+      await sessionObserv.ecommerce().instrumentUserJourney('purchase_flow', 'view_cart', async () => 'ok')
+      await sessionObserv.ecommerce().instrumentUserJourney('purchase_flow', 'checkout', async () => 'ok')
+      const journeyEvents = exported.filter(event => event.attributes['journey.name'] === 'purchase_flow')
+      expect(journeyEvents).toHaveLength(2)
+      journeyEvents.forEach(event => expect(event.attributes['user.session_id']).toBe(sessionId))
+      expect(sessionObserv.getStats().session?.eventCount).toBe(exported.length - 1)
+
+      sessionObserv.endSession()
+      expect(exported.find(event => event.name === 'session.end')).toMatchObject({
+        attributes: { 'session.id': sessionId, 'session.end_reason': 'manual' }
+      })
+      expect(sessionObserv.getStats().userContext.sessionId).not.toBe(sessionId)
+      sessionObserv.destroy()
+    })
+  })
+
+  describe('journey tracking', () => {
+    let exported: TelemetryEvent[]
+    let journeyObserv: ObservMetrics
+
+    beforeEach(async () => {
+      Object.defineProperty(navigator, 'userAgent', {
+        value: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+        configurable: true
+      })
+      window.sessionStorage.clear()
+      exported = []
+
+      const { sessionId: _sessionId, ...userContext } = mockConfig.userContext!
+      journeyObserv = new ObservMetrics({
+        ...mockConfig,
+        userContext,
+        domains: [{
+          ...mockConfig.domains[1],
+          journeys: [{ name: 'purchase_flow', steps: ['view_cart', 'checkout', 'complete_purchase'], businessImpact: 'revenue' }]
+        }]
+      })
+      journeyObserv.addExporter({
+        name: 'journey-sink',
+        configure: jest.fn(),
+        export: jest.fn(async events => { exported.push(...events) })
+      })
+      await journeyObserv.initialize()
+    })
+
+    afterEach(() => {
+      journeyObserv.destroy()
+    })
+
+    it('should report a completed journey with its step sequence', async () => {
+      const ecommerce = journeyObserv.getDomainInstrumentor('ecommerce')
+      await ecommerce.instrumentUserJourney('purchase_flow', 'view_cart', async () => 'ok')
+      await ecommerce.instrumentUserJourney('purchase_flow', 'checkout', async () => 'ok')
+      await ecommerce.instrumentUserJourney('purchase_flow', 'complete_purchase', async () => 'ok')
+
+      const checkout = exported.find(event => event.attributes['journey.step'] === 'checkout')
+      expect(checkout?.attributes['journey.previous_step']).toBe('view_cart')
+      expect(exported.find(event => event.name === 'journey.completed')).toMatchObject({
+        domain: 'ecommerce',
+        attributes: {
+          'journey.name': 'purchase_flow',
+          'journey.steps_completed': 3,
+          'journey.step_sequence': 'view_cart > checkout > complete_purchase',
+          'journey.duration_ms': expect.any(Number)
+        },
+        businessContext: { userJourney: 'purchase_flow', businessImpact: 'revenue' },
+        severity: 'info'
+      })
+      expect(journeyObserv.getStats().journeysInProgress).toEqual([])
+    })
+
+    it('should report the drop-off step when the session ends mid-journey', async () => {
+      await journeyObserv.getDomainInstrumentor('ecommerce').instrumentUserJourney('purchase_flow', 'view_cart', async () => 'ok')
+      expect(journeyObserv.getStats().journeysInProgress).toEqual(['ecommerce.purchase_flow'])
+
+      journeyObserv.endSession()
+
+      expect(exported.find(event => event.name === 'journey.abandoned')).toMatchObject({
+        attributes: {
+          'journey.last_step': 'view_cart',
+          'journey.drop_off_step': 'checkout',
+          'journey.abandon_reason': 'session_end'
+        },
+        severity: 'warn'
+      })
+    })
+  })
+
+  describe('exporter plugins', () => {
+    const createSink = (): ExporterPlugin => ({
+      name: 'analytics-sink',
+      configure: jest.fn(),
+      export: jest.fn().mockResolvedValue(undefined),
+      forceFlush: jest.fn().mockResolvedValue(undefined),
+      destroy: jest.fn()
+    })
+
+    it('should create registered custom exporters from platform configs', () => {
+      const sink = createSink()
+      registerExporter('analytics', () => sink)
+
+      const customObserv = new ObservMetrics({
+        ...mockConfig,
+        platform: { platform: 'analytics', endpoint: 'https://warehouse.example.com' }
+      })
+
+      expect(customObserv.getStats().exporters).toEqual(['analytics-sink'])
+      expect(sink.configure).toHaveBeenCalledWith(expect.objectContaining({ endpoint: 'https://warehouse.example.com' }))
+      customObserv.destroy()
+      expect(sink.destroy).toHaveBeenCalled()
+    })
+
+    it('should fall back to console for unregistered platforms', () => {
+      const unknownObserv = new ObservMetrics({
+        ...mockConfig,
+        platform: { platform: 'not-registered' }
+      })
+
+      expect(unknownObserv.getStats().exporters).toEqual(['console'])
+      unknownObserv.destroy()
+    })
+
+    it('should add, flush and remove exporters at runtime', async () => {
+      const sink = createSink()
+
+      observMetrics.addExporter(sink, { eventTypes: ['metric'] })
+      expect(observMetrics.getStats().exporters).toEqual(['console', 'analytics-sink'])
+
+      await observMetrics.flush()
+      expect(sink.forceFlush).toHaveBeenCalled()
+
+      expect(observMetrics.removeExporter('analytics-sink')).toBe(true)
+      expect(sink.destroy).toHaveBeenCalled()
+      expect(observMetrics.getStats().exporters).toEqual(['console'])
+      expect(observMetrics.removeExporter('analytics-sink')).toBe(false)
+    })
+
+    it('should flush exporters for unload when the page is hidden', async () => {
+      const sink = { ...createSink(), flushOnUnload: jest.fn() }
+      observMetrics.addExporter(sink)
+      await observMetrics.initialize()
+
+      Object.defineProperty(document, 'visibilityState', { value: 'hidden', configurable: true })
+      document.dispatchEvent(new Event('visibilitychange'))
+      window.dispatchEvent(new Event('pagehide'))
+
+      expect(sink.flushOnUnload).toHaveBeenCalledTimes(2)
+      delete (document as any).visibilityState
+
+      observMetrics.destroy()
+      window.dispatchEvent(new Event('pagehide'))
+      expect(sink.flushOnUnload).toHaveBeenCalledTimes(2)
+    })
+
+    it('should add exporters from platform configs', () => {
+      const exporter = observMetrics.addExporter({ platform: 'jaeger', endpoint: 'http://localhost:9411' })
+
+      expect(exporter.name).toBe('jaeger')
+      expect(observMetrics.getStats().exporters).toContain('jaeger')
+    })
   })
 
   describe('error handling', () => {
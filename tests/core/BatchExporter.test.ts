@@ -0,0 +1,197 @@
+/**
+ * Unit tests for BatchExporter, the delivery shared by the HTTP exporters
+ */
+
+import { BatchExporter } from '../../src/core/BatchExporter'
+import type { ExportRequest } from '../../src/core/BatchExporter'
+import type { TelemetryEvent, PlatformConfig } from '../../src/types'
+
+// Sends spans and logs to separate endpoints, like most platforms
+class TestExporter extends BatchExporter {
+  name = 'test'
+  logged: TelemetryEvent[] = []
+
+  constructor() {
+    super({ platform: 'test', batchSize: 3 }, { label: 'TestExporter', maxPayloadBytes: 64 * 1024, maxRetainedEvents: 2 })
+  }
+
+  protected isConfigured(): boolean {
+    return Boolean(this.config.endpoint)
+  }
+
+  protected getRequests(events: TelemetryEvent[]): ExportRequest[] {
+    return ['span', 'log'].map(eventType => ({
+      url: `${this.config.endpoint}/${eventType}s`,
+      headers: { 'Content-Type': 'application/json' },
+      events: events.filter(event => event.eventType === eventType),
+      serialize: batch => JSON.stringify(batch.map(event => event.id)),
+      api: `Test ${eventType} API`
+    }))
+  }
+
+  protected logToConsole(events: TelemetryEvent[]): void {
+    this.logged.push(...events)
+  }
+}
+
+describe('BatchExporter', () => {
+  let exporter: TestExporter
+  let fetchMock: jest.Mock
+
+  const createEvent = (id: string, eventType: TelemetryEvent['eventType'] = 'span'): TelemetryEvent => ({
+    id,
+    timestamp: '2024-01-01T00:00:01.000Z',
+    domain: 'ecommerce',
+    eventType,
+    name: 'ecommerce.checkout',
+    attributes: {},
+    businessContext: {
+      domain: 'ecommerce',
+      businessImpact: 'revenue'
+    }
+  })
+
+  const requestsTo = (path: string) => fetchMock.mock.calls
+    .filter(([url]) => url === `http://collector${path}`)
+    .map(([, init]) => JSON.parse(init.body))
+
+  const queuedIds = () => JSON.parse(window.localStorage.getItem('observ-metrics:offline-queue:test:http://collector') || '[]')
+    .flatMap((batch: any) => batch.events.map((event: TelemetryEvent) => event.id))
+
+  const configure = (config: Partial<PlatformConfig> = {}) => {
+    exporter.configure({ platform: 'test', endpoint: 'http://collector', retry: { baseDelay: 1 }, ...config })
+  }
+
+  beforeEach(() => {
+    window.localStorage.clear()
+    Object.defineProperty(navigator, 'onLine', { value: true, configurable: true })
+    fetchMock = jest.fn().mockResolvedValue({ ok: true, status: 200, statusText: 'OK' })
+    global.fetch = fetchMock as any
+
+    exporter = new TestExporter()
+    configure()
+  })
+
+  afterEach(() => {
+    exporter.destroy()
+    delete (global as any).fetch
+  })
+
+  it('should send once the batch is full, one request per endpoint', async () => {
+    await exporter.export([createEvent('span_1'), createEvent('log_1', 'log')])
+    expect(fetchMock).not.toHaveBeenCalled()
+
+    await exporter.export([createEvent('span_2')])
+
+    expect(requestsTo('/spans')).toEqual([['span_1', 'span_2']])
+    expect(requestsTo('/logs')).toEqual([['log_1']])
+    expect(exporter.getStats().requests).toBe(2)
+  })
+
+  it('should log to the console until an endpoint is configured', async () => {
+    exporter.configure({ platform: 'test', endpoint: undefined })
+
+    await exporter.export([createEvent('span_1')])
+    await exporter.forceFlush()
+
+    expect(fetchMock).not.toHaveBeenCalled()
+    expect(exporter.logged).toEqual([createEvent('span_1')])
+  })
+
+  it('should retry when the endpoint is unavailable', async () => {
+    fetchMock.mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Unavailable' })
+
+    await exporter.export([createEvent('span_1')])
+    await exporter.forceFlush()
+
+    expect(requestsTo('/spans')).toEqual([['span_1'], ['span_1']])
+  })
+
+  it('should drop events the endpoint rejects as invalid', async () => {
+    configure({ offlineQueue: { enabled: true } })
+    fetchMock.mockResolvedValueOnce({ ok: false, status: 400, statusText: 'Bad Request' })
+
+    await exporter.export([createEvent('span_1')])
+    await exporter.forceFlush()
+    await exporter.forceFlush()
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(queuedIds()).toEqual([])
+  })
+
+  it('should queue only the events of the request that failed and replay them later', async () => {
+    configure({ offlineQueue: { enabled: true }, retry: { maxAttempts: 1 } })
+    fetchMock.mockImplementation(async (url: string) => url.endsWith('/logs')
+      ? { ok: false, status: 503, statusText: 'Unavailable' }
+      : { ok: true, status: 200, statusText: 'OK' })
+
+    await exporter.export([createEvent('span_1'), createEvent('log_1', 'log')])
+    await exporter.forceFlush()
+    expect(queuedIds()).toEqual(['log_1'])
+
+    fetchMock.mockResolvedValue({ ok: true, status: 200, statusText: 'OK' })
+    await exporter.export([createEvent('span_2')])
+    await exporter.forceFlush()
+    await new Promise(resolve => setTimeout(resolve, 0))
+
+    expect(requestsTo('/spans')).toEqual([['span_1'], ['span_2']])
+    expect(requestsTo('/logs')).toEqual([['log_1'], ['log_1']])
+    expect(queuedIds()).toEqual([])
+  })
+
+  it('should queue only the payloads not delivered when a request is split', async () => {
+    // One event per payload
+    configure({ offlineQueue: { enabled: true }, retry: { maxAttempts: 1 }, maxPayloadBytes: 12 })
+    fetchMock
+      .mockResolvedValueOnce({ ok: true, status: 200, statusText: 'OK' })
+      .mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Unavailable' })
+
+    await exporter.export([createEvent('span_1'), createEvent('span_2'), createEvent('span_3')])
+    expect(requestsTo('/spans')).toEqual([['span_1'], ['span_2']])
+    expect(queuedIds()).toEqual(['span_2', 'span_3'])
+
+    // Replay fails again after delivering span_2
+    fetchMock
+      .mockResolvedValueOnce({ ok: true, status: 200, statusText: 'OK' })
+      .mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Unavailable' })
+    await (exporter as any).offlineQueue.replay()
+    expect(queuedIds()).toEqual(['span_3'])
+
+    await (exporter as any).offlineQueue.replay()
+    expect(requestsTo('/spans')).toEqual([['span_1'], ['span_2'], ['span_2'], ['span_3'], ['span_3']])
+    expect(queuedIds()).toEqual([])
+  })
+
+  it('should queue batches while offline without sending them', async () => {
+    configure({ offlineQueue: { enabled: true } })
+    Object.defineProperty(navigator, 'onLine', { value: false, configurable: true })
+
+    await exporter.export([createEvent('span_1')])
+    await exporter.forceFlush()
+
+    expect(fetchMock).not.toHaveBeenCalled()
+    expect(queuedIds()).toEqual(['span_1'])
+  })
+
+  it('should keep a few events for the next flush without an offline queue', async () => {
+    configure({ retry: { maxAttempts: 1 } })
+    fetchMock.mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Unavailable' })
+
+    await exporter.export([createEvent('span_1'), createEvent('span_2'), createEvent('span_3')])
+    await exporter.forceFlush()
+
+    expect(requestsTo('/spans')).toEqual([['span_1', 'span_2', 'span_3'], ['span_1', 'span_2']])
+  })
+
+  it('should deliver pending events with sendBeacon on destroy', () => {
+    const sendBeacon = jest.fn().mockReturnValue(true)
+    Object.defineProperty(navigator, 'sendBeacon', { value: sendBeacon, configurable: true })
+
+    exporter.export([createEvent('span_1'), createEvent('log_1', 'log')])
+    exporter.destroy()
+
+    expect(sendBeacon.mock.calls.map(([url]) => url)).toEqual(['http://collector/spans', 'http://collector/logs'])
+    expect(fetchMock).not.toHaveBeenCalled()
+    delete (navigator as any).sendBeacon
+  })
+})
\ No newline at end of file
@@ -2,8 +2,9 @@
  * Unit tests for DomainInstrumentor class
  */
 
-import { DomainInstrumentor } from '../../src/core/DomainInstrumentor'
-import type { DomainConfig, UserContext, TelemetryEvent } from '../../src/types'
+import { DomainInstrumentor, ApiResponseError } from '../../src/core/DomainInstrumentor'
+import { JourneyTracker } from '../../src/core/JourneyTracker'
+import type { DomainConfig, UserContext, TelemetryEvent, JourneyDefinition } from '../../src/types'
 
 // Mock OpenTelemetry API
 jest.mock('@opentelemetry/api', () => ({
@@ -29,11 +30,24 @@ jest.mock('@opentelemetry/api', () => ({
   }
 }))
 
+function mockResponse(status: number, body: any = { ok: true }, delay = 0) {
+  const text = typeof body === 'string' ? body : JSON.stringify(body)
+  return async () => {
+    if (delay) await new Promise(resolve => setTimeout(resolve, delay))
+    return {
+      status,
+      headers: { get: (name: string) => name.toLowerCase() === 'content-type' && typeof body !== 'string' ? 'application/json' : null },
+      text: async () => text
+    }
+  }
+}
+
 describe('DomainInstrumentor', () => {
   let mockDomain: DomainConfig
   let mockUserContext: UserContext
   let mockOnEvent: jest.Mock
   let instrumentor: DomainInstrumentor
+  let fetchMock: jest.Mock
 
   beforeEach(() => {
     mockDomain = {
@@ -41,7 +55,21 @@ describe('DomainInstrumentor', () => {
       priority: 'critical',
       slaTarget: 2000,
       errorThreshold: 0.1,
-      features: ['cart', 'checkout', 'payment']
+      features: ['cart', 'checkout', 'payment'],
+      journeys: [
+        {
+          name: 'purchase_flow',
+          steps: [
+            'add_to_cart',
+            'view_cart',
+            { name: 'apply_coupon', optional: true },
+            { name: 'pay_card', alternatives: ['pay_paypal'], maxDuration: 1 },
+            'checkout'
+          ],
+          businessImpact: 'revenue'
+        },
+        { name: 'user_login_flow', steps: ['enter_credentials'] }
+      ]
     }
 
     mockUserContext = {
@@ -52,9 +80,15 @@ describe('DomainInstrumentor', () => {
     }
 
     mockOnEvent = jest.fn()
+    fetchMock = jest.fn(mockResponse(200))
+    global.fetch = fetchMock as any
     instrumentor = new DomainInstrumentor(mockDomain, mockUserContext, mockOnEvent)
   })
 
+  afterEach(() => {
+    delete (global as any).fetch
+  })
+
   describe('initialization', () => {
     it('should create instance with proper configuration', () => {
       expect(instrumentor).toBeInstanceOf(DomainInstrumentor)
@@ -75,9 +109,7 @@ describe('DomainInstrumentor', () => {
 
   describe('instrumentApiCall', () => {
     it('should instrument successful API calls', async () => {
-      // Mock Math.random to ensure no error (threshold is 0.1, so use 0.2)
-      const originalRandom = Math.random
-      Math.random = jest.fn(() => 0.2)
+      fetchMock.mockImplementation(mockResponse(200, { cartId: 'c-1' }, 2))
 
       const result = await instrumentor.instrumentApiCall(
         'add_to_cart',
@@ -87,16 +119,85 @@ describe('DomainInstrumentor', () => {
 
       expect(result.success).toBe(true)
       expect(result.duration).toBeGreaterThan(0)
+      expect(result.status).toBe(200)
+      expect(result.data).toEqual({ cartId: 'c-1' })
       expect(result.customMetrics).toHaveProperty('sla_violated')
       expect(result.customMetrics).toHaveProperty('response_status')
+      expect(result.customMetrics?.response_size_bytes).toBe(JSON.stringify({ cartId: 'c-1' }).length)
+    })
+
+    it('should perform the request through the injected fetch', async () => {
+      const injectedFetch = jest.fn(mockResponse(201, 'created'))
+      const injected = new DomainInstrumentor(mockDomain, mockUserContext, mockOnEvent, { fetch: injectedFetch as any })
+
+      const result = await injected.instrumentApiCall('add_to_cart', '/api/cart/add', 'POST', {
+        headers: { Authorization: 'Bearer token' },
+        body: { sku: 'sku-1', quantity: 2 },
+        requestInit: { credentials: 'include' }
+      })
+
+      expect(fetchMock).not.toHaveBeenCalled()
+      expect(injectedFetch).toHaveBeenCalledWith('/api/cart/add', {
+        credentials: 'include',
+        method: 'POST',
+        headers: {
+          traceparent: expect.stringMatching(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/),
+          Authorization: 'Bearer token',
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ sku: 'sku-1', quantity: 2 })
+      })
+      expect(result.data).toBe('created')
+
+      const event = mockOnEvent.mock.calls[0][0]
+      expect(event.attributes['http.status_code']).toBe(201)
+      expect(event.attributes['http.response_size_bytes']).toBe(7)
+      expect(event.attributes['http.response_time_ms']).toBeGreaterThanOrEqual(0)
+      expect(event.attributes['api.success']).toBe(true)
+    })
+
+    it('should write the propagated trace context onto the event', async () => {
+      await instrumentor.instrumentApiCall('add_to_cart', '/api/cart/add', 'POST')
+
+      const [, init] = fetchMock.mock.calls[0]
+      const event = mockOnEvent.mock.calls[0][0]
+      expect(init.headers.traceparent).toBe(`00-${event.attributes['trace.id']}-${event.attributes['span.id']}-01`)
+    })
+
+    it('should not send trace headers to origins outside the allowlist', async () => {
+      await instrumentor.instrumentFetch('search', 'https://search.thirdparty.com/q', { headers: [['Accept', 'application/json']] })
 
-      Math.random = originalRandom
+      expect(fetchMock).toHaveBeenCalledWith('https://search.thirdparty.com/q', { headers: [['Accept', 'application/json']] })
+      expect(mockOnEvent.mock.calls[0][0].attributes['trace.id']).toMatch(/^[0-9a-f]{32}$/)
+    })
+
+    it('should emit an error event for non-2xx responses', async () => {
+      fetchMock.mockImplementation(mockResponse(422, { error: 'out_of_stock' }))
+
+      const result = await instrumentor.instrumentApiCall(
+        'checkout',
+        '/api/checkout',
+        'POST'
+      )
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBeInstanceOf(ApiResponseError)
+      expect(result.status).toBe(422)
+      expect(result.data).toEqual({ error: 'out_of_stock' })
+      expect(result.customMetrics?.error_occurred).toBe(1)
+      expect(result.customMetrics?.response_status).toBe(422)
+
+      expect(mockOnEvent).toHaveBeenCalledTimes(1)
+      const event = mockOnEvent.mock.calls[0][0]
+      expect(event.eventType).toBe('error')
+      expect(event.name).toBe('ecommerce.checkout_error')
+      expect(event.attributes['error.type']).toBe('ApiResponseError')
+      expect(event.attributes['http.status_code']).toBe(422)
+      expect(event.attributes['api.success']).toBe(false)
     })
 
     it('should handle API call failures', async () => {
-      // Mock Math.random to force an error
-      const originalRandom = Math.random
-      Math.random = jest.fn(() => 0.05) // Force error since threshold is 0.1
+      fetchMock.mockRejectedValue(new TypeError('Failed to fetch'))
 
       const result = await instrumentor.instrumentApiCall(
         'checkout',
@@ -106,9 +207,8 @@ describe('DomainInstrumentor', () => {
 
       expect(result.success).toBe(false)
       expect(result.error).toBeDefined()
+      expect(result.status).toBeUndefined()
       expect(result.customMetrics?.error_occurred).toBe(1)
-
-      Math.random = originalRandom
     })
 
     it('should track SLA violations', async () => {
@@ -124,9 +224,7 @@ describe('DomainInstrumentor', () => {
         mockOnEvent
       )
 
-      // Mock Math.random to ensure no error (threshold is 0.1, so use 0.2)
-      const originalRandom = Math.random
-      Math.random = jest.fn(() => 0.2)
+      fetchMock.mockImplementation(mockResponse(200, { ok: true }, 5))
 
       const result = await strictInstrumentor.instrumentApiCall(
         'slow_api',
@@ -135,7 +233,32 @@ describe('DomainInstrumentor', () => {
       )
 
       expect(result.customMetrics?.sla_violated).toBe(1)
-      Math.random = originalRandom
+    })
+
+    it('should instrument fetch calls and resolve with the original response', async () => {
+      fetchMock.mockImplementation(async () => ({
+        status: 503,
+        headers: { get: (name: string) => name === 'content-length' ? '12' : null },
+        text: async () => 'Service down'
+      }))
+
+      const response = await instrumentor.instrumentFetch('checkout', '/api/checkout', { method: 'post' })
+
+      expect(response.status).toBe(503)
+      expect(await response.text()).toBe('Service down')
+      const event = mockOnEvent.mock.calls[0][0]
+      expect(event.eventType).toBe('error')
+      expect(event.attributes['http.method']).toBe('POST')
+      expect(event.attributes['http.status_code']).toBe(503)
+      expect(event.attributes['http.response_size_bytes']).toBe(12)
+    })
+
+    it('should reject instrumented fetch calls with the network error', async () => {
+      const networkError = new TypeError('Failed to fetch')
+      fetchMock.mockRejectedValue(networkError)
+
+      await expect(instrumentor.instrumentFetch('checkout', '/api/checkout')).rejects.toBe(networkError)
+      expect(mockOnEvent.mock.calls[0][0].name).toBe('ecommerce.checkout_error')
     })
 
     it('should include journey context when provided', async () => {
@@ -191,6 +314,117 @@ describe('DomainInstrumentor', () => {
       expect(result.success).toBe(false)
       expect(result.error).toBeInstanceOf(Error)
       expect(result.customMetrics?.journey_step_failed).toBe(1)
+      expect(mockOnEvent).toHaveBeenCalledWith(expect.objectContaining({
+        eventType: 'error',
+        name: 'ecommerce.journey.purchase_flow.checkout_error',
+        attributes: expect.objectContaining({
+          'journey.name': 'purchase_flow',
+          'journey.step': 'checkout',
+          'journey.step_number': 5,
+          'journey.step_duration_ms': expect.any(Number),
+          'error.type': 'Error',
+          'error.message': 'Journey failed'
+        }),
+        businessContext: expect.objectContaining({ userJourney: 'purchase_flow', businessImpact: 'revenue' }),
+        severity: 'error'
+      }))
+    })
+
+    it('should rethrow journey step failures when asked to, after reporting them', async () => {
+      const error = new Error('Journey failed')
+
+      await expect(instrumentor.instrumentUserJourney(
+        'purchase_flow',
+        'checkout',
+        jest.fn().mockRejectedValue(error),
+        { rethrow: true }
+      )).rejects.toBe(error)
+      expect(mockOnEvent).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'error' }))
+    })
+
+    it('should number steps from the declared journey', async () => {
+      const mockOperation = jest.fn().mockResolvedValue({})
+
+      await instrumentor.instrumentUserJourney('purchase_flow', 'apply_coupon', mockOperation)
+      await instrumentor.instrumentUserJourney('purchase_flow', 'checkout', mockOperation)
+
+      const [coupon, checkout] = mockOnEvent.mock.calls.map(call => call[0].attributes)
+      expect(coupon['journey.step_number']).toBe(3)
+      expect(coupon['journey.step_optional']).toBe(true)
+      expect(coupon['journey.total_steps']).toBe(5)
+      expect(checkout['journey.step_number']).toBe(5)
+    })
+
+    it('should give alternative steps the same number and flag slow steps', async () => {
+      const slowOperation = jest.fn(() => new Promise(resolve => setTimeout(resolve, 5)))
+
+      await instrumentor.instrumentUserJourney('purchase_flow', 'pay_paypal', slowOperation)
+
+      const event = mockOnEvent.mock.calls[0][0]
+      expect(event.attributes['journey.step_number']).toBe(4)
+      expect(event.attributes['journey.step_over_max']).toBe(true)
+      expect(event.attributes['journey.step_max_duration_ms']).toBe(1)
+      expect(event.severity).toBe('warn')
+    })
+
+    describe('journey completion', () => {
+      let listener: jest.Mock
+      let journeyTracker: JourneyTracker
+
+      const createTracked = (steps: JourneyDefinition['steps']) => new DomainInstrumentor(
+        { ...mockDomain, journeys: [{ name: 'signup_flow', steps }] },
+        mockUserContext,
+        mockOnEvent,
+        { journeyTracker }
+      )
+
+      beforeEach(() => {
+        window.sessionStorage.clear()
+        listener = jest.fn()
+        journeyTracker = new JourneyTracker({}, () => 'test-session-123', listener)
+      })
+
+      it('should complete a journey when its optional last step is skipped', async () => {
+        const tracked = createTracked(['create_account', 'confirm_email', { name: 'feedback', optional: true }])
+        const operation = jest.fn().mockResolvedValue({})
+
+        await tracked.instrumentUserJourney('signup_flow', 'create_account', operation)
+        await tracked.instrumentUserJourney('signup_flow', 'confirm_email', operation)
+        // Taken after completion, it doesn't start another journey
+        await tracked.instrumentUserJourney('signup_flow', 'feedback', operation)
+
+        expect(listener.mock.calls.map(([type, progress]) => [type, progress.steps])).toEqual([
+          ['completed', ['create_account', 'confirm_email']]
+        ])
+        expect(journeyTracker.getInProgress()).toEqual([])
+      })
+
+      it('should complete a journey through an alternative last step', async () => {
+        const tracked = createTracked(['create_account', { name: 'confirm_email', alternatives: ['confirm_sms'] }])
+        const operation = jest.fn().mockResolvedValue({})
+
+        await tracked.instrumentUserJourney('signup_flow', 'create_account', operation)
+        await tracked.instrumentUserJourney('signup_flow', 'confirm_sms', operation)
+
+        expect(listener).toHaveBeenCalledWith('completed', expect.objectContaining({ steps: ['create_account', 'confirm_sms'] }))
+        expect(journeyTracker.getInProgress()).toEqual([])
+      })
+    })
+
+    it('should warn once about undeclared journeys and steps', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      const mockOperation = jest.fn().mockResolvedValue({})
+
+      await instrumentor.instrumentUserJourney('wishlist_flow', 'add_item', mockOperation)
+      await instrumentor.instrumentUserJourney('wishlist_flow', 'add_item', mockOperation)
+      await instrumentor.instrumentUserJourney('purchase_flow', 'gift_wrap', mockOperation)
+
+      expect(warnSpy).toHaveBeenCalledTimes(2)
+      expect(warnSpy).toHaveBeenCalledWith('[DomainInstrumentor] Journey "wishlist_flow" is not declared in domain "ecommerce"')
+      expect(warnSpy).toHaveBeenCalledWith('[DomainInstrumentor] Step "gift_wrap" is not declared in journey "purchase_flow"')
+      expect(mockOnEvent.mock.calls[0][0].attributes['journey.step_number']).toBe(0)
+      expect(mockOnEvent.mock.calls[0][0].businessContext.businessImpact).toBe('engagement')
+      warnSpy.mockRestore()
     })
 
     it('should emit telemetry events for journey steps', async () => {
@@ -206,6 +440,7 @@ describe('DomainInstrumentor', () => {
       const eventCall = mockOnEvent.mock.calls[0][0]
       expect(eventCall.name).toContain('journey.user_login_flow.enter_credentials')
       expect(eventCall.businessContext.userJourney).toBe('user_login_flow')
+      expect(eventCall.attributes['journey.step_duration_ms']).toBeGreaterThanOrEqual(0)
     })
   })
 
@@ -0,0 +1,132 @@
+/**
+ * Unit tests for DomainResolver
+ */
+
+import { DomainResolver } from '../../src/core/DomainResolver'
+import type { DomainConfig } from '../../src/types'
+
+describe('DomainResolver', () => {
+  const domains: DomainConfig[] = [
+    {
+      name: 'ecommerce',
+      priority: 'critical',
+      slaTarget: 2000,
+      errorThreshold: 0.01,
+      features: ['cart', 'checkout']
+    },
+    {
+      name: 'billing',
+      priority: 'high',
+      slaTarget: 3000,
+      errorThreshold: 0.01,
+      features: ['invoices']
+    }
+  ]
+
+  it('should resolve URLs with the default rules', () => {
+    const resolver = new DomainResolver(domains)
+
+    const match = resolver.resolve('https://shop.example.com/api/cart/add?sku=1')
+    expect(match?.domain.name).toBe('ecommerce')
+    expect(match?.feature).toBe('cart')
+
+    // Default rules pointing at unconfigured domains are skipped
+    expect(resolver.resolve('/api/auth/login')).toBeNull()
+  })
+
+  it('should use configured rules in order', () => {
+    const resolver = new DomainResolver(domains, [
+      { match: /\/v2\/invoices\/\d+$/, domain: 'billing', feature: 'invoice_detail' },
+      { match: '/v2/', domain: 'billing' },
+      { match: '/api/', domain: 'ecommerce' }
+    ])
+
+    expect(resolver.resolve('/v2/invoices/42')?.feature).toBe('invoice_detail')
+
+    const fallback = resolver.resolve('/v2/invoices')
+    expect(fallback?.domain.name).toBe('billing')
+    expect(fallback?.feature).toBe('invoices')
+
+    expect(resolver.resolve('/api/checkout')?.feature).toBe('checkout')
+    expect(resolver.resolve('/api/cart/add')?.domain.name).toBe('ecommerce')
+    expect(resolver.resolve('/static/app.js')).toBeNull()
+  })
+
+  it('should leave the feature undefined when none appears in the path', () => {
+    const resolver = new DomainResolver(domains, [{ match: '/api/', domain: 'ecommerce' }])
+
+    const match = resolver.resolve('/api/orders')
+    expect(match?.domain.name).toBe('ecommerce')
+    expect(match?.feature).toBeUndefined()
+  })
+
+  describe('domain URL matchers', () => {
+    const matcherDomains: DomainConfig[] = [
+      {
+        ...domains[0],
+        urlMatchers: [
+          { path: '/api/**' },
+          { path: '/api/cart/**', methods: ['POST', 'PUT'], feature: 'cart_write' },
+          { path: '/api/cart/*' }
+        ]
+      },
+      {
+        ...domains[1],
+        urlMatchers: [
+          { host: '*.billing.example.com' },
+          { pattern: /\/api\/invoices\/\d+/, feature: 'invoice_detail' }
+        ]
+      }
+    ]
+
+    it('should match path globs, hosts, methods and patterns', () => {
+      const resolver = new DomainResolver(matcherDomains)
+
+      expect(resolver.resolve('/api/cart/add', 'post')?.feature).toBe('cart_write')
+      expect(resolver.resolve('/api/cart', 'PUT')?.feature).toBe('cart_write')
+      expect(resolver.resolve('/api/cart/add', 'GET')?.feature).toBe('cart')
+      expect(resolver.resolve('/api/orders/1/items')?.domain.name).toBe('ecommerce')
+      expect(resolver.resolve('https://eu.billing.example.com/v1/invoices')?.feature).toBe('invoices')
+      expect(resolver.resolve('https://billing.example.com/v1/invoices')).toBeNull()
+      expect(resolver.resolve('/static/app.js')).toBeNull()
+    })
+
+    it('should prefer more specific matchers across domains', () => {
+      const resolver = new DomainResolver(matcherDomains)
+
+      // One criterion each; the literal path characters of '/api/**' outrank a bare pattern
+      const match = resolver.resolve('/api/invoices/42')
+      expect(match?.domain.name).toBe('ecommerce')
+
+      const specific = new DomainResolver([
+        matcherDomains[0],
+        { ...domains[1], urlMatchers: [{ path: '/api/invoices/*' }] }
+      ])
+      expect(specific.resolve('/api/invoices/42')?.domain.name).toBe('billing')
+    })
+
+    it('should check urlRules before domain matchers and skip the built-in rules', () => {
+      const resolver = new DomainResolver(matcherDomains, [{ match: '/api/cart/', domain: 'billing' }])
+
+      expect(resolver.resolve('/api/cart/add', 'POST')?.source).toBe('urlRules')
+      expect(resolver.resolve('/api/checkout')?.source).toBe('domain')
+      expect(new DomainResolver(matcherDomains).resolve('/checkout')).toBeNull()
+    })
+
+    it('should explain which rule matched and why others did not', () => {
+      const resolver = new DomainResolver(matcherDomains)
+
+      const explanation = resolver.explain('/api/cart/add', 'GET')
+
+      expect(explanation.match?.feature).toBe('cart')
+      const matched = explanation.rules.filter(rule => rule.matched)
+      expect(matched).toHaveLength(1)
+      expect(matched[0].rule.path).toBe('/api/cart/*')
+
+      const reasons = explanation.rules.filter(rule => !rule.matched).map(rule => rule.reason)
+      expect(reasons).toContain('method GET not in POST, PUT')
+      expect(reasons).toContain('an earlier rule matched')
+      expect(reasons).toContain('host localhost does not match *.billing.example.com')
+    })
+  })
+})
\ No newline at end of file
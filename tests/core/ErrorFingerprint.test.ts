@@ -0,0 +1,118 @@
+/**
+ * Unit tests for error fingerprinting and deduplication
+ */
+
+import { ErrorDeduplicator, fingerprintError, normalizeMessage, normalizeStack } from '../../src/core/ErrorFingerprint'
+import type { TelemetryEvent } from '../../src/types'
+
+describe('ErrorFingerprint', () => {
+  const chromeStack = (line: number, bundle = 'main.3fa9c1b2.js') =>
+    `TypeError: order 123 failed\n    at pay (https://shop.example.com/static/${bundle}?v=42:${line}:17)\n    at https://shop.example.com/static/vendor-D8fK2aQ1.js:1:${line * 10}`
+
+  it('should strip IDs and numbers from messages', () => {
+    expect(normalizeMessage('Order 4821 failed for user 9f1c2e3a-0b4d-4c5e-8f6a-7b8c9d0e1f2a'))
+      .toBe('Order <n> failed for user <uuid>')
+    expect(normalizeMessage('Cannot read 0x1f of  session a3f9c1b2e4d5 after 2.5s'))
+      .toBe('Cannot read <hex> of session <id> after <n>s')
+    expect(normalizeMessage('cart is undefined')).toBe('cart is undefined')
+  })
+
+  it('should strip line/column numbers, query strings and build hashes from frames', () => {
+    expect(normalizeStack(chromeStack(10))).toEqual([
+      'pay (https://shop.example.com/static/main.js)',
+      'https://shop.example.com/static/vendor.js'
+    ])
+    expect(normalizeStack('pay@http://localhost:3000/js/checkout.js:10:5\n@http://localhost:3000/js/app.js:1:1'))
+      .toEqual(['pay@http://localhost:3000/js/checkout.js', '@http://localhost:3000/js/app.js'])
+    expect(normalizeStack(undefined)).toEqual([])
+  })
+
+  it('should give the same fingerprint to occurrences that only differ in noise', () => {
+    const fingerprint = fingerprintError('TypeError', 'order 123 failed', chromeStack(10))
+
+    expect(fingerprint).toMatch(/^[0-9a-f]{8}$/)
+    expect(fingerprintError('TypeError', 'order 456 failed', chromeStack(12, 'main.88d0e4f1.js'))).toBe(fingerprint)
+    expect(fingerprintError('RangeError', 'order 123 failed', chromeStack(10))).not.toBe(fingerprint)
+    expect(fingerprintError('TypeError', 'order 123 failed', chromeStack(10, 'checkout.3fa9c1b2.js'))).not.toBe(fingerprint)
+  })
+
+  describe('ErrorDeduplicator', () => {
+    let listener: jest.Mock
+    let deduplicator: ErrorDeduplicator
+
+    const errorEvent = (message: string, name = 'ecommerce.error'): TelemetryEvent => ({
+      id: `${Math.random()}`,
+      timestamp: new Date().toISOString(),
+      domain: 'ecommerce',
+      eventType: 'error',
+      name,
+      attributes: { 'error.type': 'Error', 'error.message': message, 'error.stack': chromeStack(10) },
+      severity: 'error'
+    })
+
+    beforeEach(() => {
+      jest.useFakeTimers({ doNotFake: ['performance'] })
+      jest.setSystemTime(new Date('2024-06-01T10:00:00.000Z'))
+      listener = jest.fn()
+      deduplicator = new ErrorDeduplicator({ window: 5000 }, listener)
+    })
+
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    it('should send the first occurrence right away and a summary with the window totals after it', () => {
+      const first = errorEvent('order 1 failed')
+      deduplicator.add(first)
+      jest.advanceTimersByTime(1000)
+      deduplicator.add(errorEvent('order 2 failed'))
+      jest.advanceTimersByTime(2000)
+      deduplicator.add(errorEvent('order 3 failed'))
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener.mock.calls[0][0].attributes).toMatchObject({
+        'error.occurrences': 1,
+        'error.first_seen': '2024-06-01T10:00:00.000Z',
+        'error.last_seen': '2024-06-01T10:00:00.000Z',
+        'error.stack': chromeStack(10)
+      })
+
+      jest.advanceTimersByTime(2000)
+
+      expect(listener).toHaveBeenCalledTimes(2)
+      const summary = listener.mock.calls[1][0]
+      expect(summary.timestamp).toBe('2024-06-01T10:00:03.000Z')
+      expect(summary.attributes).toMatchObject({
+        'error.fingerprint': listener.mock.calls[0][0].attributes['error.fingerprint'],
+        'error.summary': true,
+        'error.first_event_id': first.id,
+        'error.message': 'order 3 failed',
+        'error.occurrences': 3,
+        'error.first_seen': '2024-06-01T10:00:00.000Z',
+        'error.last_seen': '2024-06-01T10:00:03.000Z'
+      })
+      expect(summary.attributes['error.stack']).toBeUndefined()
+    })
+
+    it('should keep different errors and events apart and start a new window afterwards', () => {
+      deduplicator.add(errorEvent('order 1 failed'))
+      deduplicator.add(errorEvent('payment declined'))
+      deduplicator.add(errorEvent('order 1 failed', 'ecommerce.checkout_api_error'))
+      jest.advanceTimersByTime(5000)
+      deduplicator.add(errorEvent('order 2 failed'))
+
+      expect(listener).toHaveBeenCalledTimes(4)
+      expect(listener.mock.calls.every(([event]) => event.attributes['error.occurrences'] === 1)).toBe(true)
+    })
+
+    it('should send pending repeats on flush', () => {
+      deduplicator.add(errorEvent('order 1 failed'))
+      deduplicator.add(errorEvent('order 2 failed'))
+      deduplicator.flush()
+      jest.advanceTimersByTime(5000)
+
+      expect(listener).toHaveBeenCalledTimes(2)
+      expect(listener.mock.calls[1][0].attributes['error.occurrences']).toBe(2)
+    })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,112 @@
+/**
+ * Unit tests for error-storm suppression
+ */
+
+import { ErrorStormGuard } from '../../src/core/ErrorStorm'
+import { fingerprintError } from '../../src/core/ErrorFingerprint'
+import type { TelemetryEvent } from '../../src/types'
+
+describe('ErrorStormGuard', () => {
+  let listener: jest.Mock
+  let guard: ErrorStormGuard
+
+  const errorEvent = (message = 'cart is undefined', domain = 'ecommerce'): TelemetryEvent => ({
+    id: 'e1',
+    timestamp: new Date().toISOString(),
+    domain,
+    eventType: 'error',
+    name: `${domain}.error`,
+    attributes: { 'error.type': 'TypeError', 'error.message': message },
+    severity: 'error'
+  })
+
+  const report = (count: number, message?: string, domain?: string) =>
+    Array.from({ length: count }, () => guard.shouldReport(errorEvent(message, domain)))
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['performance'] })
+    listener = jest.fn()
+    // 5 per minute: a storm starts at the 6th occurrence within the window
+    guard = new ErrorStormGuard(5, { sampleSize: 2, summaryInterval: 10000 }, listener)
+  })
+
+  afterEach(() => {
+    guard.stop()
+    jest.useRealTimers()
+  })
+
+  it('should send errors under the threshold', () => {
+    expect(report(5)).toEqual([true, true, true, true, true])
+
+    jest.advanceTimersByTime(60000)
+    expect(report(5).every(Boolean)).toBe(true)
+    expect(guard.getActiveStorms()).toEqual([])
+  })
+
+  it('should send the first occurrences of a storm and suppress the rest', () => {
+    const sent = report(5)
+    const sampled = errorEvent()
+    guard.shouldReport(sampled)
+    sent.push(...report(4))
+
+    expect(sent).toEqual([true, true, true, true, true, true, false, false, false])
+    expect(sampled.attributes['error.storm.sampled']).toBe(true)
+    expect(guard.getActiveStorms()).toEqual([
+      expect.objectContaining({ domain: 'ecommerce', fingerprint: fingerprintError('TypeError', 'cart is undefined'), occurrences: 5 })
+    ])
+  })
+
+  it('should track each domain and fingerprint separately', () => {
+    report(8)
+
+    expect(report(1, 'payment declined')).toEqual([true])
+    expect(report(1, 'cart is undefined', 'authentication')).toEqual([true])
+    expect(guard.shouldReport({ ...errorEvent(), eventType: 'span' })).toBe(true)
+  })
+
+  it('should send periodic summaries with the suppressed counts', () => {
+    report(10)
+    jest.advanceTimersByTime(10000)
+    report(3)
+    jest.advanceTimersByTime(10000)
+
+    expect(listener).toHaveBeenCalledTimes(2)
+    expect(listener.mock.calls[0][0]).toMatchObject({
+      domain: 'ecommerce',
+      errorType: 'TypeError',
+      message: 'cart is undefined',
+      status: 'ongoing',
+      suppressed: 3,
+      occurrences: 5,
+      ratePerMinute: 10,
+      durationMs: 10000
+    })
+    expect(listener.mock.calls[1][0]).toMatchObject({ status: 'ongoing', suppressed: 3, occurrences: 8, ratePerMinute: 13 })
+  })
+
+  it('should end the storm once the rate recovers and resume normal reporting', () => {
+    report(10)
+    jest.advanceTimersByTime(70000)
+
+    expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'ended', suppressed: 0, occurrences: 5, ratePerMinute: 0 }))
+    expect(guard.getActiveStorms()).toEqual([])
+
+    const event = errorEvent()
+    expect(guard.shouldReport(event)).toBe(true)
+    expect(event.attributes['error.storm.sampled']).toBeUndefined()
+
+    listener.mockClear()
+    jest.advanceTimersByTime(60000)
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it('should flush pending counts and stay off without a threshold', () => {
+    report(9)
+    guard.flush()
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ status: 'ongoing', suppressed: 2 }))
+
+    guard.stop()
+    guard = new ErrorStormGuard(0, {}, listener)
+    expect(report(50).every(Boolean)).toBe(true)
+  })
+})
\ No newline at end of file
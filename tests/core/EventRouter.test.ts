@@ -0,0 +1,79 @@
+/**
+ * Unit tests for EventRouter
+ */
+
+import { EventRouter } from '../../src/core/EventRouter'
+import type { ExporterPlugin, TelemetryEvent } from '../../src/types'
+
+describe('EventRouter', () => {
+  let router: EventRouter
+  let mockEvent: TelemetryEvent
+
+  const createExporter = (name: string): ExporterPlugin => ({
+    name,
+    configure: jest.fn(),
+    export: jest.fn().mockResolvedValue(undefined)
+  })
+
+  beforeEach(() => {
+    router = new EventRouter()
+    mockEvent = {
+      id: 'evt_1',
+      timestamp: new Date().toISOString(),
+      domain: 'ecommerce',
+      eventType: 'error',
+      name: 'ecommerce.error',
+      attributes: {},
+      businessContext: {
+        domain: 'ecommerce',
+        businessImpact: 'revenue'
+      },
+      severity: 'error'
+    }
+  })
+
+  it('should route every event to exporters without rules', () => {
+    const exporter = createExporter('console')
+    router.addRoute(exporter)
+
+    expect(router.route(mockEvent)).toEqual([exporter])
+  })
+
+  it('should fan events out to only the matching exporters', () => {
+    const errors = createExporter('errors')
+    const metrics = createExporter('metrics')
+    router.addRoute(errors, { eventTypes: ['error'] })
+    router.addRoute(metrics, { eventTypes: ['metric'], businessImpacts: ['revenue'] })
+
+    expect(router.route(mockEvent)).toEqual([errors])
+    expect(router.route({ ...mockEvent, eventType: 'metric', severity: 'info' })).toEqual([metrics])
+  })
+
+  it('should require every configured rule to match', () => {
+    const routing = { eventTypes: ['error' as const], domains: ['authentication'] }
+
+    expect(EventRouter.matches(mockEvent, routing)).toBe(false)
+    expect(EventRouter.matches({ ...mockEvent, domain: 'authentication' }, routing)).toBe(true)
+  })
+
+  it('should treat events without severity as info', () => {
+    const routing = { severities: ['info' as const] }
+
+    expect(EventRouter.matches({ ...mockEvent, severity: undefined }, routing)).toBe(true)
+    expect(EventRouter.matches(mockEvent, routing)).toBe(false)
+  })
+
+  it('should support custom filter predicates', () => {
+    const routing = { filter: (event: TelemetryEvent) => event.name.startsWith('ecommerce.') }
+
+    expect(EventRouter.matches(mockEvent, routing)).toBe(true)
+    expect(EventRouter.matches({ ...mockEvent, name: 'content.error' }, routing)).toBe(false)
+  })
+
+  it('should clear all routes', () => {
+    router.addRoute(createExporter('console'))
+    router.clear()
+
+    expect(router.getExporters()).toHaveLength(0)
+  })
+})
\ No newline at end of file
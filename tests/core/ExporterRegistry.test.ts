@@ -0,0 +1,49 @@
+/**
+ * Unit tests for ExporterRegistry
+ */
+
+import { ExporterRegistry } from '../../src/core/ExporterRegistry'
+import type { ExporterPlugin, PlatformConfig } from '../../src/types'
+
+describe('ExporterRegistry', () => {
+  let registry: ExporterRegistry
+
+  const createExporter = (): ExporterPlugin => ({
+    name: 'analytics-sink',
+    configure: jest.fn(),
+    export: jest.fn().mockResolvedValue(undefined)
+  })
+
+  beforeEach(() => {
+    registry = new ExporterRegistry()
+  })
+
+  it('should create and configure exporters from registered factories', () => {
+    const exporter = createExporter()
+    const factory = jest.fn(() => exporter)
+    registry.register('analytics', factory)
+
+    const config: PlatformConfig = { platform: 'analytics', options: { dataset: 'checkout' } }
+    const created = registry.create(config)
+
+    expect(created).toBe(exporter)
+    expect(factory).toHaveBeenCalledWith(config)
+    expect(exporter.configure).toHaveBeenCalledWith(config)
+  })
+
+  it('should throw for unknown platforms', () => {
+    registry.register('analytics', createExporter)
+
+    expect(() => registry.create({ platform: 'missing' }))
+      .toThrow('No exporter registered for platform: missing. Registered platforms: analytics')
+  })
+
+  it('should replace and unregister factories', () => {
+    registry.register('analytics', createExporter)
+    registry.register('analytics', createExporter)
+
+    expect(registry.getPlatforms()).toEqual(['analytics'])
+    expect(registry.unregister('analytics')).toBe(true)
+    expect(registry.has('analytics')).toBe(false)
+  })
+})
\ No newline at end of file
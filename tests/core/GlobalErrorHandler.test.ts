@@ -0,0 +1,110 @@
+/**
+ * Unit tests for GlobalErrorHandler
+ */
+
+import { GlobalErrorHandler, getStackUrls } from '../../src/core/GlobalErrorHandler'
+
+describe('GlobalErrorHandler', () => {
+  let onCapture: jest.Mock
+  let handler: GlobalErrorHandler
+
+  beforeEach(() => {
+    onCapture = jest.fn()
+    handler = new GlobalErrorHandler({ enabled: true }, onCapture)
+    handler.start()
+  })
+
+  afterEach(() => {
+    handler.stop()
+    document.body.innerHTML = ''
+  })
+
+  it('should capture uncaught errors with their location', () => {
+    const error = new TypeError('cart is undefined')
+
+    window.dispatchEvent(new ErrorEvent('error', {
+      error,
+      message: error.message,
+      filename: 'http://localhost:3000/static/checkout.js',
+      lineno: 12,
+      colno: 7
+    }))
+
+    expect(onCapture).toHaveBeenCalledWith({
+      source: 'error',
+      error,
+      filename: 'http://localhost:3000/static/checkout.js',
+      line: 12,
+      column: 7
+    })
+  })
+
+  it('should turn cross-origin script errors without an error object into an Error', () => {
+    window.dispatchEvent(new ErrorEvent('error', { message: 'Script error.' }))
+
+    expect(onCapture.mock.calls[0][0].error).toEqual({ name: 'Error', message: 'Script error.' })
+  })
+
+  it('should capture unhandled rejections, including non-Error reasons', () => {
+    const rejection = Object.assign(new Event('unhandledrejection'), { reason: { code: 'E_TIMEOUT' } })
+
+    window.dispatchEvent(rejection)
+
+    expect(onCapture).toHaveBeenCalledWith({
+      source: 'unhandledrejection',
+      error: { name: 'Error', message: '{"code":"E_TIMEOUT"}' }
+    })
+  })
+
+  it('should capture failed resource loads', () => {
+    const image = document.createElement('img')
+    image.setAttribute('src', 'https://cdn.example.com/hero.jpg')
+    document.body.appendChild(image)
+
+    image.dispatchEvent(new Event('error'))
+
+    expect(onCapture).toHaveBeenCalledWith({
+      source: 'resource',
+      error: { name: 'ResourceError', message: 'Failed to load img https://cdn.example.com/hero.jpg' },
+      filename: 'https://cdn.example.com/hero.jpg',
+      element: 'img'
+    })
+  })
+
+  it('should capture CSP violations', () => {
+    document.dispatchEvent(Object.assign(new Event('securitypolicyviolation'), {
+      blockedURI: 'https://tracker.example.net/pixel.js',
+      effectiveDirective: 'script-src-elem',
+      lineNumber: 3
+    }))
+
+    expect(onCapture).toHaveBeenCalledWith(expect.objectContaining({
+      source: 'csp',
+      error: { name: 'CSPViolation', message: 'Refused to load https://tracker.example.net/pixel.js (script-src-elem)' },
+      directive: 'script-src-elem',
+      line: 3
+    }))
+  })
+
+  it('should skip sources that are turned off and stop listening', () => {
+    handler.stop()
+    handler = new GlobalErrorHandler({ enabled: true, resources: false, unhandledRejections: false }, onCapture)
+    handler.start()
+
+    document.body.appendChild(document.createElement('script')).dispatchEvent(new Event('error'))
+    window.dispatchEvent(Object.assign(new Event('unhandledrejection'), { reason: new Error('x') }))
+    handler.stop()
+    window.dispatchEvent(new ErrorEvent('error', { message: 'after stop' }))
+
+    expect(onCapture).not.toHaveBeenCalled()
+  })
+
+  it('should extract script URLs from Chrome and Firefox stacks', () => {
+    const chrome = 'TypeError: x\n    at pay (https://shop.example.com/js/checkout.js:10:5)\n    at https://cdn.example.com/vendor.js:1:200'
+    const firefox = 'pay@http://localhost:3000/js/checkout.js:10:5\n@chrome-extension://abc/content.js:3:1'
+
+    expect(getStackUrls(chrome)).toEqual(['https://shop.example.com/js/checkout.js', 'https://cdn.example.com/vendor.js'])
+    expect(getStackUrls(firefox)).toEqual(['http://localhost:3000/js/checkout.js', 'chrome-extension://abc/content.js'])
+    expect(getStackUrls(undefined)).toEqual([])
+  })
+})
\ No newline at end of file
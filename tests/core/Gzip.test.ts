@@ -0,0 +1,46 @@
+/**
+ * Unit tests for the gzip helpers
+ */
+
+import { gunzipSync } from 'zlib'
+import { gzip, gzipSync, crc32, encodeUtf8 } from '../../src/core/Gzip'
+
+describe('Gzip', () => {
+  const decompress = (data: Uint8Array) => gunzipSync(Buffer.from(data)).toString('utf8')
+
+  it('should produce output zlib can decompress', () => {
+    const payload = JSON.stringify(Array.from({ length: 200 }, (_, index) => ({
+      id: `evt_${index}`,
+      domain: 'ecommerce',
+      name: 'ecommerce.checkout',
+      attributes: { 'http.method': 'POST', 'http.url': `/api/checkout/${index}` }
+    })))
+
+    const compressed = gzipSync(payload)
+
+    expect(decompress(compressed)).toBe(payload)
+    expect(compressed.length).toBeLessThan(payload.length / 4)
+  })
+
+  it('should handle empty, short and multi-byte input', () => {
+    ['', 'a', 'ab', 'café – 日本語 😀'.repeat(50)].forEach(value => {
+      expect(decompress(gzipSync(value))).toBe(value)
+    })
+  })
+
+  it('should handle long runs and matches across the whole window', () => {
+    const value = 'x'.repeat(100000) + Array.from({ length: 5000 }, (_, index) => index.toString(36)).join(',')
+
+    expect(decompress(gzipSync(value))).toBe(value)
+  })
+
+  it('should fall back to the pure-JS implementation without CompressionStream', async () => {
+    const value = '{"events":[]}'
+
+    expect(decompress(await gzip(value))).toBe(value)
+  })
+
+  it('should compute the standard CRC-32', () => {
+    expect(crc32(encodeUtf8('123456789'))).toBe(0xcbf43926)
+  })
+})
\ No newline at end of file
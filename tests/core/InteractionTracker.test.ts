@@ -0,0 +1,100 @@
+/**
+ * Unit tests for behavioral bot detection
+ */
+
+import { InteractionTracker } from '../../src/core/InteractionTracker'
+
+describe('InteractionTracker', () => {
+  let onDecision: jest.Mock
+  let tracker: InteractionTracker
+
+  const move = (x: number, y: number) => window.dispatchEvent(new MouseEvent('pointermove', { clientX: x, clientY: y }))
+  const click = (pointerType?: string) => window.dispatchEvent(Object.assign(new MouseEvent('pointerdown'), { pointerType }))
+  const scrollTo = (y: number) => {
+    Object.assign(window, { scrollY: y })
+    window.dispatchEvent(new Event('scroll'))
+  }
+  const typeWithIntervals = (intervals: number[]) => {
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'a' }))
+    intervals.forEach(interval => {
+      jest.advanceTimersByTime(interval)
+      window.dispatchEvent(new KeyboardEvent('keydown', { key: 'a' }))
+    })
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['performance'] })
+    // Time since navigation start follows the fake clock
+    const navigationStart = Date.now()
+    jest.spyOn(performance, 'now').mockImplementation(() => Date.now() - navigationStart)
+    Object.assign(window, { scrollY: 0 })
+    onDecision = jest.fn()
+    tracker = new InteractionTracker({ enabled: true }, onDecision)
+    tracker.start()
+  })
+
+  afterEach(() => {
+    tracker.stop()
+    jest.restoreAllMocks()
+    jest.useRealTimers()
+  })
+
+  it('should decide human for curved pointer movement and irregular typing', () => {
+    jest.advanceTimersByTime(800)
+    for (let step = 0; step <= 24; step++) {
+      move(Math.round(200 + 80 * Math.cos(step / 4)), Math.round(200 + 60 * Math.sin(step / 4)))
+    }
+    typeWithIntervals([140, 95, 260, 120, 310, 180])
+
+    expect(tracker.getDecision()).toBe('pending')
+    jest.advanceTimersByTime(3000)
+
+    expect(onDecision).toHaveBeenCalledTimes(1)
+    expect(onDecision).toHaveBeenCalledWith('human', 1)
+    expect(tracker.getSignals()).toMatchObject({ pointerMoves: 25, keystrokes: 7, timeToFirstInteraction: 800 })
+    expect(tracker.getSignals().pointerEntropy).toBeGreaterThan(0.5)
+  })
+
+  it('should decide bot for instant clicks without movement and machine-speed typing', () => {
+    jest.advanceTimersByTime(20)
+    click()
+    typeWithIntervals([10, 10, 10, 10, 10])
+    jest.advanceTimersByTime(3000)
+
+    expect(onDecision).toHaveBeenCalledWith('bot', 0)
+    expect(tracker.getSignals()).toMatchObject({ clicks: 1, unmovedClicks: 1, keyIntervalVariation: 0, meanKeyInterval: 10 })
+  })
+
+  it('should score straight-line movement and fixed scroll steps as scripted', () => {
+    jest.advanceTimersByTime(1000)
+    for (let x = 0; x <= 300; x += 20) move(x, 100)
+    for (let y = 100; y <= 500; y += 100) scrollTo(y)
+
+    expect(tracker.getSignals()).toMatchObject({ pointerEntropy: 0, scrollVariation: 0, scrolls: 5 })
+    expect(tracker.decide()).toBe('bot')
+    // Weighted mean of pointer (0, weight 2), scroll (0, weight 1) and first interaction (1, weight 1)
+    expect(tracker.getScore()).toBe(0.25)
+  })
+
+  it('should not count taps as clicks without movement', () => {
+    jest.advanceTimersByTime(1500)
+    click('touch')
+
+    expect(tracker.getSignals().unmovedClicks).toBe(0)
+    expect(tracker.decide()).toBe('human')
+  })
+
+  it('should keep sessions without interaction unless interaction is required', () => {
+    jest.advanceTimersByTime(3000)
+    expect(onDecision).toHaveBeenCalledWith('human', undefined)
+
+    tracker.stop()
+    tracker = new InteractionTracker({ enabled: true, requireInteraction: true, observationWindow: 1000 }, onDecision)
+    tracker.start()
+    jest.advanceTimersByTime(1000)
+
+    expect(onDecision).toHaveBeenLastCalledWith('bot', undefined)
+    expect(tracker.decide()).toBe('bot')
+    expect(onDecision).toHaveBeenCalledTimes(2)
+  })
+})
\ No newline at end of file
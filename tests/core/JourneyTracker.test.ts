@@ -0,0 +1,105 @@
+/**
+ * Unit tests for JourneyTracker
+ */
+
+import { JourneyTracker, type JourneyStepRecord } from '../../src/core/JourneyTracker'
+
+describe('JourneyTracker', () => {
+  let now: number
+  let sessionId: string
+  let listener: jest.Mock
+
+  const step = (name: string, stepNumber: number, nextStep?: string): JourneyStepRecord => ({
+    domain: 'ecommerce',
+    journey: 'purchase_flow',
+    step: name,
+    stepNumber,
+    totalSteps: 3,
+    nextStep,
+    businessImpact: 'revenue'
+  })
+
+  const createTracker = (abandonAfter?: number) =>
+    new JourneyTracker({ abandonAfter }, () => sessionId, listener)
+
+  beforeEach(() => {
+    now = 1_700_000_000_000
+    sessionId = 'session-1'
+    jest.spyOn(Date, 'now').mockImplementation(() => now)
+    window.sessionStorage.clear()
+    listener = jest.fn()
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should complete a journey with its total time once the last step is reached', () => {
+    const tracker = createTracker()
+
+    tracker.recordStep(step('add_to_cart', 1, 'view_cart'))
+    now += 5000
+    tracker.recordStep(step('view_cart', 2, 'complete_purchase'))
+    now += 3000
+    tracker.recordStep(step('complete_purchase', 3))
+
+    expect(listener).toHaveBeenCalledWith('completed', expect.objectContaining({
+      steps: ['add_to_cart', 'view_cart', 'complete_purchase'],
+      startedAt: 1_700_000_000_000,
+      lastActivityAt: 1_700_000_008_000
+    }))
+    expect(tracker.getInProgress()).toEqual([])
+  })
+
+  it('should resume in-progress journeys from sessionStorage after a reload', () => {
+    createTracker().recordStep(step('add_to_cart', 1, 'view_cart'))
+
+    const reloaded = createTracker()
+    reloaded.recordStep(step('view_cart', 2, 'complete_purchase'))
+
+    expect(reloaded.getProgress('ecommerce', 'purchase_flow')?.steps).toEqual(['add_to_cart', 'view_cart'])
+  })
+
+  it('should abandon after inactivity and report the step users dropped off at', () => {
+    const tracker = createTracker(60000)
+    tracker.recordStep(step('add_to_cart', 1, 'view_cart'))
+    tracker.recordStep(step('view_cart', 2, 'complete_purchase'))
+    tracker.recordStep(step('add_to_cart', 1, 'view_cart'))
+
+    now += 60001
+    tracker.start()
+    tracker.stop()
+
+    expect(listener).toHaveBeenCalledWith('abandoned', expect.objectContaining({
+      lastStep: 'add_to_cart',
+      furthestStep: 'view_cart',
+      furthestStepNumber: 2,
+      nextStep: 'complete_purchase'
+    }), 'timeout')
+  })
+
+  it('should abandon journeys of an ended session exactly once', () => {
+    const tracker = createTracker()
+    tracker.recordStep(step('add_to_cart', 1, 'view_cart'))
+
+    tracker.endSession('session-1')
+    sessionId = 'session-2'
+    tracker.start()
+    tracker.stop()
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith('abandoned', expect.objectContaining({ sessionId: 'session-1' }), 'session_end')
+    expect(window.sessionStorage.getItem('observ-metrics:journeys')).toBe('[]')
+  })
+
+  it('should abandon journeys persisted by a previous session on start', () => {
+    createTracker().recordStep(step('add_to_cart', 1, 'view_cart'))
+
+    sessionId = 'session-2'
+    const tracker = createTracker()
+    tracker.start()
+    tracker.stop()
+
+    expect(listener).toHaveBeenCalledWith('abandoned', expect.objectContaining({ lastStep: 'add_to_cart' }), 'session_end')
+  })
+})
\ No newline at end of file
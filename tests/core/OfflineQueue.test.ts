@@ -0,0 +1,125 @@
+/**
+ * Unit tests for OfflineQueue
+ */
+
+import { OfflineQueue } from '../../src/core/OfflineQueue'
+import type { TelemetryEvent } from '../../src/types'
+
+describe('OfflineQueue', () => {
+  let sender: jest.Mock
+  let queue: OfflineQueue
+
+  const createEvents = (count: number): TelemetryEvent[] =>
+    Array.from({ length: count }, (_, index) => ({
+      id: `evt_${index}`,
+      timestamp: new Date().toISOString(),
+      domain: 'ecommerce',
+      eventType: 'span',
+      name: 'ecommerce.checkout',
+      attributes: {},
+      businessContext: {
+        domain: 'ecommerce',
+        businessImpact: 'revenue'
+      }
+    }))
+
+  const setOnline = (online: boolean) => {
+    Object.defineProperty(navigator, 'onLine', { value: online, configurable: true })
+  }
+
+  beforeEach(() => {
+    window.localStorage.clear()
+    setOnline(true)
+    sender = jest.fn().mockResolvedValue(undefined)
+    queue = new OfflineQueue('datadog:test', sender, { enabled: true })
+  })
+
+  afterEach(() => {
+    queue.stop()
+    jest.useRealTimers()
+  })
+
+  it('should persist batches to localStorage when IndexedDB is unavailable', async () => {
+    await queue.enqueue(createEvents(3))
+
+    expect(queue.getStorageType()).toBe('localstorage')
+    expect(await queue.getSize()).toBe(3)
+    expect(window.localStorage.getItem('observ-metrics:offline-queue:datadog:test')).toContain('evt_2')
+  })
+
+  it('should replay batches left by a previous session', async () => {
+    await queue.enqueue(createEvents(2))
+
+    const nextSession = new OfflineQueue('datadog:test', sender, { enabled: true })
+    await nextSession.replay()
+
+    expect(sender).toHaveBeenCalledWith(expect.arrayContaining([expect.objectContaining({ id: 'evt_0' })]))
+    expect(await nextSession.getSize()).toBe(0)
+    nextSession.stop()
+  })
+
+  it('should persist synchronously during unload and replay on the next load', async () => {
+    queue.persist(createEvents(2))
+
+    // Stored before any promise settles
+    expect(window.localStorage.getItem('observ-metrics:offline-queue:datadog:test')).toContain('evt_1')
+
+    const nextSession = new OfflineQueue('datadog:test', sender, { enabled: true })
+    await nextSession.replay()
+
+    expect(sender).toHaveBeenCalledWith([expect.objectContaining({ id: 'evt_0' }), expect.objectContaining({ id: 'evt_1' })])
+    expect(await nextSession.getSize()).toBe(0)
+    nextSession.stop()
+  })
+
+  it('should wait for connectivity before replaying', async () => {
+    await queue.enqueue(createEvents(1))
+    setOnline(false)
+
+    await queue.replay()
+    expect(sender).not.toHaveBeenCalled()
+
+    queue.start()
+    setOnline(true)
+    window.dispatchEvent(new Event('online'))
+    await new Promise(resolve => setTimeout(resolve, 0))
+
+    expect(sender).toHaveBeenCalledTimes(1)
+  })
+
+  it('should keep failed batches and back off before retrying', async () => {
+    jest.useFakeTimers({ doNotFake: ['performance'] })
+    sender.mockRejectedValueOnce(new Error('Network error'))
+    await queue.enqueue(createEvents(1))
+
+    await queue.replay()
+    expect(await queue.getSize()).toBe(1)
+
+    await jest.advanceTimersByTimeAsync(1000)
+    expect(sender).toHaveBeenCalledTimes(2)
+    expect(await queue.getSize()).toBe(0)
+  })
+
+  it('should evict the oldest batches beyond maxSize', async () => {
+    queue = new OfflineQueue('datadog:test', sender, { enabled: true, maxSize: 4 })
+
+    await queue.enqueue(createEvents(3))
+    await new Promise(resolve => setTimeout(resolve, 2))
+    await queue.enqueue(createEvents(2))
+
+    expect(await queue.getSize()).toBe(2)
+  })
+
+  it('should drop batches older than maxAge', async () => {
+    queue = new OfflineQueue('datadog:test', sender, { enabled: true, maxAge: 1000 })
+    await queue.enqueue(createEvents(2))
+
+    const realNow = Date.now
+    Date.now = () => realNow() + 2000
+    try {
+      expect(await queue.getSize()).toBe(0)
+    } finally {
+      Date.now = realNow
+    }
+  })
+})
\ No newline at end of file
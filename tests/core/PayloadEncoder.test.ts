@@ -0,0 +1,72 @@
+/**
+ * Unit tests for PayloadEncoder
+ */
+
+import { gunzipSync } from 'zlib'
+import { PayloadEncoder, chunkPayload, getByteLength } from '../../src/core/PayloadEncoder'
+import type { TelemetryEvent } from '../../src/types'
+
+describe('PayloadEncoder', () => {
+  const createEvents = (count: number, padding = 0): TelemetryEvent[] =>
+    Array.from({ length: count }, (_, index) => ({
+      id: `evt_${index}`,
+      timestamp: new Date().toISOString(),
+      domain: 'ecommerce',
+      eventType: 'log',
+      name: 'ecommerce.checkout_abandoned',
+      attributes: { padding: 'x'.repeat(padding) },
+      businessContext: {
+        domain: 'ecommerce',
+        businessImpact: 'revenue'
+      }
+    }))
+
+  const serialize = (events: TelemetryEvent[]) => JSON.stringify(events)
+
+  it('should keep every chunk under the size limit', () => {
+    const events = createEvents(40, 1000)
+    const chunks = chunkPayload(events, serialize, 8 * 1024)
+
+    expect(chunks.length).toBeGreaterThan(1)
+    chunks.forEach(chunk => expect(getByteLength(chunk.body)).toBeLessThanOrEqual(8 * 1024))
+    expect(chunks.flatMap(chunk => chunk.events)).toEqual(events)
+  })
+
+  it('should drop single events that can never fit', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+    expect(chunkPayload(createEvents(1, 2000), serialize, 1024)).toEqual([])
+  })
+
+  it('should count UTF-8 bytes', () => {
+    expect(getByteLength('abc')).toBe(3)
+    expect(getByteLength('é')).toBe(2)
+    expect(getByteLength('€')).toBe(3)
+    expect(getByteLength('😀')).toBe(4)
+  })
+
+  it('should split oversized batches and track per-request sizes', async () => {
+    const encoder = new PayloadEncoder({ maxPayloadBytes: 8 * 1024 })
+
+    const payloads = await encoder.encode(createEvents(40, 1000), serialize)
+    payloads.forEach(payload => encoder.recordRequest(payload))
+
+    const stats = encoder.getStats()
+    expect(stats.requests).toBe(payloads.length)
+    expect(stats.splitBatches).toBe(1)
+    expect(stats.recentRequests).toHaveLength(payloads.length)
+    expect(stats.rawBytes).toBe(payloads.reduce((total, payload) => total + payload.rawBytes, 0))
+    expect(stats.largestRequestBytes).toBeLessThanOrEqual(8 * 1024)
+  })
+
+  it('should gzip bodies when compression is enabled', async () => {
+    const encoder = new PayloadEncoder({ compression: 'gzip', maxPayloadBytes: 1024 * 1024 })
+    const events = createEvents(50, 200)
+
+    const [payload] = await encoder.encode(events, serialize)
+
+    expect(payload.headers).toEqual({ 'Content-Encoding': 'gzip' })
+    expect(payload.encodedBytes).toBeLessThan(payload.rawBytes)
+    expect(gunzipSync(Buffer.from(payload.body as Uint8Array)).toString('utf8')).toBe(serialize(events))
+  })
+})
\ No newline at end of file
@@ -0,0 +1,158 @@
+/**
+ * Unit tests for RetryPolicy
+ */
+
+import { RetryPolicy, ExportHttpError, CircuitOpenError } from '../../src/core/RetryPolicy'
+
+describe('RetryPolicy', () => {
+  const httpError = (status: number, retryAfterMs?: number) =>
+    new ExportHttpError(`HTTP ${status}`, status, retryAfterMs)
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+    jest.useRealTimers()
+  })
+
+  it('should retry retryable failures until the operation succeeds', async () => {
+    const policy = new RetryPolicy({ baseDelay: 1 })
+    const operation = jest.fn()
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValue('ok')
+
+    await expect(policy.execute(operation)).resolves.toBe('ok')
+    expect(operation).toHaveBeenCalledTimes(3)
+    expect(policy.getStats().retries).toBe(2)
+  })
+
+  it('should give up after maxAttempts', async () => {
+    const policy = new RetryPolicy({ maxAttempts: 2, baseDelay: 1 })
+    const operation = jest.fn().mockRejectedValue(httpError(500))
+
+    await expect(policy.execute(operation)).rejects.toThrow('HTTP 500')
+    expect(operation).toHaveBeenCalledTimes(2)
+  })
+
+  it('should not retry client errors', async () => {
+    const policy = new RetryPolicy({ baseDelay: 1 })
+    const operation = jest.fn().mockRejectedValue(httpError(400))
+
+    await expect(policy.execute(operation)).rejects.toThrow('HTTP 400')
+    expect(operation).toHaveBeenCalledTimes(1)
+    expect(policy.isRetryable(httpError(400))).toBe(false)
+    expect(policy.isRetryable(httpError(408))).toBe(true)
+    expect(policy.isRetryable(httpError(429))).toBe(true)
+  })
+
+  it('should use exponential backoff with full jitter', async () => {
+    jest.useFakeTimers({ doNotFake: ['performance'] })
+    jest.spyOn(Math, 'random').mockReturnValue(0.5)
+    const setTimeoutSpy = jest.spyOn(global, 'setTimeout')
+
+    const policy = new RetryPolicy({ maxAttempts: 4, baseDelay: 100 })
+    const operation = jest.fn().mockRejectedValue(httpError(503))
+    const result = policy.execute(operation).catch(error => error)
+
+    await jest.runAllTimersAsync()
+    await result
+
+    const delays = setTimeoutSpy.mock.calls.map(call => call[1])
+    expect(delays).toEqual([50, 100, 200])
+  })
+
+  it('should honor Retry-After on rate limited responses', async () => {
+    jest.useFakeTimers({ doNotFake: ['performance'] })
+    const setTimeoutSpy = jest.spyOn(global, 'setTimeout')
+
+    const policy = new RetryPolicy({ baseDelay: 1 })
+    const operation = jest.fn()
+      .mockRejectedValueOnce(httpError(429, 2000))
+      .mockResolvedValue('ok')
+    const result = policy.execute(operation)
+
+    await jest.runAllTimersAsync()
+
+    await expect(result).resolves.toBe('ok')
+    expect(setTimeoutSpy.mock.calls[0][1]).toBe(2000)
+  })
+
+  it('should not wait for a Retry-After longer than maxDelay', async () => {
+    const policy = new RetryPolicy({ maxDelay: 1000 })
+    const operation = jest.fn().mockRejectedValue(httpError(429, 60000))
+
+    await expect(policy.execute(operation)).rejects.toThrow('HTTP 429')
+    expect(operation).toHaveBeenCalledTimes(1)
+  })
+
+  it('should parse Retry-After from responses', () => {
+    const response = {
+      status: 429,
+      headers: { get: (name: string) => (name === 'Retry-After' ? '3' : null) }
+    } as unknown as Response
+
+    const error = ExportHttpError.fromResponse(response, 'Rate limited')
+
+    expect(error.status).toBe(429)
+    expect(error.retryAfterMs).toBe(3000)
+  })
+
+  it('should stop retrying once the retry budget is spent', async () => {
+    const policy = new RetryPolicy({ maxAttempts: 5, baseDelay: 1, retryBudget: 2 })
+    const operation = jest.fn().mockRejectedValue(httpError(503))
+
+    await expect(policy.execute(operation)).rejects.toThrow('HTTP 503')
+    expect(operation).toHaveBeenCalledTimes(3)
+
+    operation.mockClear()
+    await expect(policy.execute(operation)).rejects.toThrow('HTTP 503')
+    expect(operation).toHaveBeenCalledTimes(1)
+  })
+
+  it('should open the circuit after consecutive failures', async () => {
+    const policy = new RetryPolicy({ maxAttempts: 1, circuitBreaker: { failureThreshold: 2, resetTimeout: 1000 } })
+    const operation = jest.fn().mockRejectedValue(httpError(503))
+
+    await expect(policy.execute(operation)).rejects.toThrow('HTTP 503')
+    await expect(policy.execute(operation)).rejects.toThrow('HTTP 503')
+    await expect(policy.execute(operation)).rejects.toBeInstanceOf(CircuitOpenError)
+
+    expect(operation).toHaveBeenCalledTimes(2)
+    expect(policy.getCircuitState()).toBe('open')
+  })
+
+  it('should close the circuit after a successful half-open trial', async () => {
+    let now = 10000
+    jest.spyOn(Date, 'now').mockImplementation(() => now)
+
+    const policy = new RetryPolicy({ maxAttempts: 1, circuitBreaker: { failureThreshold: 1, resetTimeout: 1000 } })
+    await expect(policy.execute(() => Promise.reject(httpError(503)))).rejects.toThrow('HTTP 503')
+    expect(policy.getCircuitState()).toBe('open')
+
+    now += 1000
+    expect(policy.getCircuitState()).toBe('half-open')
+
+    await expect(policy.execute(() => Promise.resolve('ok'))).resolves.toBe('ok')
+    expect(policy.getCircuitState()).toBe('closed')
+  })
+
+  it('should close the circuit when the half-open trial is rejected as invalid', async () => {
+    let now = 10000
+    jest.spyOn(Date, 'now').mockImplementation(() => now)
+
+    const policy = new RetryPolicy({ maxAttempts: 1, circuitBreaker: { failureThreshold: 1, resetTimeout: 1000 } })
+    await expect(policy.execute(() => Promise.reject(httpError(503)))).rejects.toThrow('HTTP 503')
+
+    now += 1000
+    await expect(policy.execute(() => Promise.reject(httpError(400)))).rejects.toThrow('HTTP 400')
+    expect(policy.getCircuitState()).toBe('closed')
+
+    await expect(policy.execute(() => Promise.resolve('ok'))).resolves.toBe('ok')
+  })
+
+  it('should not trip the circuit on rejected payloads', async () => {
+    const policy = new RetryPolicy({ circuitBreaker: { failureThreshold: 1 } })
+
+    await expect(policy.execute(() => Promise.reject(httpError(422)))).rejects.toThrow('HTTP 422')
+    expect(policy.getCircuitState()).toBe('closed')
+  })
+})
\ No newline at end of file
@@ -0,0 +1,127 @@
+/**
+ * Unit tests for SessionManager
+ */
+
+import { SessionManager } from '../../src/core/SessionManager'
+
+describe('SessionManager', () => {
+  let now: number
+  let listener: jest.Mock
+
+  beforeEach(() => {
+    now = 1_700_000_000_000
+    jest.spyOn(Date, 'now').mockImplementation(() => now)
+    window.sessionStorage.clear()
+    document.cookie = 'observ_metrics_session=; path=/; expires=Thu, 01 Jan 1970 00:00:00 GMT'
+    listener = jest.fn()
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should keep a stable session ID across calls and instances', () => {
+    const manager = new SessionManager()
+    const sessionId = manager.getSessionId()
+
+    now += 1000
+    expect(manager.getSessionId()).toBe(sessionId)
+    expect(new SessionManager().getSessionId()).toBe(sessionId)
+    expect(SessionManager.getStoredSessionId()).toBe(sessionId)
+    expect(window.sessionStorage.getItem('observ-metrics:session')).toContain(sessionId)
+  })
+
+  it('should roll over after inactivity and report the ended session', () => {
+    const manager = new SessionManager({ inactivityTimeout: 60000 }, listener)
+    manager.start()
+    const first = manager.getSession()
+
+    now += 10000
+    manager.recordActivity()
+    manager.recordActivity()
+
+    now += 60001
+    const second = manager.getSession()
+
+    expect(second.id).not.toBe(first.id)
+    expect(listener).toHaveBeenCalledWith('end', expect.objectContaining({
+      id: first.id,
+      eventCount: 2,
+      lastActivityAt: first.startedAt + 10000
+    }), 'inactivity')
+    expect(listener).toHaveBeenLastCalledWith('start', second)
+  })
+
+  it('should roll over after the maximum duration despite activity', () => {
+    const manager = new SessionManager({ inactivityTimeout: 60000, maxDuration: 120000 }, listener)
+    manager.start()
+    const sessionId = manager.getSessionId()
+
+    for (let i = 0; i < 3; i++) {
+      now += 50000
+      manager.recordActivity()
+    }
+
+    expect(manager.getSessionId()).not.toBe(sessionId)
+    expect(listener).toHaveBeenCalledWith('end', expect.objectContaining({ id: sessionId }), 'max_duration')
+  })
+
+  it('should hold session events until started', () => {
+    const manager = new SessionManager({}, listener)
+    const session = manager.getSession()
+
+    expect(listener).not.toHaveBeenCalled()
+
+    manager.start()
+    expect(listener).toHaveBeenCalledWith('start', session)
+  })
+
+  it('should end sessions on request', () => {
+    const manager = new SessionManager({}, listener)
+    manager.start()
+    const sessionId = manager.getSessionId()
+
+    manager.endSession()
+
+    expect(listener).toHaveBeenCalledWith('end', expect.objectContaining({ id: sessionId }), 'manual')
+    expect(manager.getSessionId()).not.toBe(sessionId)
+  })
+
+  it('should store the session in a cookie when configured', () => {
+    const manager = new SessionManager({ storage: 'cookie' })
+    const sessionId = manager.getSessionId()
+
+    expect(window.sessionStorage.getItem('observ-metrics:session')).toBeNull()
+    expect(document.cookie).toContain('observ_metrics_session=')
+    expect(new SessionManager({ storage: 'cookie' }).getSessionId()).toBe(sessionId)
+  })
+
+  it('should share one cookie session across tabs without undoing each other', () => {
+    // Two tabs on the same document.cookie
+    const tabA = new SessionManager({ storage: 'cookie', inactivityTimeout: 60000 }, listener)
+    const tabB = new SessionManager({ storage: 'cookie', inactivityTimeout: 60000 }, listener)
+    tabA.start()
+    tabB.start()
+    const sessionId = tabA.getSessionId()
+    expect(tabB.getSessionId()).toBe(sessionId)
+
+    tabA.recordActivity()
+    now += 50000
+    tabB.recordActivity()
+    tabA.recordActivity()
+
+    // Tab B's activity kept the session alive for tab A
+    now += 50000
+    expect(tabA.getSession()).toMatchObject({ id: sessionId, eventCount: 3, lastActivityAt: now - 50000 })
+
+    tabA.endSession()
+    const nextId = tabA.getSessionId()
+    tabB.recordActivity()
+
+    expect(tabB.getSessionId()).toBe(nextId)
+    expect(tabA.getSession()).toMatchObject({ id: nextId, eventCount: 1 })
+    expect(listener.mock.calls.filter(([type]) => type === 'end')).toEqual([
+      ['end', expect.objectContaining({ id: sessionId, eventCount: 3 }), 'manual']
+    ])
+  })
+})
\ No newline at end of file
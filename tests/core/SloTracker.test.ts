@@ -0,0 +1,104 @@
+/**
+ * Unit tests for SloTracker
+ */
+
+import { SloTracker } from '../../src/core/SloTracker'
+import type { DomainConfig } from '../../src/types'
+
+describe('SloTracker', () => {
+  let now: number
+  let listener: jest.Mock
+  let tracker: SloTracker
+
+  const domain: DomainConfig = {
+    name: 'ecommerce',
+    priority: 'critical',
+    slaTarget: 1000,
+    errorThreshold: 10, // 10% of requests may fail
+    features: ['cart', 'checkout']
+  }
+
+  const recordMany = (count: number, duration: number, success: boolean, feature = 'checkout') => {
+    for (let i = 0; i < count; i++) {
+      tracker.record('ecommerce', feature, duration, success)
+    }
+  }
+
+  beforeEach(() => {
+    now = 1_700_000_000_000
+    jest.spyOn(Date, 'now').mockImplementation(() => now)
+    listener = jest.fn()
+    tracker = new SloTracker([domain], { windows: [60000, 600000], minRequests: 5 }, listener)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should compute compliance, error budget and burn rates per window', () => {
+    recordMany(18, 200, true)
+    recordMany(2, 200, false)
+
+    const state = tracker.getState('ecommerce', 'checkout')!
+
+    expect(state.requests).toBe(20)
+    expect(state.errors).toMatchObject({
+      objective: 0.9,
+      compliance: 0.9,
+      budgetRemaining: 0,
+      burnRates: { '1m': 1, '10m': 1 },
+      breached: false
+    })
+    expect(state.latency).toMatchObject({ objective: 0.95, compliance: 1, budgetRemaining: 1, targetMs: 1000 })
+  })
+
+  it('should track the domain-wide SLO alongside each feature', () => {
+    recordMany(3, 200, true, 'cart')
+    recordMany(2, 200, true, 'checkout')
+
+    expect(tracker.getState('ecommerce')?.requests).toBe(5)
+    expect(tracker.getState('ecommerce', 'cart')?.requests).toBe(3)
+    expect(tracker.getStates().map(state => state.feature)).toEqual([undefined, 'cart', 'checkout'])
+  })
+
+  it('should judge latency on successful requests only', () => {
+    recordMany(9, 200, true)
+    recordMany(1, 5000, true)
+    recordMany(5, 5000, false)
+
+    expect(tracker.getState('ecommerce', 'checkout')?.latency.compliance).toBe(0.9)
+  })
+
+  it('should report a breach once every window burns too fast, and the recovery', () => {
+    recordMany(4, 200, false)
+    expect(listener).not.toHaveBeenCalled()
+
+    recordMany(1, 200, false)
+    expect(listener).toHaveBeenCalledTimes(2)
+    expect(listener).toHaveBeenCalledWith('breach', expect.objectContaining({ feature: 'checkout' }), expect.objectContaining({ type: 'error_rate', breached: true }))
+
+    listener.mockClear()
+    recordMany(5, 200, false)
+    expect(listener).not.toHaveBeenCalled()
+
+    now += 61000
+    recordMany(5, 200, true)
+    expect(listener).toHaveBeenCalledWith('recovered', expect.objectContaining({ feature: 'checkout' }), expect.objectContaining({ type: 'error_rate', breached: false }))
+    expect(tracker.getState('ecommerce', 'checkout')?.errors.burnRates['10m']).toBe(6.67)
+  })
+
+  it('should drop requests older than the budget period', () => {
+    recordMany(5, 200, false)
+
+    now += 600001
+    tracker.record('ecommerce', 'checkout', 200, true)
+
+    expect(tracker.getState('ecommerce', 'checkout')?.requests).toBe(1)
+  })
+
+  it('should ignore requests of unknown domains', () => {
+    tracker.record('unknown', 'cart', 200, true)
+
+    expect(tracker.getStates()).toEqual([])
+  })
+})
\ No newline at end of file
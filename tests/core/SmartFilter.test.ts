@@ -3,6 +3,7 @@
  */
 
 import { Filter } from '../../src/core/SmartFilter'
+import { InteractionTracker } from '../../src/core/InteractionTracker'
 import type { TelemetryEvent, UserContext, FilterConfig } from '../../src/types'
 
 describe('SmartFilter', () => {
@@ -44,6 +45,22 @@ describe('SmartFilter', () => {
       expect(result).toBe(true)
     })
 
+    it('should drop errors thrown by extension scripts', () => {
+      const errorEvent = {
+        ...mockEvent,
+        eventType: 'error' as const,
+        severity: 'error' as const,
+        attributes: { 'error.stack': 'TypeError: x\n    at inject (chrome-extension://abc123/content.js:4:2)' }
+      }
+      const appError = {
+        ...errorEvent,
+        attributes: { 'error.stack': 'TypeError: x\n    at pay (http://localhost:3000/app.js:1:2)\n    at chrome-extension://abc123/hook.js:9:1' }
+      }
+
+      expect(filter.shouldProcess(errorEvent, mockContext)).toBe(false)
+      expect(filter.shouldProcess(appError, mockContext)).toBe(true)
+    })
+
     it('should always process critical events', () => {
       const criticalEvent = { ...mockEvent, severity: 'critical' as const }
       const result = filter.shouldProcess(criticalEvent, mockContext)
@@ -155,6 +172,19 @@ describe('SmartFilter', () => {
       const result = filter.isRealUserSession(mockContext)
       expect(result).toBe(true)
     })
+
+    it('should follow the behavioral decision once it is made', () => {
+      const tracker = new InteractionTracker({ enabled: true, requireInteraction: true })
+      const behavioralFilter = new Filter({ enableBotDetection: true, excludeExtensions: true, samplingRate: 1.0, domainWhitelist: ['localhost'], errorThreshold: 0 }, tracker)
+
+      expect(behavioralFilter.isRealUserSession(mockContext)).toBe(true)
+
+      tracker.decide()
+
+      expect(behavioralFilter.isRealUserSession(mockContext)).toBe(false)
+      expect(behavioralFilter.shouldProcess(mockEvent, mockContext)).toBe(false)
+      expect(behavioralFilter.shouldProcess({ ...mockEvent, severity: 'error' }, mockContext)).toBe(false)
+    })
   })
 
   describe('noise filtering', () => {
@@ -199,6 +229,148 @@ describe('SmartFilter', () => {
     })
   })
 
+  describe('pattern packs', () => {
+    const baseConfig: FilterConfig = {
+      enableBotDetection: false,
+      excludeExtensions: true,
+      samplingRate: 1.0,
+      domainWhitelist: ['localhost'],
+      errorThreshold: 0
+    }
+
+    const eventFor = (url: string) => ({ ...mockEvent, attributes: { 'http.url': url } })
+
+    it('should keep app URLs that the 1.0 extension patterns dropped', () => {
+      const legacyFilter = new Filter({ ...baseConfig, patterns: { version: '1.0' } })
+
+      expect(filter.shouldProcess(eventFor('http://localhost:3000/privacy-policy'), mockContext)).toBe(true)
+      expect(filter.shouldProcess(eventFor('http://localhost:3000/api/addons'), mockContext)).toBe(true)
+      expect(legacyFilter.shouldProcess(eventFor('http://localhost:3000/privacy-policy'), mockContext)).toBe(false)
+      expect(filter.getStats().patternVersion).toBe('2.0')
+    })
+
+    it('should replace, remove and add patterns per set', () => {
+      const customFilter = new Filter({
+        ...baseConfig,
+        patterns: {
+          bot: { replace: ['InternalMonitor', /crawler/i] },
+          extension: { remove: [/ublock/i, 'adblock'] },
+          noise: { add: ['/health', /\/metrics$/] }
+        }
+      })
+
+      expect(customFilter.test('Mozilla/5.0 (compatible; Googlebot/2.1)')).toEqual([])
+      expect(customFilter.test('internalmonitor/1.0')).toEqual([{ set: 'bot', pattern: /InternalMonitor/i }])
+      expect(customFilter.test('https://cdn.example.com/ublock-adblock.html')).toEqual([])
+      expect(customFilter.shouldProcess(eventFor('http://localhost:3000/health'), mockContext)).toBe(false)
+      expect(customFilter.shouldProcess(eventFor('http://localhost:3000/api/metrics'), mockContext)).toBe(false)
+    })
+
+    it('should drop extension errors by the configured extension patterns', () => {
+      const errorFrom = (filename: string) => ({
+        ...mockEvent,
+        eventType: 'error' as const,
+        severity: 'error' as const,
+        attributes: { 'error.filename': filename }
+      })
+      const customFilter = new Filter({
+        ...baseConfig,
+        patterns: { extension: { add: ['widget-injector'], remove: [/moz-extension:/i] } }
+      })
+
+      expect(customFilter.shouldProcess(errorFrom('https://cdn.example.com/widget-injector.js'), mockContext)).toBe(false)
+      expect(customFilter.shouldProcess(errorFrom('moz-extension://abc123/content.js'), mockContext)).toBe(true)
+      expect(customFilter.shouldProcess(errorFrom('chrome-extension://abc123/content.js'), mockContext)).toBe(false)
+    })
+
+    it('should match global and sticky patterns on every call', () => {
+      const customFilter = new Filter({ ...baseConfig, patterns: { noise: { replace: [/\/health/g, /^\/ping/y] } } })
+
+      expect(customFilter.test('/health')).toHaveLength(1)
+      expect(customFilter.test('/health')).toHaveLength(1)
+      expect(customFilter.test('/ping')).toHaveLength(1)
+      expect(customFilter.test('/ping')).toHaveLength(1)
+    })
+
+    it('should report every pattern that matches', () => {
+      expect(filter.test('chrome-extension://abc123/content.js')).toEqual([
+        { set: 'extension', pattern: /chrome-extension:/i },
+        { set: 'noise', pattern: /\.js(\?|$)/ }
+      ])
+      expect(filter.test('Mozilla/5.0 HeadlessChrome/120.0')).toEqual([{ set: 'bot', pattern: /headless/i }])
+      expect(filter.test('http://localhost:3000/checkout')).toEqual([])
+    })
+
+    it('should fall back to the latest pack for unknown versions', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+      const unknownFilter = new Filter({ ...baseConfig, patterns: { version: '0.9' } })
+
+      expect(unknownFilter.getStats().patternVersion).toBe('2.0')
+      expect(warn).toHaveBeenCalledWith('[Filter] Unknown pattern pack "0.9", using 2.0')
+      warn.mockRestore()
+    })
+  })
+
+  describe('third-party error filtering', () => {
+    let thirdPartyFilter: Filter
+
+    const errorEvent = (attributes: Record<string, any>): TelemetryEvent => ({
+      ...mockEvent,
+      eventType: 'error',
+      severity: 'error',
+      attributes: { 'error.message': 'x is not a function', ...attributes }
+    })
+
+    beforeEach(() => {
+      thirdPartyFilter = new Filter({
+        enableBotDetection: false,
+        excludeExtensions: true,
+        excludeThirdPartyErrors: true,
+        samplingRate: 1.0,
+        domainWhitelist: [],
+        errorThreshold: 5,
+        firstPartyOrigins: ['https://static.example.com/'],
+        firstPartyScripts: ['https://cdn.jsdelivr.net/npm/example-widgets@', /\/our-bundle\.[a-f0-9]+\.js$/]
+      })
+    })
+
+    it('should drop errors whose frames all come from third-party scripts', () => {
+      const stack = 'TypeError: x\n    at track (https://ads.adnetwork.com/tag.js:1:900)\n    at https://widget.chat.io/loader.js:2:10'
+
+      expect(thirdPartyFilter.shouldProcess(errorEvent({ 'error.stack': stack }), mockContext)).toBe(false)
+      expect(thirdPartyFilter.shouldProcess(errorEvent({ 'error.filename': 'https://widget.chat.io/loader.js' }), mockContext)).toBe(false)
+    })
+
+    it('should keep errors with any first-party frame', () => {
+      const stacks = [
+        'TypeError: x\n    at https://ads.adnetwork.com/tag.js:1:900\n    at pay (http://localhost:3000/static/app.js:10:2)',
+        'TypeError: x\n    at render (https://static.example.com/js/main.js:4:1)',
+        'TypeError: x\n    at init (https://cdn.jsdelivr.net/npm/example-widgets@2.1.0/dist/index.js:1:1)',
+        'TypeError: x\n    at run (https://cdn.other.com/our-bundle.3fa9c1.js:1:1)'
+      ]
+
+      stacks.forEach(stack => {
+        expect(thirdPartyFilter.shouldProcess(errorEvent({ 'error.stack': stack }), mockContext)).toBe(true)
+      })
+    })
+
+    it('should judge API errors by their URL and stack', () => {
+      expect(thirdPartyFilter.shouldProcess(errorEvent({ 'http.url': '/api/checkout' }), mockContext)).toBe(true)
+      expect(thirdPartyFilter.shouldProcess(errorEvent({ 'http.url': 'https://metrics.vendor.com/collect' }), mockContext)).toBe(false)
+    })
+
+    it('should treat cross-origin "Script error." as third-party and keep errors without URLs', () => {
+      expect(thirdPartyFilter.shouldProcess(errorEvent({ 'error.message': 'Script error.' }), mockContext)).toBe(false)
+      expect(thirdPartyFilter.shouldProcess(errorEvent({}), mockContext)).toBe(true)
+    })
+
+    it('should keep third-party errors when the option is off', () => {
+      const event = errorEvent({ 'error.filename': 'https://widget.chat.io/loader.js' })
+
+      expect(filter.shouldProcess(event, mockContext)).toBe(true)
+    })
+  })
+
   describe('configuration management', () => {
     it('should return filtering statistics', () => {
       const stats = filter.getStats()
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for trace context propagation
+ */
+
+import { ROOT_CONTEXT, trace, defaultTextMapSetter, type Span } from '@opentelemetry/api'
+import { TracePropagator, B3Propagator, getTraceContext } from '../../src/core/TracePropagation'
+
+describe('TracePropagation', () => {
+  const traceContext = {
+    traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+    spanId: '00f067aa0ba902b7',
+    sampled: true
+  }
+
+  describe('TracePropagator', () => {
+    it('should only propagate to the page origin and allowlisted origins', () => {
+      const propagator = new TracePropagator({
+        allowedOrigins: ['https://api.example.com/', /^https:\/\/[a-z]+\.internal\.example\.com\//]
+      })
+
+      expect(propagator.shouldPropagate('/api/cart')).toBe(true)
+      expect(propagator.shouldPropagate('http://localhost:3000/api/cart')).toBe(true)
+      expect(propagator.shouldPropagate('https://api.example.com/v1/orders')).toBe(true)
+      expect(propagator.shouldPropagate('https://search.internal.example.com/q')).toBe(true)
+      expect(propagator.shouldPropagate('https://api.example.com.evil.com/v1')).toBe(false)
+      expect(propagator.shouldPropagate('https://cdn.thirdparty.com/lib.js')).toBe(false)
+    })
+
+    it('should create W3C headers by default', () => {
+      const propagator = new TracePropagator()
+
+      expect(propagator.createHeaders('/api/cart', { ...traceContext, traceState: 'vendor=abc' })).toEqual({
+        traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+        tracestate: 'vendor=abc'
+      })
+      expect(propagator.createHeaders('https://cdn.thirdparty.com/x', traceContext)).toEqual({})
+    })
+
+    it('should add the B3 header when configured', () => {
+      const propagator = new TracePropagator({ formats: ['w3c', 'b3'] })
+
+      const headers = propagator.createHeaders('/api/cart', { ...traceContext, sampled: false })
+
+      expect(headers.traceparent).toBe('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-00')
+      expect(headers.b3).toBe('4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-0')
+    })
+
+    it('should not propagate anywhere when disabled', () => {
+      const propagator = new TracePropagator({ enabled: false, allowedOrigins: ['https://api.example.com'] })
+
+      expect(propagator.createHeaders('/api/cart', traceContext)).toEqual({})
+      expect(propagator.getCorsUrls()).toEqual([])
+    })
+
+    it('should turn allowed origins into anchored URL patterns for the auto-instrumentations', () => {
+      const [pattern] = new TracePropagator({ allowedOrigins: ['https://api.example.com'] }).getCorsUrls()
+
+      expect(pattern.test('https://api.example.com/v1/orders')).toBe(true)
+      expect(pattern.test('https://api.example.com')).toBe(true)
+      expect(pattern.test('https://api.example.com.evil.com/')).toBe(false)
+    })
+  })
+
+  describe('getTraceContext', () => {
+    it('should use the IDs of a recording span', () => {
+      const span = trace.wrapSpanContext({ ...traceContext, traceFlags: 1 })
+
+      expect(getTraceContext(span)).toEqual({ ...traceContext, traceState: undefined })
+    })
+
+    it('should generate IDs when the span has no valid context', () => {
+      const context = getTraceContext(trace.wrapSpanContext({ traceId: '0'.repeat(32), spanId: '0'.repeat(16), traceFlags: 0 }))
+
+      expect(context.traceId).toMatch(/^[0-9a-f]{32}$/)
+      expect(context.spanId).toMatch(/^[0-9a-f]{16}$/)
+      expect(context.traceId).not.toBe('0'.repeat(32))
+      expect(getTraceContext({} as Span).sampled).toBe(true)
+    })
+  })
+
+  describe('B3Propagator', () => {
+    it('should inject the single b3 header from the active span', () => {
+      const context = trace.setSpanContext(ROOT_CONTEXT, { ...traceContext, traceFlags: 1 })
+      const carrier: Record<string, string> = {}
+
+      new B3Propagator().inject(context, carrier, defaultTextMapSetter)
+
+      expect(carrier).toEqual({ b3: '4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-1' })
+    })
+  })
+})
\ No newline at end of file
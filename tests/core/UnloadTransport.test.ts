@@ -0,0 +1,142 @@
+/**
+ * Unit tests for UnloadTransport
+ */
+
+import { sendOnUnload } from '../../src/core/UnloadTransport'
+import type { TelemetryEvent } from '../../src/types'
+
+describe('UnloadTransport', () => {
+  let sendBeacon: jest.Mock
+  let fetchMock: jest.Mock
+
+  const createEvents = (count: number, padding = 0): TelemetryEvent[] =>
+    Array.from({ length: count }, (_, index) => ({
+      id: `evt_${index}`,
+      timestamp: new Date().toISOString(),
+      domain: 'ecommerce',
+      eventType: 'log',
+      name: 'ecommerce.checkout_abandoned',
+      attributes: { padding: 'x'.repeat(padding) },
+      businessContext: {
+        domain: 'ecommerce',
+        businessImpact: 'revenue'
+      }
+    }))
+
+  const serialize = (events: TelemetryEvent[]) => JSON.stringify(events)
+
+  beforeEach(() => {
+    sendBeacon = jest.fn().mockReturnValue(true)
+    Object.defineProperty(navigator, 'sendBeacon', { value: sendBeacon, configurable: true })
+    fetchMock = jest.fn().mockResolvedValue({ ok: true, status: 200 })
+    global.fetch = fetchMock as any
+  })
+
+  afterEach(() => {
+    // Ends the unload sequence, releasing the beacon bytes held against the limit
+    window.dispatchEvent(new Event('pageshow'))
+    delete (navigator as any).sendBeacon
+    delete (global as any).fetch
+  })
+
+  it('should use sendBeacon for requests without auth headers', () => {
+    sendOnUnload({
+      url: 'http://localhost:9411/api/v2/spans',
+      headers: { 'Content-Type': 'application/json' },
+      events: createEvents(2),
+      serialize
+    })
+
+    expect(sendBeacon).toHaveBeenCalledTimes(1)
+    expect(sendBeacon.mock.calls[0][0]).toBe('http://localhost:9411/api/v2/spans')
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('should hand back events beyond the 64KB in-flight limit instead of sending them', async () => {
+    const onFailure = jest.fn()
+    const events = createEvents(100, 1000)
+    const request = { url: 'http://localhost:9411/api/v2/spans', headers: {}, events, serialize, onFailure }
+
+    sendOnUnload(request)
+    // The limit is shared by every request sent during the same unload
+    const nextEvents = createEvents(20, 1000)
+    sendOnUnload({ ...request, events: nextEvents })
+
+    expect(sendBeacon).toHaveBeenCalledTimes(1)
+    // ~100KB splits into two ~50KB chunks; only the first fits
+    expect(onFailure.mock.calls).toEqual([[events.slice(50)], [nextEvents]])
+
+    // Queued beacons still count until the page is shown again, e.g. pagehide after visibilitychange
+    await new Promise(resolve => setTimeout(resolve, 0))
+    sendOnUnload({ ...request, events: nextEvents })
+    expect(sendBeacon).toHaveBeenCalledTimes(1)
+
+    window.dispatchEvent(new Event('pageshow'))
+    sendOnUnload({ ...request, events: nextEvents })
+    expect(sendBeacon).toHaveBeenCalledTimes(2)
+  })
+
+  it('should count keepalive requests against the limit until they settle', async () => {
+    let respond: (response: any) => void = () => {}
+    fetchMock.mockImplementation(() => new Promise(resolve => { respond = resolve }))
+    const onFailure = jest.fn()
+    const request = { url: 'https://api.datadoghq.com/api/v1/logs', headers: { 'DD-API-KEY': 'key' }, serialize, onFailure }
+
+    sendOnUnload({ ...request, events: createEvents(40, 1000) })
+    sendOnUnload({ ...request, events: createEvents(40, 1000) })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(onFailure).toHaveBeenCalledTimes(1)
+
+    respond({ ok: true, status: 202 })
+    await new Promise(resolve => setTimeout(resolve, 0))
+    sendOnUnload({ ...request, events: createEvents(40, 1000) })
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('should use fetch keepalive when headers are required', () => {
+    sendOnUnload({
+      url: 'https://api.datadoghq.com/api/v1/logs',
+      headers: { 'Content-Type': 'application/json', 'DD-API-KEY': 'key' },
+      events: createEvents(2),
+      serialize
+    })
+
+    expect(sendBeacon).not.toHaveBeenCalled()
+    expect(fetchMock).toHaveBeenCalledWith('https://api.datadoghq.com/api/v1/logs', expect.objectContaining({
+      method: 'POST',
+      keepalive: true,
+      headers: expect.objectContaining({ 'DD-API-KEY': 'key' })
+    }))
+  })
+
+  it('should fall back to fetch keepalive when the beacon is refused', () => {
+    sendBeacon.mockReturnValue(false)
+
+    sendOnUnload({
+      url: 'http://localhost:3100/loki/api/v1/push',
+      headers: { 'Content-Type': 'application/json' },
+      events: createEvents(1),
+      serialize
+    })
+
+    expect(sendBeacon).toHaveBeenCalledTimes(1)
+    expect(fetchMock).toHaveBeenCalledWith('http://localhost:3100/loki/api/v1/push', expect.objectContaining({ keepalive: true }))
+  })
+
+  it('should report events that could not be sent', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'))
+    const onFailure = jest.fn()
+    const events = createEvents(2)
+
+    sendOnUnload({
+      url: 'https://api.datadoghq.com/api/v1/logs',
+      headers: { 'DD-API-KEY': 'key' },
+      events,
+      serialize,
+      onFailure
+    })
+    await new Promise(resolve => setTimeout(resolve, 0))
+
+    expect(onFailure).toHaveBeenCalledWith(events)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,169 @@
+/**
+ * Unit tests for Web Vitals collection
+ */
+
+import { WebVitalsCollector, getRating, getSelector } from '../../src/core/WebVitals'
+
+class FakePerformanceObserver {
+  static instances: FakePerformanceObserver[] = []
+  static supportedEntryTypes = ['navigation', 'paint', 'largest-contentful-paint', 'layout-shift', 'event']
+
+  type?: string
+  options?: Record<string, any>
+
+  constructor(private callback: (list: { getEntries: () => any[] }) => void) {
+    FakePerformanceObserver.instances.push(this)
+  }
+
+  observe(options: Record<string, any>) {
+    this.type = options.type
+    this.options = options
+  }
+
+  disconnect() {}
+
+  takeRecords() {
+    return []
+  }
+
+  emit(entries: any[]) {
+    this.callback({ getEntries: () => entries })
+  }
+}
+
+describe('WebVitals', () => {
+  let listener: jest.Mock
+  let collector: WebVitalsCollector
+
+  const emit = (type: string, entries: any[]) =>
+    FakePerformanceObserver.instances.find(observer => observer.type === type)!.emit(entries)
+
+  const navigate = (path: string) => {
+    (window.location as any).href = `http://localhost:3000${path}`
+  }
+
+  beforeEach(() => {
+    FakePerformanceObserver.instances = []
+    Object.assign(global, { PerformanceObserver: FakePerformanceObserver })
+    document.body.innerHTML = '<main><div class="grid products"><img id="hero"><button class="buy primary large">Buy</button></div></main>'
+    navigate('/products')
+    listener = jest.fn()
+    collector = new WebVitalsCollector(listener)
+    collector.start()
+  })
+
+  afterEach(() => {
+    collector.stop()
+    delete (global as any).PerformanceObserver
+    navigate('')
+  })
+
+  it('should report TTFB and FCP as soon as they are observed', () => {
+    emit('navigation', [{ responseStart: 950 }])
+    emit('paint', [{ name: 'first-paint', startTime: 1000 }, { name: 'first-contentful-paint', startTime: 1200.4 }])
+
+    expect(listener).toHaveBeenCalledWith({ name: 'TTFB', value: 950, rating: 'needs-improvement', url: 'http://localhost:3000/products' })
+    expect(listener).toHaveBeenCalledWith({ name: 'FCP', value: 1200, rating: 'good', url: 'http://localhost:3000/products' })
+  })
+
+  it('should report the last LCP candidate with its element once the user interacts', () => {
+    emit('largest-contentful-paint', [{ startTime: 1800, element: document.querySelector('button') }])
+    emit('largest-contentful-paint', [{ startTime: 4200, element: document.getElementById('hero'), url: 'https://cdn.example.com/hero.jpg' }])
+    expect(listener).not.toHaveBeenCalled()
+
+    window.dispatchEvent(new Event('pointerdown'))
+    emit('largest-contentful-paint', [{ startTime: 6000, element: null }])
+    collector.flush()
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith({
+      name: 'LCP',
+      value: 4200,
+      rating: 'poor',
+      url: 'http://localhost:3000/products',
+      element: 'img#hero',
+      resourceUrl: 'https://cdn.example.com/hero.jpg'
+    })
+  })
+
+  it('should keep CLS per route using the worst session window', () => {
+    const grid = document.querySelector('.grid')
+    emit('layout-shift', [
+      { value: 0.05, startTime: 100, hadRecentInput: false, sources: [{ node: grid }] },
+      { value: 0.04, startTime: 600, hadRecentInput: false, sources: [] },
+      { value: 0.5, startTime: 700, hadRecentInput: true },
+      { value: 0.03, startTime: 3000, hadRecentInput: false }
+    ])
+    navigate('/checkout')
+    emit('layout-shift', [{ value: 0.3, startTime: 9000, hadRecentInput: false, sources: [{ node: document.querySelector('button') }] }])
+
+    collector.flush()
+
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+      name: 'CLS', value: 0.09, rating: 'good', url: 'http://localhost:3000/products', element: 'main>div.grid.products'
+    }))
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+      name: 'CLS', value: 0.3, rating: 'poor', url: 'http://localhost:3000/checkout', element: 'main>div.grid.products>button.buy.primary'
+    }))
+  })
+
+  it('should report INP per route from the slowest interaction', () => {
+    const button = document.querySelector('button')
+    emit('event', [
+      { interactionId: 1, name: 'pointerdown', duration: 80, target: button },
+      { interactionId: 1, name: 'click', duration: 320, target: button },
+      { interactionId: 0, name: 'mousemove', duration: 900 },
+      { interactionId: 2, name: 'keydown', duration: 120 }
+    ])
+
+    collector.flush()
+    collector.flush()
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith({
+      name: 'INP',
+      value: 320,
+      rating: 'needs-improvement',
+      url: 'http://localhost:3000/products',
+      element: 'main>div.grid.products>button.buy.primary',
+      interactionType: 'click'
+    })
+    expect(FakePerformanceObserver.instances.find(observer => observer.type === 'event')?.options?.durationThreshold).toBe(40)
+  })
+
+  it('should keep CLS and INP for the page lifetime across hides', () => {
+    emit('layout-shift', [{ value: 0.2, startTime: 100, hadRecentInput: false }])
+    emit('event', [{ interactionId: 1, name: 'click', duration: 300 }])
+    collector.flush()
+
+    // Shown again: a smaller shift and a faster interaction don't change the page's worst values
+    emit('layout-shift', [{ value: 0.05, startTime: 8000, hadRecentInput: false }])
+    emit('event', [{ interactionId: 2, name: 'click', duration: 100 }])
+    collector.flush()
+
+    emit('layout-shift', [{ value: 0.3, startTime: 8500, hadRecentInput: false }])
+    emit('event', [{ interactionId: 3, name: 'keydown', duration: 450 }])
+    collector.flush()
+
+    expect(listener.mock.calls.map(([measurement]) => [measurement.name, measurement.value])).toEqual([
+      ['CLS', 0.2], ['INP', 300],
+      ['CLS', 0.35], ['INP', 450]
+    ])
+  })
+
+  it('should do nothing without PerformanceObserver support', () => {
+    delete (global as any).PerformanceObserver
+    const unsupported = new WebVitalsCollector(listener)
+
+    expect(() => unsupported.start()).not.toThrow()
+    unsupported.flush()
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it('should rate values against the web.dev thresholds', () => {
+    expect(getRating('INP', 200)).toBe('good')
+    expect(getRating('INP', 201)).toBe('needs-improvement')
+    expect(getRating('CLS', 0.26)).toBe('poor')
+    expect(getSelector(null)).toBeUndefined()
+  })
+})
\ No newline at end of file
@@ -51,10 +51,18 @@ describe('ObservMetrics Integration Tests', () => {
       value: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
       configurable: true
     })
+
+    // API calls go through fetch
+    global.fetch = jest.fn(async () => ({
+      status: 200,
+      headers: { get: () => 'application/json' },
+      text: async () => '{"success":true}'
+    })) as any
   })
 
   afterEach(() => {
     jest.restoreAllMocks()
+    delete (global as any).fetch
   })
 
   describe('Complete E-commerce Flow', () => {
@@ -0,0 +1,123 @@
+/**
+ * Unit tests for GrafanaExporter
+ */
+
+import { GrafanaExporter } from '../../src/integrations/GrafanaExporter'
+import { DomainInstrumentor } from '../../src/core/DomainInstrumentor'
+import type { TelemetryEvent } from '../../src/types'
+
+describe('GrafanaExporter', () => {
+  let exporter: GrafanaExporter
+  let fetchMock: jest.Mock
+
+  const createError = (overrides: Partial<TelemetryEvent> = {}): TelemetryEvent => ({
+    id: 'evt_1',
+    timestamp: '2024-01-01T00:00:01.000Z',
+    domain: 'ecommerce',
+    eventType: 'error',
+    name: 'ecommerce.error',
+    attributes: {
+      'error.type': 'TypeError',
+      'error.message': 'Cannot read properties of undefined',
+      'error.stack': 'TypeError: Cannot read properties of undefined\n    at submitOrder (https://shop.example.com/main.js:10:5)',
+      'domain.priority': 'critical',
+      'user.session_id': 'session-1'
+    },
+    businessContext: {
+      domain: 'ecommerce',
+      feature: 'checkout',
+      businessImpact: 'revenue'
+    },
+    severity: 'error',
+    ...overrides
+  })
+
+  beforeEach(() => {
+    fetchMock = jest.fn().mockResolvedValue({ ok: true, status: 204, statusText: 'No Content' })
+    global.fetch = fetchMock as any
+
+    exporter = new GrafanaExporter()
+    exporter.configure({ platform: 'grafana', endpoint: 'http://localhost:3100' })
+  })
+
+  afterEach(() => {
+    exporter.destroy()
+    delete (global as any).fetch
+  })
+
+  it('should push logs and errors to the Loki push API', async () => {
+    await exporter.export([
+      createError(),
+      createError({ eventType: 'span', severity: 'info' })
+    ])
+    await exporter.forceFlush()
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:3100/loki/api/v1/push')
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body)
+    expect(body.streams).toHaveLength(1)
+    expect(body.streams[0].values).toHaveLength(1)
+  })
+
+  it('should label streams by domain, business impact and priority', () => {
+    const push = exporter.convertToLokiPush([
+      createError(),
+      createError({ domain: 'content', businessContext: { domain: 'content', businessImpact: 'engagement' } })
+    ])
+
+    expect(push.streams).toHaveLength(2)
+    expect(push.streams[0].stream).toMatchObject({
+      domain: 'ecommerce',
+      business_impact: 'revenue',
+      priority: 'critical',
+      kind: 'exception'
+    })
+    expect(push.streams[0].values[0][0]).toBe('1704067201000000000')
+  })
+
+  it('should label errors from a critical domain with its priority', async () => {
+    const events: TelemetryEvent[] = []
+    const instrumentor = new DomainInstrumentor(
+      { name: 'payments', priority: 'critical', slaTarget: 1000, errorThreshold: 0.01, journeys: [{ name: 'checkout', steps: ['pay'] }] },
+      { sessionId: 'session-1', userSegment: 'premium', isAuthenticated: true, deviceType: 'desktop' },
+      event => events.push(event)
+    )
+
+    instrumentor.trackError(new Error('Card declined'))
+    await instrumentor.instrumentUserJourney('checkout', 'pay', async () => { throw new Error('Gateway timeout') })
+
+    const push = exporter.convertToLokiPush(events)
+    expect(events.map(event => event.eventType)).toEqual(['error', 'error'])
+    expect(push.streams.map(stream => stream.stream.priority)).toEqual(['critical', 'critical'])
+  })
+
+  it('should write Faro exception items as log lines', () => {
+    const push = exporter.convertToLokiPush([createError()])
+    const line = JSON.parse(push.streams[0].values[0][1])
+
+    expect(line.type).toBe('TypeError')
+    expect(line.value).toBe('Cannot read properties of undefined')
+    expect(line.stacktrace.frames[0]).toEqual({
+      function: 'submitOrder',
+      filename: 'https://shop.example.com/main.js',
+      lineno: 10,
+      colno: 5
+    })
+    expect(line.context['business.feature']).toBe('checkout')
+    expect(line.meta.session).toEqual({ id: 'session-1' })
+  })
+
+  it('should post Faro payloads to a Faro collector endpoint', async () => {
+    exporter.configure({ platform: 'grafana', endpoint: 'https://faro.example.com/collect/app-key' })
+
+    await exporter.export([createError(), createError({ eventType: 'log', severity: 'warn' })])
+    await exporter.forceFlush()
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://faro.example.com/collect/app-key')
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body)
+    expect(body.exceptions).toHaveLength(1)
+    expect(body.logs[0].level).toBe('warn')
+    expect(body.meta.app.name).toBe('observ-metrics-app')
+  })
+})
\ No newline at end of file
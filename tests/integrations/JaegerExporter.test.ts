@@ -0,0 +1,176 @@
+/**
+ * Unit tests for JaegerExporter
+ */
+
+import { JaegerExporter } from '../../src/integrations/JaegerExporter'
+import { DomainInstrumentor } from '../../src/core/DomainInstrumentor'
+import type { TelemetryEvent } from '../../src/types'
+
+describe('JaegerExporter', () => {
+  let exporter: JaegerExporter
+  let fetchMock: jest.Mock
+
+  const journeyStep: TelemetryEvent = {
+    id: 'evt_step',
+    timestamp: '2024-01-01T00:00:02.000Z',
+    domain: 'ecommerce',
+    eventType: 'span',
+    name: 'ecommerce.journey.purchase_flow.complete_purchase',
+    attributes: {
+      'journey.name': 'purchase_flow',
+      'journey.step': 'complete_purchase',
+      'journey.step_duration_ms': 1000,
+      'user.session_id': 'session-1'
+    },
+    businessContext: {
+      domain: 'ecommerce',
+      userJourney: 'purchase_flow',
+      businessImpact: 'revenue'
+    },
+    severity: 'info'
+  }
+
+  const apiCall: TelemetryEvent = {
+    id: 'evt_api',
+    timestamp: '2024-01-01T00:00:01.800Z',
+    domain: 'ecommerce',
+    eventType: 'span',
+    name: 'ecommerce.payment',
+    attributes: {
+      'http.method': 'POST',
+      'http.url': '/api/payment',
+      'http.response_time_ms': 500,
+      'api.success': true,
+      'journey.name': 'purchase_flow',
+      'journey.step': 'complete_purchase',
+      'user.session_id': 'session-1'
+    },
+    businessContext: {
+      domain: 'ecommerce',
+      feature: 'payment',
+      userJourney: 'purchase_flow',
+      businessImpact: 'revenue'
+    },
+    severity: 'info'
+  }
+
+  beforeEach(() => {
+    fetchMock = jest.fn().mockResolvedValue({ ok: true, status: 202, statusText: 'Accepted' })
+    global.fetch = fetchMock as any
+
+    exporter = new JaegerExporter()
+    exporter.configure({ platform: 'jaeger', endpoint: 'http://localhost:9411' })
+  })
+
+  afterEach(() => {
+    exporter.destroy()
+    delete (global as any).fetch
+  })
+
+  it('should post spans to the Zipkin v2 endpoint', async () => {
+    await exporter.export([journeyStep, { ...apiCall, eventType: 'metric' }])
+    await exporter.forceFlush()
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:9411/api/v2/spans')
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toHaveLength(1)
+  })
+
+  it('should convert durations and timestamps to microseconds', () => {
+    const [span] = exporter.convertToZipkinSpans([apiCall])
+
+    expect(span.duration).toBe(500000)
+    expect(span.timestamp).toBe(new Date(apiCall.timestamp).getTime() * 1000 - 500000)
+    expect(span.kind).toBe('CLIENT')
+    expect(span.localEndpoint.serviceName).toBe('ecommerce')
+    expect(span.tags['business.impact']).toBe('revenue')
+    expect(span.tags['http.response_time_ms']).toBe('500')
+  })
+
+  it('should nest API calls under the journey step they ran in', async () => {
+    const events: TelemetryEvent[] = []
+    const apiFetch = jest.fn(async () => ({ status: 200, headers: { get: () => null }, text: async () => '' }))
+    const instrumentor = new DomainInstrumentor(
+      { name: 'ecommerce', priority: 'critical', slaTarget: 2000, errorThreshold: 0.1 },
+      { sessionId: 'session-1' },
+      event => events.push(event),
+      { fetch: apiFetch as any }
+    )
+
+    await instrumentor.instrumentUserJourney('purchase_flow', 'complete_purchase', () =>
+      instrumentor.instrumentApiCall('payment', '/api/payment', 'POST', { journeyName: 'purchase_flow', stepName: 'complete_purchase' })
+    )
+    await instrumentor.instrumentApiCall('recommendations', '/api/recommendations')
+
+    const [apiSpan, stepSpan, laterSpan] = exporter.convertToZipkinSpans(events)
+
+    expect(stepSpan.name).toBe('ecommerce.journey.purchase_flow.complete_purchase')
+    expect(stepSpan.traceId).toMatch(/^[0-9a-f]{32}$/)
+    expect(stepSpan.parentId).toBeUndefined()
+    expect(apiSpan.traceId).toBe(stepSpan.traceId)
+    expect(apiSpan.parentId).toBe(stepSpan.id)
+    expect(laterSpan.traceId).not.toBe(stepSpan.traceId)
+    expect(laterSpan.parentId).toBeUndefined()
+    // The backend joins the journey's trace too
+    expect((apiFetch.mock.calls[0] as any[])[1].headers.traceparent).toBe(`00-${apiSpan.traceId}-${apiSpan.id}-01`)
+  })
+
+  it('should keep propagated trace ids on API calls instead of nesting them', () => {
+    const traceId = '4bf92f3577b34da6a3ce929d0e0e4736'
+    const propagatedCall = { ...apiCall, attributes: { ...apiCall.attributes, 'trace.id': traceId, 'span.id': '00f067aa0ba902b7' } }
+
+    const [, apiSpan] = exporter.convertToZipkinSpans([journeyStep, propagatedCall])
+
+    expect(apiSpan.traceId).toBe(traceId)
+    expect(apiSpan.parentId).toBeUndefined()
+  })
+
+  it('should keep journey steps of a session in one trace across batches', () => {
+    const [first] = exporter.convertToZipkinSpans([journeyStep])
+    const [second] = exporter.convertToZipkinSpans([{ ...journeyStep, attributes: { ...journeyStep.attributes, 'journey.step': 'view_cart' } }])
+
+    expect(second.traceId).toBe(first.traceId)
+    expect(second.id).not.toBe(first.id)
+  })
+
+  it('should prefer explicit trace context attributes', () => {
+    const [span] = exporter.convertToZipkinSpans([{
+      ...apiCall,
+      attributes: {
+        ...apiCall.attributes,
+        'trace.id': '4bf92f3577b34da6a3ce929d0e0e4736',
+        'span.id': '00f067aa0ba902b7',
+        'parent.span.id': '53995c3f42cd8ad8'
+      }
+    }])
+
+    expect(span.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736')
+    expect(span.id).toBe('00f067aa0ba902b7')
+    expect(span.parentId).toBe('53995c3f42cd8ad8')
+  })
+
+  it('should replace all-zero trace context ids', () => {
+    const [span] = exporter.convertToZipkinSpans([{
+      ...apiCall,
+      attributes: {
+        ...apiCall.attributes,
+        'trace.id': '0'.repeat(32),
+        'span.id': '0'.repeat(16),
+        'parent.span.id': '0'.repeat(16)
+      }
+    }])
+
+    expect(span.traceId).toMatch(/^(?!0+$)[0-9a-f]{32}$/)
+    expect(span.id).toMatch(/^(?!0+$)[0-9a-f]{16}$/)
+    expect(span.parentId).toBeUndefined()
+  })
+
+  it('should tag failed calls as errors', () => {
+    const [span] = exporter.convertToZipkinSpans([{
+      ...apiCall,
+      attributes: { ...apiCall.attributes, 'api.success': false }
+    }])
+
+    expect(span.tags.error).toBe('true')
+  })
+})
\ No newline at end of file
@@ -0,0 +1,359 @@
+/**
+ * Unit tests for OtlpHttpExporter
+ */
+
+import * as http from 'http'
+import type { AddressInfo } from 'net'
+import { OtlpHttpExporter } from '../../src/integrations/OtlpHttpExporter'
+import type { TelemetryEvent } from '../../src/types'
+
+/**
+ * Stand-in OTLP/HTTP collector: parses request bodies as OTLP JSON and rejects
+ * them with 400 the way a collector would when the shape is wrong
+ */
+const OTLP_SIGNALS: Record<string, [resourceKey: string, scopeKey: string, itemsKey: string, check: (item: any, path: string) => void]> = {
+  '/v1/traces': ['resourceSpans', 'scopeSpans', 'spans', checkSpan],
+  '/v1/metrics': ['resourceMetrics', 'scopeMetrics', 'metrics', checkMetric],
+  '/v1/logs': ['resourceLogs', 'scopeLogs', 'logRecords', checkLogRecord]
+}
+
+function check(condition: any, message: string): void {
+  if (!condition) throw new Error(message)
+}
+
+function checkFields(value: any, allowed: string[], path: string): void {
+  Object.keys(value).forEach(key => check(allowed.includes(key), `${path}: unknown field ${key}`))
+}
+
+function checkAnyValue(value: any, path: string): void {
+  const keys = Object.keys(value || {})
+  check(keys.length === 1, `${path}: AnyValue must set exactly one field`)
+
+  switch (keys[0]) {
+    case 'stringValue': return check(typeof value.stringValue === 'string', `${path}: stringValue`)
+    case 'boolValue': return check(typeof value.boolValue === 'boolean', `${path}: boolValue`)
+    case 'intValue': return check(/^-?\d+$/.test(value.intValue), `${path}: intValue must be an integer string`)
+    case 'doubleValue': return check(typeof value.doubleValue === 'number', `${path}: doubleValue`)
+    case 'arrayValue': return value.arrayValue.values.forEach((item: any, index: number) => checkAnyValue(item, `${path}[${index}]`))
+    default: throw new Error(`${path}: unknown AnyValue field ${keys[0]}`)
+  }
+}
+
+function checkAttributes(attributes: any, path: string): void {
+  check(Array.isArray(attributes), `${path}: attributes must be a list`)
+  attributes.forEach((attribute: any) => {
+    check(typeof attribute.key === 'string' && attribute.key.length > 0, `${path}: attribute key`)
+    checkAnyValue(attribute.value, `${path}.${attribute.key}`)
+  })
+}
+
+function checkUnixNano(value: any, path: string): void {
+  check(typeof value === 'string' && /^\d{19}$/.test(value), `${path}: expected nanoseconds as a decimal string`)
+}
+
+function checkSpan(span: any, path: string): void {
+  checkFields(span, ['traceId', 'spanId', 'traceState', 'parentSpanId', 'flags', 'name', 'kind', 'startTimeUnixNano',
+    'endTimeUnixNano', 'attributes', 'droppedAttributesCount', 'events', 'droppedEventsCount', 'links', 'droppedLinksCount', 'status'], path)
+  check(/^[0-9a-f]{32}$/.test(span.traceId), `${path}: traceId must be 32 hex characters`)
+  check(/^[0-9a-f]{16}$/.test(span.spanId), `${path}: spanId must be 16 hex characters`)
+  check(span.parentSpanId === undefined || /^[0-9a-f]{16}$/.test(span.parentSpanId), `${path}: parentSpanId`)
+  check(typeof span.name === 'string', `${path}: name`)
+  check(Number.isInteger(span.kind) && span.kind >= 0 && span.kind <= 5, `${path}: kind`)
+  checkUnixNano(span.startTimeUnixNano, `${path}.startTimeUnixNano`)
+  checkUnixNano(span.endTimeUnixNano, `${path}.endTimeUnixNano`)
+  check(BigInt(span.startTimeUnixNano) <= BigInt(span.endTimeUnixNano), `${path}: span ends before it starts`)
+  checkAttributes(span.attributes, path)
+  check([0, 1, 2].includes(span.status?.code), `${path}: status.code`)
+}
+
+function checkMetric(metric: any, path: string): void {
+  checkFields(metric, ['name', 'description', 'unit', 'gauge', 'sum', 'histogram', 'exponentialHistogram', 'summary', 'metadata'], path)
+  check(typeof metric.name === 'string' && metric.name.length > 0, `${path}: name`)
+  check(metric.gauge, `${path}: expected a gauge`)
+  metric.gauge.dataPoints.forEach((point: any, index: number) => {
+    const pointPath = `${path}.dataPoints[${index}]`
+    checkFields(point, ['attributes', 'startTimeUnixNano', 'timeUnixNano', 'asDouble', 'asInt', 'exemplars', 'flags'], pointPath)
+    checkUnixNano(point.timeUnixNano, pointPath)
+    check(typeof point.asDouble === 'number', `${pointPath}: asDouble`)
+    checkAttributes(point.attributes, pointPath)
+  })
+}
+
+function checkLogRecord(record: any, path: string): void {
+  checkFields(record, ['timeUnixNano', 'observedTimeUnixNano', 'severityNumber', 'severityText', 'body', 'attributes',
+    'droppedAttributesCount', 'flags', 'traceId', 'spanId'], path)
+  checkUnixNano(record.timeUnixNano, path)
+  check(Number.isInteger(record.severityNumber) && record.severityNumber >= 1 && record.severityNumber <= 24, `${path}: severityNumber`)
+  checkAnyValue(record.body, `${path}.body`)
+  checkAttributes(record.attributes, path)
+}
+
+function parseOtlp(path: string, body: string): any[] {
+  const [resourceKey, scopeKey, itemsKey, checkItem] = OTLP_SIGNALS[path]
+  const payload = JSON.parse(body)
+  checkFields(payload, [resourceKey], path)
+
+  return payload[resourceKey].flatMap((resource: any, r: number) => {
+    checkAttributes(resource.resource.attributes, `${resourceKey}[${r}].resource`)
+    return resource[scopeKey].flatMap((scope: any, s: number) => {
+      check(typeof scope.scope?.name === 'string', `${scopeKey}[${s}]: scope.name`)
+      return scope[itemsKey].map((item: any, i: number) => {
+        checkItem(item, `${resourceKey}[${r}].${scopeKey}[${s}].${itemsKey}[${i}]`)
+        return item
+      })
+    })
+  })
+}
+
+async function startCollector() {
+  const collector = {
+    received: [] as Array<{ path: string, items: any[] }>,
+    rejected: [] as string[],
+    failures: {} as Record<string, number>,
+    url: '',
+    close: () => new Promise(resolve => server.close(resolve))
+  }
+
+  const server = http.createServer((request, response) => {
+    let body = ''
+    request.on('data', chunk => { body += chunk })
+    request.on('end', () => {
+      const path = request.url!
+      if (collector.failures[path]) {
+        response.writeHead(collector.failures[path]).end()
+        return
+      }
+
+      try {
+        collector.received.push({ path, items: parseOtlp(path, body) })
+        response.writeHead(200, { 'Content-Type': 'application/json' }).end('{}')
+      } catch (error) {
+        collector.rejected.push(`${path}: ${(error as Error).message}`)
+        response.writeHead(400).end()
+      }
+    })
+  })
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  collector.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  return collector
+}
+
+// fetch over a real HTTP connection - jsdom has none of its own
+function httpFetch(url: string, init: RequestInit): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const request = http.request(url, { method: init.method, headers: init.headers as Record<string, string> }, response => {
+      response.resume()
+      response.on('end', () => resolve({
+        ok: response.statusCode! >= 200 && response.statusCode! < 300,
+        status: response.statusCode,
+        statusText: response.statusMessage,
+        headers: { get: (name: string) => response.headers[name.toLowerCase()] ?? null }
+      }))
+    })
+    request.on('error', reject)
+    request.end(init.body)
+  })
+}
+
+describe('OtlpHttpExporter', () => {
+  let exporter: OtlpHttpExporter
+  let fetchMock: jest.Mock
+
+  const createEvent = (overrides: Partial<TelemetryEvent> = {}): TelemetryEvent => ({
+    id: 'evt_1',
+    timestamp: '2024-01-01T00:00:01.000Z',
+    domain: 'ecommerce',
+    eventType: 'span',
+    name: 'ecommerce.checkout',
+    attributes: {
+      'http.method': 'POST',
+      'http.url': '/api/checkout',
+      'http.response_time_ms': 250,
+      'api.success': true
+    },
+    businessContext: {
+      domain: 'ecommerce',
+      feature: 'checkout',
+      businessImpact: 'revenue'
+    },
+    severity: 'info',
+    ...overrides
+  })
+
+  beforeEach(() => {
+    // Stand-in collector that accepts every request
+    fetchMock = jest.fn().mockResolvedValue({ ok: true, status: 200, statusText: 'OK' })
+    global.fetch = fetchMock as any
+
+    exporter = new OtlpHttpExporter()
+    exporter.configure({
+      platform: 'otlp',
+      endpoint: 'http://localhost:4318/',
+      customHeaders: { 'X-Tenant': 'shop' },
+      retry: { baseDelay: 1 }
+    })
+  })
+
+  afterEach(() => {
+    exporter.destroy()
+    delete (global as any).fetch
+  })
+
+  it('should post each signal to its OTLP endpoint', async () => {
+    await exporter.export([
+      createEvent(),
+      createEvent({ eventType: 'metric', name: 'ecommerce.business.cart_value', attributes: { 'metric.name': 'cart_value', 'metric.value': 42.5 } }),
+      createEvent({ eventType: 'error', severity: 'error', attributes: { 'error.type': 'TypeError', 'error.message': 'boom', 'error.stack': 'TypeError: boom' } })
+    ])
+    await exporter.forceFlush()
+
+    const urls = fetchMock.mock.calls.map(call => call[0])
+    expect(urls).toEqual([
+      'http://localhost:4318/v1/traces',
+      'http://localhost:4318/v1/metrics',
+      'http://localhost:4318/v1/logs'
+    ])
+    expect(fetchMock.mock.calls[0][1].headers['X-Tenant']).toBe('shop')
+  })
+
+  it('should convert spans with business context as resource and span attributes', () => {
+    const payload = exporter.convertToOtlpTraces([createEvent()])
+    const resource = payload.resourceSpans[0].resource
+    const span = payload.resourceSpans[0].scopeSpans[0].spans[0]
+
+    expect(resource.attributes).toContainEqual({ key: 'business.domain', value: { stringValue: 'ecommerce' } })
+    expect(span.attributes).toContainEqual({ key: 'business.impact', value: { stringValue: 'revenue' } })
+    expect(span.attributes).toContainEqual({ key: 'business.feature', value: { stringValue: 'checkout' } })
+    expect(span.traceId).toMatch(/^[0-9a-f]{32}$/)
+    expect(span.spanId).toMatch(/^[0-9a-f]{16}$/)
+    expect(span.endTimeUnixNano).toBe('1704067201000000000')
+    expect(span.startTimeUnixNano).toBe('1704067200750000000')
+  })
+
+  it('should reuse trace ids present on the event', () => {
+    const traceId = '4bf92f3577b34da6a3ce929d0e0e4736'
+    const payload = exporter.convertToOtlpTraces([
+      createEvent({ attributes: { 'trace.id': traceId, 'span.id': '00f067aa0ba902b7' } })
+    ])
+    const span = payload.resourceSpans[0].scopeSpans[0].spans[0]
+
+    expect(span.traceId).toBe(traceId)
+    expect(span.spanId).toBe('00f067aa0ba902b7')
+  })
+
+  it('should replace invalid ids on spans and leave them off log records', () => {
+    const attributes = { 'trace.id': '0'.repeat(32), 'span.id': 'not-a-span-id', 'parent.span.id': '0'.repeat(16) }
+    const span = exporter.convertToOtlpTraces([createEvent({ attributes })]).resourceSpans[0].scopeSpans[0].spans[0]
+    const record = exporter.convertToOtlpLogs([createEvent({ eventType: 'log', attributes })]).resourceLogs[0].scopeLogs[0].logRecords[0]
+
+    expect(span.traceId).toMatch(/^(?!0+$)[0-9a-f]{32}$/)
+    expect(span.spanId).toMatch(/^[0-9a-f]{16}$/)
+    expect(span.parentSpanId).toBeUndefined()
+    expect(record.traceId).toBeUndefined()
+    expect(record.spanId).toBeUndefined()
+  })
+
+  it('should map errors onto exception log records', () => {
+    const payload = exporter.convertToOtlpLogs([
+      createEvent({ eventType: 'error', severity: 'error', attributes: { 'error.type': 'TypeError', 'error.message': 'boom' } })
+    ])
+    const record = payload.resourceLogs[0].scopeLogs[0].logRecords[0]
+
+    expect(record.severityNumber).toBe(17)
+    expect(record.body).toEqual({ stringValue: 'boom' })
+    expect(record.attributes).toContainEqual({ key: 'exception.type', value: { stringValue: 'TypeError' } })
+  })
+
+  it('should group resources by domain', () => {
+    const payload = exporter.convertToOtlpMetrics([
+      createEvent({ eventType: 'metric', attributes: { 'metric.name': 'a', 'metric.value': 1 } }),
+      createEvent({ eventType: 'metric', domain: 'content', attributes: { 'metric.name': 'b', 'metric.value': 2 } })
+    ])
+
+    expect(payload.resourceMetrics).toHaveLength(2)
+    expect(payload.resourceMetrics[0].scopeMetrics[0].metrics[0].gauge.dataPoints[0].asDouble).toBe(1)
+  })
+
+  it('should split batches over the payload limit and report request sizes', async () => {
+    exporter.configure({ platform: 'otlp', endpoint: 'http://localhost:4318', maxPayloadBytes: 4096 })
+
+    await exporter.export(Array.from({ length: 20 }, (_, index) => createEvent({ id: `evt_${index}` })))
+    await exporter.forceFlush()
+
+    const stats = exporter.getStats()
+    expect(fetchMock.mock.calls.length).toBeGreaterThan(1)
+    expect(stats.requests).toBe(fetchMock.mock.calls.length)
+    expect(stats.splitBatches).toBe(1)
+    stats.recentRequests.forEach(request => expect(request.rawBytes).toBeLessThanOrEqual(4096))
+  })
+
+  it('should gzip request bodies when compression is enabled', async () => {
+    exporter.configure({ platform: 'otlp', endpoint: 'http://localhost:4318', compression: 'gzip' })
+
+    await exporter.export([createEvent()])
+    await exporter.forceFlush()
+
+    const [, init] = fetchMock.mock.calls[0]
+    expect(init.headers['Content-Encoding']).toBe('gzip')
+    expect(init.body).toBeInstanceOf(Uint8Array)
+  })
+
+  describe('against a stand-in collector', () => {
+    let collector: Awaited<ReturnType<typeof startCollector>>
+
+    const itemsFor = (path: string) => collector.received.filter(request => request.path === path).flatMap(request => request.items)
+
+    beforeEach(async () => {
+      collector = await startCollector()
+      global.fetch = httpFetch as any
+      window.localStorage.clear()
+      exporter.configure({ platform: 'otlp', endpoint: collector.url, retry: { baseDelay: 1 } })
+    })
+
+    afterEach(async () => {
+      await collector.close()
+    })
+
+    it('should send payloads the collector parses as OTLP', async () => {
+      await exporter.export([
+        createEvent({ attributes: { ...createEvent().attributes, 'trace.id': '4bf92f3577b34da6a3ce929d0e0e4736', 'parent.span.id': '00f067aa0ba902b7' } }),
+        createEvent({ eventType: 'metric', name: 'ecommerce.business.cart_value', attributes: { 'metric.name': 'cart_value', 'metric.value': 42.5 } }),
+        createEvent({ eventType: 'error', severity: 'error', attributes: { 'error.type': 'TypeError', 'error.message': 'boom', 'error.stack': 'TypeError: boom', 'cart.items': [1, 2] } })
+      ])
+      await exporter.forceFlush()
+
+      expect(collector.rejected).toEqual([])
+      expect(itemsFor('/v1/traces')).toEqual([expect.objectContaining({ traceId: '4bf92f3577b34da6a3ce929d0e0e4736', parentSpanId: '00f067aa0ba902b7' })])
+      expect(itemsFor('/v1/metrics')).toEqual([expect.objectContaining({ name: 'cart_value' })])
+      expect(itemsFor('/v1/logs')).toEqual([expect.objectContaining({ body: { stringValue: 'boom' } })])
+    })
+
+    it('should re-queue only the signal the collector failed to accept', async () => {
+      collector.failures['/v1/metrics'] = 503
+      exporter.configure({ platform: 'otlp', endpoint: collector.url, retry: { baseDelay: 1 }, offlineQueue: { enabled: true } })
+
+      await exporter.export([
+        createEvent({ id: 'span_1' }),
+        createEvent({ id: 'metric_1', eventType: 'metric', attributes: { 'metric.name': 'cart_value', 'metric.value': 1 } }),
+        createEvent({ id: 'error_1', eventType: 'error', severity: 'error', attributes: { 'error.message': 'boom' } })
+      ])
+      await exporter.forceFlush()
+
+      const queued = JSON.parse(window.localStorage.getItem(`observ-metrics:offline-queue:otlp:${collector.url}`)!)
+      expect(queued.flatMap((batch: any) => batch.events.map((event: TelemetryEvent) => event.id))).toEqual(['metric_1'])
+      expect(itemsFor('/v1/traces')).toHaveLength(1)
+      expect(itemsFor('/v1/logs')).toHaveLength(1)
+
+      // Once the collector recovers, the queue replays the metrics without the span or the error
+      delete collector.failures['/v1/metrics']
+      for (let i = 0; i < 300 && itemsFor('/v1/metrics').length === 0; i++) {
+        await new Promise(resolve => setTimeout(resolve, 10))
+      }
+
+      expect(itemsFor('/v1/metrics')).toHaveLength(1)
+      expect(itemsFor('/v1/traces')).toHaveLength(1)
+      expect(itemsFor('/v1/logs')).toHaveLength(1)
+    })
+  })
+})
\ No newline at end of file